@@ -6,7 +6,8 @@ import { gzip } from 'node-gzip';
 import { program } from '@caporal/core';
 import { Logger, NodeIO, PropertyType, VertexLayout, vec2 } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
-import { CenterOptions, InstanceOptions, PartitionOptions, PruneOptions, QUANTIZE_DEFAULTS, ResampleOptions, SequenceOptions, TEXTURE_RESIZE_DEFAULTS, TextureResizeFilter, UnweldOptions, WeldOptions, center, dedup, instance, metalRough, partition, prune, quantize, resample, sequence, tangents, textureResize, unweld, weld, reorder, dequantize, oxipng, mozjpeg, webp, unlit, meshopt, DRACO_DEFAULTS, draco, DracoOptions } from '@gltf-transform/functions';
+import { CenterOptions, DiffOptions, InstanceOptions, JoinOptions, PartitionOptions, PruneOptions, QUANTIZE_DEFAULTS, ResampleOptions, SequenceOptions, TEXTURE_ATLAS_DEFAULTS, TEXTURE_RESIZE_DEFAULTS, TextureResizeFilter, UnweldOptions, WeldOptions, center, dedup, flatten, instance, join, JOIN_DEFAULTS, lod, LOD_DEFAULTS, metalRough, partition, prune, quantize, resample, sequence, tangents, textureAtlas, textureResize, unweld, weld, reorder, dequantize, simplify, SIMPLIFY_DEFAULTS, sparse, SPARSE_DEFAULTS, oxipng, mozjpeg, webp, avif, unlit, meshopt, DRACO_DEFAULTS, draco, DracoOptions } from '@gltf-transform/functions';
+import { diff } from './diff';
 import { InspectFormat, inspect } from './inspect';
 import { ETC1S_DEFAULTS, Filter, Mode, UASTC_DEFAULTS, ktxfix, merge, toktx, XMPOptions, xmp } from './transforms';
 import { formatBytes, MICROMATCH_OPTIONS, underline } from './util';
@@ -20,7 +21,7 @@ let io: NodeIO;
 const fetch = require('node-fetch');
 const draco3d = require('draco3dgltf');
 const mikktspace = require('mikktspace');
-const { MeshoptDecoder, MeshoptEncoder } = require('meshoptimizer');
+const { MeshoptDecoder, MeshoptEncoder, MeshoptSimplifier } = require('meshoptimizer');
 
 const programReady = new Promise<void>((resolve) => {
 	Promise.all([
@@ -61,19 +62,29 @@ is comprised of geometry vs. textures, which extensions are needed when loading
 the file, and which material properties are being used.
 
 Use --format=csv or --format=md for alternative display formats.
+
+Use --efficiency to report vertex cache (ACMR, ATVR), overdraw, and vertex
+fetch efficiency for each mesh primitive, as when measuring the effects of
+"reorder". These metrics are computed on the CPU, and may be slow for large
+meshes.
 	`.trim())
 	.argument('<input>', INPUT_DESC)
 	.option('--format <format>', 'Table output format', {
 		validator: [InspectFormat.PRETTY, InspectFormat.CSV, InspectFormat.MD],
 		default: InspectFormat.PRETTY
 	})
+	.option('--efficiency', 'Report mesh efficiency metrics', {
+		validator: program.BOOLEAN,
+		default: false
+	})
 	.action(async ({args, options, logger}) => {
 		io.setLogger(logger as unknown as Logger);
 		await inspect(
-			await io.readAsJSON(args.input as string),
+			await io.readAsJSONLazy(args.input as string),
 			io,
 			logger as unknown as Logger,
-			options.format as InspectFormat
+			options.format as InspectFormat,
+			options.efficiency as boolean
 		);
 	});
 
@@ -113,6 +124,36 @@ Example:
 		);
 	});
 
+// DIFF
+program
+	.command('diff', 'Compare two models and report changes')
+	.help(`
+Compare two models, and report nodes, meshes, materials, textures, and
+animations that were added, removed, or changed in <inputB>. Properties are
+matched by name, or by index when unnamed. Accessor data is compared element
+by element, within --tolerance, and texture images are compared by hashes of
+their contents.
+
+Example:
+
+  ▸ gltf-transform diff before.glb after.glb --tolerance 0.0001
+	`.trim())
+	.argument('<inputA>', INPUT_DESC)
+	.argument('<inputB>', INPUT_DESC)
+	.option('--tolerance <tolerance>', 'Maximum difference between accessor elements', {
+		validator: program.NUMBER,
+		default: 0,
+	})
+	.action(async ({args, options, logger}) => {
+		io.setLogger(logger as unknown as Logger);
+		diff(
+			await io.read(args.inputA as string),
+			await io.read(args.inputB as string),
+			options as unknown as DiffOptions,
+			logger as unknown as Logger
+		);
+	});
+
 program.command('', '\n\n📦 PACKAGE ──────────────────────────────────────────');
 
 // COPY
@@ -226,6 +267,14 @@ compression and instancing, to be more effective.
 		validator: program.BOOLEAN,
 		default: true,
 	})
+	.option('--texture-pixels <texturePixels>', 'Compare textures by decoded pixels, rather than encoded data', {
+		validator: program.BOOLEAN,
+		default: false,
+	})
+	.option('--texture-tolerance <textureTolerance>', 'Maximum difference (0–255) between equal pixels', {
+		validator: program.NUMBER,
+		default: 0,
+	})
 	.action(({args, options, logger}) => {
 		const propertyTypes: string[] = [];
 		if (options.accessors) propertyTypes.push(PropertyType.ACCESSOR);
@@ -233,7 +282,11 @@ compression and instancing, to be more effective.
 		if (options.meshes) propertyTypes.push(PropertyType.MESH);
 		if (options.textures) propertyTypes.push(PropertyType.TEXTURE);
 		return Session.create(io, logger, args.input, args.output)
-			.transform(dedup({propertyTypes}));
+			.transform(dedup({
+				propertyTypes,
+				texturePixels: options.texturePixels as boolean,
+				textureTolerance: options.textureTolerance as number,
+			}));
 	}
 
 	);
@@ -361,6 +414,53 @@ https://github.com/KhronosGroup/glTF/tree/master/extensions/2.0/Vendor/EXT_mesh_
 			.transform(instance({...options} as InstanceOptions))
 	);
 
+// FLATTEN
+program
+	.command('flatten', 'Flatten scene graph')
+	.help(`
+Flattens the scene graph, leaving Nodes with Meshes, Cameras, and other
+attachments as direct children of the Scene. Transforms of parent nodes are
+baked into each flattened node, such that world transforms are unchanged.
+
+Nodes are left in place if they are animated (by translation, rotation, or
+scale), are descendants of an animated node, are skinned, or are joints in a
+Skin. Animated subtrees are therefore kept intact.
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.action(({args, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(flatten())
+	);
+
+// JOIN
+program
+	.command('join', 'Join meshes and reduce draw calls')
+	.help(`
+Joins compatible Primitives across Meshes and Nodes in each Scene, reducing the
+number of draw calls. Primitives are compatible if they share a Material, draw
+mode, and vertex attribute layout. Vertices are transformed into the common
+space of the Scene.
+
+Animated, skinned, and instanced nodes are not joined, nor are Primitives with
+morph targets. Materials are compared by reference, so running 'dedup' first
+may allow more primitives to be joined.
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--keep-named', 'Keep meshes of named nodes separate', {
+		validator: program.BOOLEAN,
+		default: JOIN_DEFAULTS.keepNamed,
+	})
+	.option('--vertex-limit <limit>', 'Maximum vertex count of each joined primitive', {
+		validator: program.NUMBER,
+		default: JOIN_DEFAULTS.vertexLimit,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(join(options as JoinOptions))
+	);
+
 program.command('', '\n\n🕋 GEOMETRY ─────────────────────────────────────────');
 
 // DRACO
@@ -625,6 +725,116 @@ Based on the meshoptimizer library (https://github.com/zeux/meshoptimizer).
 			.transform(reorder({encoder: MeshoptEncoder, ...options}))
 	);
 
+// SIMPLIFY
+program
+	.command('simplify', 'Simplify mesh, reducing number of vertices')
+	.help(`
+Simplify mesh, reducing number of vertices and triangles. Simplification is
+lossy, but the algorithm aims to preserve visual quality as much as possible,
+retaining UVs, normals, skin weights, and other vertex attributes on the
+remaining vertices.
+
+The algorithm aims to reach the target --ratio, while minimizing error. If
+error exceeds the specified --error threshold, the algorithm will quit before
+reaching the target ratio. Examples:
+
+- Ratio=0.5, error=0.001: Aims for 50% simplification, constrained to 0.1% error.
+- Ratio=0.5, error=1: Aims for 50% simplification, unconstrained by error.
+- Ratio=0.0, error=0.01: Aims for maximum simplification, constrained to 1% error.
+
+Topology, particularly split vertices, will also limit the simplifier. Vertices
+are welded before simplification, and triangle counts before and after are
+reported for each mesh.
+
+Based on the meshoptimizer library (https://github.com/zeux/meshoptimizer).
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--ratio <ratio>', 'Target ratio (0–1) of triangles to keep', {
+		validator: program.NUMBER,
+		default: SIMPLIFY_DEFAULTS.ratio,
+	})
+	.option('--error <error>', 'Limit on error, as a fraction of mesh radius', {
+		validator: program.NUMBER,
+		default: SIMPLIFY_DEFAULTS.error,
+	})
+	.option('--lock-border', 'Whether to lock topological borders of the mesh', {
+		validator: program.BOOLEAN,
+		default: SIMPLIFY_DEFAULTS.lockBorder,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(simplify({simplifier: MeshoptSimplifier, ...options}))
+	);
+
+// LOD
+program
+	.command('lod', 'Generate levels of detail with MSFT_lod')
+	.help(`
+Generate lower levels of detail (LODs) for each mesh, using the MSFT_lod
+extension. Each level is a simplified copy of the original mesh, attached to a
+new node, and displayed by supporting viewers when the object's screen coverage
+falls below a threshold. Viewers that do not support MSFT_lod display the
+original meshes.
+
+Use --ratios to set the target ratio (0–1) of triangles kept at each level, and
+--coverages to set the screen coverage (0–1) above which each level, including
+the original, is displayed. An additional coverage value may be given, below
+which nothing is displayed.
+
+Example:
+
+  ▸ gltf-transform lod input.glb output.glb --ratios 0.5,0.1 --coverages 0.5,0.2,0.05
+
+Based on the meshoptimizer library (https://github.com/zeux/meshoptimizer).
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--ratios <ratios>', 'Target ratios (0–1) of triangles for each level', {
+		validator: program.ARRAY,
+		default: LOD_DEFAULTS.ratios,
+	})
+	.option('--coverages <coverages>', 'Screen coverage (0–1) for each level', {
+		validator: program.ARRAY,
+		default: LOD_DEFAULTS.coverages,
+	})
+	.option('--error <error>', 'Limit on error, as a fraction of mesh radius', {
+		validator: program.NUMBER,
+		default: LOD_DEFAULTS.error,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(lod({
+				simplifier: MeshoptSimplifier,
+				ratios: (options.ratios as string[]).map(Number),
+				coverages: (options.coverages as string[]).map(Number),
+				error: options.error as number,
+			}))
+	);
+
+// SPARSE
+program
+	.command('sparse', 'Reduce storage for zero-filled arrays')
+	.help(`
+Scans all Accessors in the Document, detecting whether each Accessor would
+benefit from sparse data storage. Sparse storage is used when fewer than
+ratio × count elements differ from zero or from a base accessor, where a base
+accessor is the same attribute of the primitive or of another morph target.
+Particularly for assets using morph target ("shape key") animation, sparse
+data storage may significantly reduce file sizes. Accessors read from sparse
+storage retain it, unless updated here.
+	`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option('--ratio <ratio>', 'Threshold ratio of elements differing from zero or a base accessor', {
+		validator: program.NUMBER,
+		default: SPARSE_DEFAULTS.ratio,
+	})
+	.action(({args, options, logger}) =>
+		Session.create(io, logger, args.input, args.output)
+			.transform(sparse(options))
+	);
+
 program.command('', '\n\n✨ MATERIAL ─────────────────────────────────────────');
 
 // METALROUGH
@@ -711,6 +921,49 @@ preserving original aspect ratio. Texture dimensions are never increased.
 			}));
 	});
 
+// ATLAS
+program
+	.command('atlas', 'Pack small textures into texture atlases')
+	.help(`
+Packs small PNG or JPEG textures sharing a material slot (baseColorTexture,
+normalTexture, etc.) into larger atlas images, reducing texture bindings and
+draw calls. Texture coordinates are remapped into each atlas where possible,
+or KHR_texture_transform offsets are applied where texture coordinates are
+shared with other textures of the same material.
+
+Textures are packed only if used in a single slot and sampled with texture
+coordinates in the [0, 1] range. Repeating (tiled) textures are left unchanged.
+`.trim())
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option(
+		'--slots <slots>',
+		'Texture slots to include (glob)',
+		{validator: program.STRING, default: '*'}
+	)
+	.option('--limit <pixels>', 'Maximum width/height (px) of textures to pack.', {
+		validator: program.NUMBER,
+		default: TEXTURE_ATLAS_DEFAULTS.limit,
+	})
+	.option('--size <pixels>', 'Maximum width/height (px) of each atlas.', {
+		validator: program.NUMBER,
+		default: TEXTURE_ATLAS_DEFAULTS.size,
+	})
+	.option('--padding <pixels>', 'Padding (px) around each texture in an atlas.', {
+		validator: program.NUMBER,
+		default: TEXTURE_ATLAS_DEFAULTS.padding,
+	})
+	.action(({args, options, logger}) => {
+		const slots = micromatch.makeRe(String(options.slots), MICROMATCH_OPTIONS);
+		return Session.create(io, logger, args.input, args.output)
+			.transform(textureAtlas({
+				slots,
+				limit: options.limit as number,
+				size: options.size as number,
+				padding: options.padding as number,
+			}));
+	});
+
 const BASIS_SUMMARY = `
 Compresses textures in the given file to .ktx2 GPU textures using the
 {VARIANT} Basis Universal bitstream. GPU textures offer faster GPU upload
@@ -976,6 +1229,36 @@ options, please open a pull request.
 See: https://github.com/GoogleChromeLabs/squoosh/blob/dev/libsquoosh/src/codecs.ts
 `.trim();
 
+// AVIF
+program
+	.command('avif', 'AVIF texture compression')
+	.help(SQUOOSH_SUMMARY.replace(/{VARIANT}/g, 'AVIF'))
+	.argument('<input>', INPUT_DESC)
+	.argument('<output>', OUTPUT_DESC)
+	.option(
+		'--formats <formats>',
+		'Texture formats to include (glob)',
+		{validator: ['image/png', 'image/jpeg', '*'], default: '*'}
+	)
+	.option(
+		'--slots <slots>',
+		'Texture slots to include (glob)',
+		{validator: program.STRING, default: '*'}
+	)
+	.option(
+		'--auto',
+		'Enables experimental auto-optimization with perceptual metrics.'
+		+ ' Slower, with typically higher-quality and larger images'
+		+ ' compared to the default encoder settings.',
+		{validator: program.BOOLEAN, default: false}
+	)
+	.action(({args, options, logger}) => {
+		const formats = micromatch.makeRe(String(options.formats), MICROMATCH_OPTIONS);
+		const slots = micromatch.makeRe(String(options.slots), MICROMATCH_OPTIONS);
+		return Session.create(io, logger, args.input, args.output)
+			.transform(avif({...options, formats, slots, squoosh}));
+	});
+
 // WEBP
 program
 	.command('webp', 'WebP texture compression')
@@ -1078,8 +1361,10 @@ to correctly represent IK constraints and other animation techniques. These
 additional keyframes are often redundant — particularly with morph targets —
 as engines can interpolate animation at 60–120 FPS even with sparse keyframes.
 
-The resampling process removes redundant keyframes from animations using STEP
-and LINEAR interpolation. Resampling is nearly lossless, with configurable
+The resampling process removes redundant keyframes from animations using STEP,
+LINEAR, and CUBICSPLINE interpolation, including morph target weights.
+CUBICSPLINE keyframes are removed only where the adjacent keyframes' tangents
+reproduce the same curve. Resampling is nearly lossless, with configurable
 --tolerance, and should have no visible effect on animation playback.
 	`.trim())
 	.argument('<input>', INPUT_DESC)
@@ -0,0 +1,30 @@
+import CLITable from 'cli-table3';
+import type { Document, Logger } from '@gltf-transform/core';
+import { DiffOptions, DiffPropertyReport, diff as diffDocs } from '@gltf-transform/functions';
+import { formatHeader } from './util';
+
+export function diff(docA: Document, docB: Document, options: DiffOptions, logger: Logger): void {
+	const report = diffDocs(docA, docB, options);
+	printDiffSection('nodes', report.nodes, logger);
+	printDiffSection('meshes', report.meshes, logger);
+	printDiffSection('materials', report.materials, logger);
+	printDiffSection('textures', report.textures, logger);
+	printDiffSection('animations', report.animations, logger);
+}
+
+function printDiffSection(type: string, section: DiffPropertyReport, logger: Logger): void {
+	console.log(formatHeader(type));
+	const rows = [
+		...section.removed.map((name) => ['removed', name, '']),
+		...section.added.map((name) => ['added', name, '']),
+		...section.changed.map(({ name, changes }) => ['changed', name, changes.join('\n')]),
+	];
+	if (rows.length) {
+		const table = new CLITable({ head: ['change', 'name', 'details'] });
+		table.push(...rows);
+		console.log(table.toString());
+	} else {
+		logger.info(`No changes to ${type} found.`);
+	}
+	console.log('\n');
+}
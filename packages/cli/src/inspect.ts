@@ -3,6 +3,7 @@ import { stringify } from 'csv-stringify';
 import type { JSONDocument, Logger, NodeIO, WebIO } from '@gltf-transform/core';
 import {
 	InspectAnimationReport,
+	InspectLODReport,
 	InspectMaterialReport,
 	InspectMeshReport,
 	InspectPropertyReport,
@@ -24,7 +25,8 @@ type AnyPropertyReport =
 	| InspectMeshReport
 	| InspectMaterialReport
 	| InspectTextureReport
-	| InspectAnimationReport;
+	| InspectAnimationReport
+	| InspectLODReport;
 
 const CLI_TABLE_MARKDOWN_CHARS = {
 	top: '',
@@ -48,7 +50,8 @@ export async function inspect(
 	jsonDoc: JSONDocument,
 	io: NodeIO | WebIO,
 	logger: Logger,
-	format: InspectFormat
+	format: InspectFormat,
+	efficiency = false
 ): Promise<void> {
 	// Summary (does not require parsing).
 	const extensionsUsed = jsonDoc.json.extensionsUsed || [];
@@ -67,10 +70,10 @@ export async function inspect(
 		)) + '\n\n'
 	);
 
-	// Parse.
+	// Parse. Binary data deferred by io.readAsJSONLazy() is read only where needed.
 	let doc;
 	try {
-		doc = await io.readJSON(jsonDoc);
+		doc = await io.readJSONLazy(jsonDoc);
 	} catch (e) {
 		logger.warn('Unable to parse document.');
 		throw e;
@@ -90,12 +93,17 @@ export async function inspect(
 	}
 
 	// Detailed report.
-	const report = inspectDoc(doc);
+	const report = inspectDoc(doc, { efficiency });
 	await reportSection('scenes', format, logger, report.scenes);
 	await reportSection('meshes', format, logger, report.meshes);
 	await reportSection('materials', format, logger, report.materials);
 	await reportSection('textures', format, logger, report.textures);
 	await reportSection('animations', format, logger, report.animations);
+
+	// LOD report, only for models using MSFT_lod.
+	if (report.lods.properties.length) {
+		await reportSection('lods', format, logger, report.lods);
+	}
 }
 
 async function reportSection(
@@ -182,6 +190,15 @@ function getFootnotes(type: string, rows: string[][], header: string[]): string[
 				'  shared by other mesh primitives, but the meshes themselves are not reused, then\n' +
 				'  the sum of all mesh sizes will overestimate the asset\'s total size. See "dedup".'
 		);
+		if (header.includes('acmr')) {
+			for (let i = 0; i < header.length; i++) {
+				if (header[i] === 'acmr') header[i] += '²';
+			}
+			footnotes.push(
+				'² acmr, atvr, overdraw, and overfetch are listed for each triangle primitive. Lower\n' +
+					'  values are better; optimal atvr, overdraw, and overfetch are 1. See "reorder".'
+			);
+		}
 	}
 	if (type === 'textures') {
 		for (let i = 0; i < header.length; i++) {
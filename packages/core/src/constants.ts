@@ -77,6 +77,9 @@ export type bbox = { min: vec3; max: vec3 };
 /** @hidden */
 export const GLB_BUFFER = '@glb.bin';
 
+/** @internal */
+export const KHR_ANIMATION_POINTER = 'KHR_animation_pointer';
+
 /**
  * Abstraction representing any one of the typed array classes supported by glTF and JavaScript.
  * @hidden
@@ -136,6 +139,7 @@ export enum BufferViewUsage {
 	ELEMENT_ARRAY_BUFFER = 'ELEMENT_ARRAY_BUFFER',
 	INVERSE_BIND_MATRICES = 'INVERSE_BIND_MATRICES',
 	OTHER = 'OTHER',
+	SPARSE = 'SPARSE',
 }
 
 /** Texture channels. */
@@ -2,7 +2,9 @@
 
 export { Document, Transform, TransformContext } from './document';
 export { JSONDocument } from './json-document';
+export { DocumentSnapshot, PropertySnapshot, RefSnapshot } from './document-snapshot';
 export { Extension } from './extension';
+export { Journal, JournalEntry, JournalEvent } from './journal';
 export {
 	Accessor,
 	Animation,
@@ -27,13 +29,15 @@ export {
 	COPY_IDENTITY,
 } from './properties';
 export { Graph, GraphEdge } from 'property-graph';
-export { DenoIO, PlatformIO, NodeIO, WebIO, ReaderContext, WriterContext } from './io';
+export { ByteRangeReader, DenoIO, PlatformIO, NodeIO, WebIO, ReaderContext, WriterContext } from './io';
 export {
 	BufferUtils,
 	ColorUtils,
 	FileUtils,
 	ImageUtils,
+	ImageUtilsCodec,
 	ImageUtilsFormat,
+	Pixels,
 	Logger,
 	MathUtils,
 	bounds,
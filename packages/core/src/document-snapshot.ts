@@ -0,0 +1,230 @@
+import { GraphEdge, isRef, isRefList, isRefMap } from 'property-graph';
+import { PropertyType } from './constants';
+import type { Document } from './document';
+import type { Extension } from './extension';
+import {
+	Accessor,
+	Animation,
+	AnimationChannel,
+	AnimationSampler,
+	Buffer,
+	Camera,
+	ExtensionProperty,
+	Material,
+	Mesh,
+	Node,
+	Primitive,
+	PrimitiveTarget,
+	Property,
+	Scene,
+	Skin,
+	Texture,
+} from './properties';
+import { isPlainObject } from './utils';
+import type { Ref, RefMap } from './utils';
+import type { Graph } from 'property-graph';
+
+/**
+ * Serialized reference from one property in a {@link DocumentSnapshot} to another, by index.
+ *
+ * @category Documents
+ */
+export interface RefSnapshot {
+	index: number;
+	attributes: Record<string, unknown>;
+}
+
+/**
+ * Serialized {@link Property} in a {@link DocumentSnapshot}.
+ *
+ * @category Documents
+ */
+export interface PropertySnapshot {
+	propertyType: string;
+	extensionName?: string;
+	literals: Record<string, unknown>;
+	refs: Record<string, RefSnapshot>;
+	refLists: Record<string, RefSnapshot[]>;
+	refMaps: Record<string, Record<string, RefSnapshot>>;
+}
+
+/**
+ * Lossless representation of a {@link Document}, compatible with `structuredClone` and
+ * `postMessage`, created with {@link Document.toSnapshot}. Accessor and texture data are
+ * copied into ArrayBuffers listed in `transfer`, which may be transferred to a worker without
+ * affecting the original Document.
+ *
+ * @category Documents
+ */
+export interface DocumentSnapshot {
+	extensions: { name: string; required: boolean }[];
+	/** Properties of the Document. The first property is the {@link Root}. */
+	properties: PropertySnapshot[];
+	/** ArrayBuffers containing accessor and texture data, suitable for transfer to a worker. */
+	transfer: ArrayBuffer[];
+}
+
+type PropertyConstructor = new (graph: Graph<Property>) => Property;
+
+const PROPERTY_CONSTRUCTORS: Record<string, PropertyConstructor> = {
+	[PropertyType.ACCESSOR]: Accessor,
+	[PropertyType.ANIMATION]: Animation,
+	[PropertyType.ANIMATION_CHANNEL]: AnimationChannel,
+	[PropertyType.ANIMATION_SAMPLER]: AnimationSampler,
+	[PropertyType.BUFFER]: Buffer,
+	[PropertyType.CAMERA]: Camera,
+	[PropertyType.MATERIAL]: Material,
+	[PropertyType.MESH]: Mesh,
+	[PropertyType.NODE]: Node,
+	[PropertyType.PRIMITIVE]: Primitive,
+	[PropertyType.PRIMITIVE_TARGET]: PrimitiveTarget,
+	[PropertyType.SCENE]: Scene,
+	[PropertyType.SKIN]: Skin,
+	[PropertyType.TEXTURE]: Texture,
+};
+
+/** @internal Serializes a Document. See {@link Document.toSnapshot}. */
+export function createDocumentSnapshot(doc: Document): DocumentSnapshot {
+	const root = doc.getRoot();
+	const properties = new Set<Property>([root]);
+	for (const edge of doc.getGraph().listEdges()) {
+		properties.add(edge.getParent());
+		properties.add(edge.getChild());
+	}
+
+	const indices = new Map<Property, number>();
+	for (const property of properties) indices.set(property, indices.size);
+
+	const createRefSnapshot = (ref: Ref): RefSnapshot => ({
+		index: indices.get(ref.getChild())!,
+		attributes: JSON.parse(JSON.stringify(ref.getAttributes())),
+	});
+
+	const transfer: ArrayBuffer[] = [];
+	const propertySnapshots: PropertySnapshot[] = [];
+
+	for (const property of properties) {
+		// Read any deferred data. See PlatformIO.readBinaryLazy.
+		if (property instanceof Accessor) property.getArray();
+		if (property instanceof Texture) property.getImage();
+
+		const snapshot: PropertySnapshot = {
+			propertyType: property.propertyType,
+			literals: {},
+			refs: {},
+			refLists: {},
+			refMaps: {},
+		};
+
+		if (property instanceof ExtensionProperty) {
+			snapshot.extensionName = property.extensionName;
+		}
+
+		const attributes = property._getSnapshot();
+		for (const key in attributes) {
+			const value = attributes[key];
+			if (isRef(value)) {
+				snapshot.refs[key] = createRefSnapshot(value as Ref);
+			} else if (isRefList(value)) {
+				snapshot.refLists[key] = (value as Ref[]).map(createRefSnapshot);
+			} else if (isRefMap(value)) {
+				const refMap = (snapshot.refMaps[key] = {} as Record<string, RefSnapshot>);
+				for (const subkey in value as RefMap) {
+					refMap[subkey] = createRefSnapshot((value as RefMap)[subkey]);
+				}
+			} else if (ArrayBuffer.isView(value)) {
+				const array = (value as Uint8Array).slice();
+				transfer.push(array.buffer);
+				snapshot.literals[key] = array;
+			} else if (isPlainObject(value) || Array.isArray(value)) {
+				snapshot.literals[key] = JSON.parse(JSON.stringify(value));
+			} else if (value !== undefined) {
+				snapshot.literals[key] = value;
+			}
+		}
+
+		propertySnapshots.push(snapshot);
+	}
+
+	return {
+		extensions: root.listExtensionsUsed().map((extension) => ({
+			name: extension.extensionName,
+			required: extension.isRequired(),
+		})),
+		properties: propertySnapshots,
+		transfer,
+	};
+}
+
+/** @internal Deserializes a snapshot into an empty Document. See {@link Document.fromSnapshot}. */
+export function loadDocumentSnapshot(
+	doc: Document,
+	snapshot: DocumentSnapshot,
+	extensions: typeof Extension[]
+): Document {
+	// 1. Attach extensions.
+	const extensionMap: Record<string, Extension> = {};
+	for (const { name, required } of snapshot.extensions) {
+		const ExtensionClass = extensions.find((ctor) => ctor.EXTENSION_NAME === name);
+		if (!ExtensionClass) throw new Error(`Cannot load snapshot: Extension "${name}" not provided.`);
+		extensionMap[name] = doc
+			.createExtension(ExtensionClass as unknown as new (doc: Document) => Extension)
+			.setRequired(required);
+	}
+
+	// 2. Create properties. TextureInfo lifecycle is bound to a Material or ExtensionProperty.
+	const properties: (Property | null)[] = snapshot.properties.map((propertySnapshot, index) => {
+		const { propertyType, extensionName } = propertySnapshot;
+		if (index === 0) return doc.getRoot();
+		if (propertyType === PropertyType.TEXTURE_INFO) return null;
+		if (extensionName) {
+			const extension = extensionMap[extensionName] as unknown as Record<string, () => Property>;
+			const factory = extension[`create${propertyType}`];
+			if (typeof factory !== 'function') {
+				throw new Error(`Cannot load snapshot: Unknown property type "${propertyType}".`);
+			}
+			return factory.call(extension);
+		}
+		const PropertyClass = PROPERTY_CONSTRUCTORS[propertyType];
+		if (!PropertyClass) throw new Error(`Cannot load snapshot: Unknown property type "${propertyType}".`);
+		return new PropertyClass(doc.getGraph());
+	});
+
+	// 3. Resolve TextureInfo properties created by their parents.
+	snapshot.properties.forEach(({ refs }, index) => {
+		for (const key in refs) {
+			const { index: childIndex } = refs[key];
+			if (snapshot.properties[childIndex].propertyType !== PropertyType.TEXTURE_INFO) continue;
+			const ref = properties[index]!._getAttributeSnapshot(key) as Ref;
+			properties[childIndex] = ref.getChild();
+		}
+	});
+
+	// 4. Restore attributes and references.
+	snapshot.properties.forEach(({ literals, refs, refLists, refMaps }, index) => {
+		const property = properties[index]!;
+		const createRef = (key: string, ref: RefSnapshot): Ref => {
+			return new GraphEdge(key, property, properties[ref.index]!, ref.attributes);
+		};
+
+		for (const key in literals) {
+			property._restoreAttribute(key, literals[key]);
+		}
+		for (const key in refs) {
+			property._restoreAttribute(key, createRef(key, refs[key]));
+		}
+		for (const key in refLists) {
+			property._restoreAttribute(
+				key,
+				refLists[key].map((ref) => createRef(key, ref))
+			);
+		}
+		for (const key in refMaps) {
+			const refMap: RefMap = {};
+			for (const subkey in refMaps[key]) refMap[subkey] = createRef(key, refMaps[key][subkey]);
+			property._restoreAttribute(key, refMap);
+		}
+	});
+
+	return doc;
+}
@@ -1,5 +1,7 @@
 import { PropertyType } from './constants';
 import type { Extension } from './extension';
+import { Journal } from './journal';
+import { createDocumentSnapshot, DocumentSnapshot, loadDocumentSnapshot } from './document-snapshot';
 import { Graph } from 'property-graph';
 import {
 	Accessor,
@@ -198,6 +200,52 @@ export class Document {
 		return this;
 	}
 
+	/**********************************************************************************************
+	 * Snapshots.
+	 */
+
+	/**
+	 * Creates a lossless snapshot of this Document, containing all properties, extras, and
+	 * extension properties. Snapshots are plain objects, compatible with `postMessage`, for
+	 * transfer of a Document to or from a worker without writing and reading a glTF file.
+	 * Accessor and texture data are copied into the ArrayBuffers listed by `snapshot.transfer`.
+	 *
+	 * Usage:
+	 *
+	 * ```ts
+	 * // Main thread.
+	 * const snapshot = document.toSnapshot();
+	 * worker.postMessage(snapshot, snapshot.transfer);
+	 *
+	 * // Worker thread.
+	 * const document = Document.fromSnapshot(snapshot, ALL_EXTENSIONS);
+	 * ```
+	 */
+	toSnapshot(): DocumentSnapshot {
+		return createDocumentSnapshot(this);
+	}
+
+	/**
+	 * Creates a Document from a snapshot returned by {@link Document.toSnapshot}. Every extension
+	 * used by the snapshot must be provided. Extension properties are created with the `create*`
+	 * factory method of their {@link Extension}, named for the property type.
+	 */
+	static fromSnapshot(snapshot: DocumentSnapshot, extensions: typeof Extension[] = []): Document {
+		return loadDocumentSnapshot(new Document(), snapshot, extensions) as Document;
+	}
+
+	/**********************************************************************************************
+	 * History.
+	 */
+
+	/**
+	 * Creates a new {@link Journal}, recording subsequent changes to this Document with undo and
+	 * redo history. Recording continues until the Journal is disposed.
+	 */
+	createJournal(): Journal {
+		return new Journal(this);
+	}
+
 	/**********************************************************************************************
 	 * Extension factory method.
 	 */
@@ -1,6 +1,6 @@
 export { NodeIO } from './node-io';
 export { DenoIO } from './deno-io';
-export { PlatformIO } from './platform-io';
+export { ByteRangeReader, PlatformIO } from './platform-io';
 export { WebIO } from './web-io';
 export { ReaderOptions } from './reader';
 export { WriterOptions } from './writer';
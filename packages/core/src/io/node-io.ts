@@ -1,7 +1,7 @@
 import { Format } from '../constants';
 import type { Document } from '../document';
 import { FileUtils } from '../utils/';
-import { PlatformIO } from './platform-io';
+import { ByteRangeReader, PlatformIO } from './platform-io';
 import { HTTPUtils } from '../utils';
 
 /**
@@ -24,10 +24,12 @@ import { HTTPUtils } from '../utils';
  * let document;
  * document = await io.read('model.glb'); // → Document
  * document = await io.readBinary(glb);   // Uint8Array → Document
+ * document = await io.readLazy('model.glb'); // → Document, binary data read on demand
  *
  * // Write.
  * await io.write('model.glb', document);      // → void
  * const glb = await io.writeBinary(document); // Document → Uint8Array
+ * const stream = io.writeBinaryStream(document); // Document → AsyncIterable<Uint8Array>
  * ```
  *
  * By default, NodeIO can only read/write paths on disk. To enable HTTP requests, provide a Fetch
@@ -47,6 +49,7 @@ import { HTTPUtils } from '../utils';
  */
 export class NodeIO extends PlatformIO {
 	private readonly _fs;
+	private readonly _fsSync;
 	private readonly _path;
 	private readonly _fetch: typeof fetch | null;
 	private readonly _fetchConfig: RequestInit;
@@ -65,6 +68,7 @@ export class NodeIO extends PlatformIO {
 		super();
 		// Excluded from browser builds with 'package.browser' field.
 		this._fs = require('fs').promises;
+		this._fsSync = require('fs');
 		this._path = require('path');
 		this._fetch = _fetch as typeof fetch | null;
 		this._fetchConfig = _fetchConfig;
@@ -103,6 +107,22 @@ export class NodeIO extends PlatformIO {
 		}
 	}
 
+	protected readURIRange(uri: string): ByteRangeReader | null {
+		if (HTTPUtils.isAbsoluteURL(uri)) return null;
+
+		const fs = this._fsSync;
+		return (byteOffset: number, byteLength: number): Uint8Array => {
+			const view = new Uint8Array(byteLength);
+			const fd = fs.openSync(uri, 'r');
+			try {
+				fs.readSync(fd, view, 0, byteLength, byteOffset);
+			} finally {
+				fs.closeSync(fd);
+			}
+			return view;
+		};
+	}
+
 	protected resolve(base: string, path: string): string {
 		if (HTTPUtils.isAbsoluteURL(base) || HTTPUtils.isAbsoluteURL(path)) {
 			return HTTPUtils.resolve(base, path);
@@ -134,7 +154,7 @@ export class NodeIO extends PlatformIO {
 	/** @internal */
 	private async _writeGLTF(uri: string, doc: Document): Promise<void> {
 		this.lastWriteBytes = 0;
-		const { json, resources } = await this.writeJSON(doc, {
+		const { json, resources, bufferChunks } = await this.writeJSONChunks(doc, {
 			format: Format.GLTF,
 			basename: FileUtils.basename(uri),
 		});
@@ -154,13 +174,32 @@ export class NodeIO extends PlatformIO {
 			await fs.writeFile(path.join(dir, resourceURI), resource);
 			this.lastWriteBytes += resource.byteLength;
 		});
+		// Buffers are written in chunks, and are never concatenated in memory.
+		for (const resourceURI of Object.keys(bufferChunks)) {
+			if (HTTPUtils.isAbsoluteURL(resourceURI)) {
+				throw new Error(`Cannot write buffer to path "${resourceURI}".`);
+			}
+			pending.push(this._writeChunks(path.join(dir, resourceURI), bufferChunks[resourceURI]));
+		}
 		await Promise.all(pending);
 	}
 
 	/** @internal */
 	private async _writeGLB(uri: string, doc: Document): Promise<void> {
-		const buffer = Buffer.from(await this.writeBinary(doc));
-		await this._fs.writeFile(uri, buffer);
-		this.lastWriteBytes = buffer.byteLength;
+		this.lastWriteBytes = 0;
+		await this._writeChunks(uri, await this.writeBinaryChunks(doc));
+	}
+
+	/** @internal Writes chunks to a file handle in order, without concatenating them in memory. */
+	private async _writeChunks(uri: string, chunks: Uint8Array[]): Promise<void> {
+		const handle = await this._fs.open(uri, 'w');
+		try {
+			for (const chunk of chunks) {
+				await handle.write(chunk);
+				this.lastWriteBytes += chunk.byteLength;
+			}
+		} finally {
+			await handle.close();
+		}
 	}
 }
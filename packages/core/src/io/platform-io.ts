@@ -5,7 +5,7 @@ import type { JSONDocument } from '../json-document';
 import type { GLTF } from '../types/gltf';
 import { BufferUtils, FileUtils, HTTPUtils, Logger, uuid } from '../utils/';
 import { GLTFReader } from './reader';
-import { GLTFWriter, WriterOptions } from './writer';
+import { ChunkedJSONDocument, GLTFWriter, WriterOptions } from './writer';
 
 enum ChunkType {
 	JSON = 0x4e4f534a,
@@ -14,6 +14,25 @@ enum ChunkType {
 
 type PublicWriterOptions = Partial<Pick<WriterOptions, 'format' | 'basename'>>;
 
+interface ParsedGLB {
+	json: GLTF.IGLTF;
+	byteLength: number;
+	binByteOffset: number;
+	binByteLength: number;
+}
+
+interface LazyJSONDocument {
+	jsonDoc: JSONDocument;
+	binary: ByteRangeReader | null;
+	byteLength: number;
+}
+
+/**
+ * Synchronous callback returning the given byte range of a binary source, used to read GLB files
+ * without loading the entire file into memory. See {@link PlatformIO.readBinaryLazy}.
+ */
+export type ByteRangeReader = (byteOffset: number, byteLength: number) => Uint8Array;
+
 /**
  * # PlatformIO
  *
@@ -33,6 +52,9 @@ export abstract class PlatformIO {
 	private _dependencies: { [key: string]: unknown } = {};
 	private _vertexLayout = VertexLayout.INTERLEAVED;
 
+	/** Binary chunks deferred by {@link readAsJSONLazy}, read by {@link readJSONLazy}. */
+	private _lazyBinaries = new WeakMap<JSONDocument, ByteRangeReader>();
+
 	/** @hidden */
 	public lastReadBytes = 0;
 
@@ -80,6 +102,14 @@ export abstract class PlatformIO {
 	protected abstract resolve(base: string, path: string): string;
 	protected abstract dirname(uri: string): string;
 
+	/**
+	 * Returns a {@link ByteRangeReader} for the given URI, or null if the platform cannot read
+	 * byte ranges from it synchronously.
+	 */
+	protected readURIRange(_uri: string): ByteRangeReader | null {
+		return null;
+	}
+
 	/**********************************************************************************************
 	 * Public Read API.
 	 */
@@ -89,12 +119,40 @@ export abstract class PlatformIO {
 		return await this.readJSON(await this.readAsJSON(uri));
 	}
 
+	/**
+	 * Reads a {@link Document} from the given URI, deferring binary data until it is needed. See
+	 * {@link readBinaryLazy}. If the platform cannot read byte ranges from the URI, or the URI
+	 * is not a GLB file, the Document is read with {@link read} instead.
+	 */
+	public async readLazy(uri: string): Promise<Document> {
+		return this.readJSONLazy(await this.readAsJSONLazy(uri));
+	}
+
 	/** Loads a URI and returns a {@link JSONDocument} struct, without parsing. */
 	public async readAsJSON(uri: string): Promise<JSONDocument> {
 		const isGLB = uri.match(/^data:application\/octet-stream;/) || this.detectFormat(uri) === Format.GLB;
 		return isGLB ? this._readGLB(uri) : this._readGLTF(uri);
 	}
 
+	/**
+	 * Loads a URI and returns a {@link JSONDocument} struct, without parsing, reading only the
+	 * header and JSON chunk of GLB files. The BIN chunk is read on first access of its resource,
+	 * or on demand after parsing with {@link readJSONLazy}. If the platform cannot read byte
+	 * ranges from the URI, or the URI is not a GLB file, {@link readAsJSON} is used instead.
+	 */
+	public async readAsJSONLazy(uri: string): Promise<JSONDocument> {
+		const read = this.detectFormat(uri) === Format.GLB ? this.readURIRange(uri) : null;
+		if (!read) return this.readAsJSON(uri);
+
+		const { jsonDoc, binary, byteLength } = this._binaryToJSONLazy(read);
+		this.lastReadBytes = byteLength;
+		// Read external resources first, before Data URIs are replaced.
+		await this._readResourcesExternal(jsonDoc, this.dirname(uri));
+		this._readResourcesInternal(jsonDoc);
+		if (binary) this._lazyBinaries.set(jsonDoc, binary);
+		return jsonDoc;
+	}
+
 	/** Converts glTF-formatted JSON and a resource map to a {@link Document}. */
 	public async readJSON(jsonDoc: JSONDocument): Promise<Document> {
 		jsonDoc = this._copyJSON(jsonDoc);
@@ -106,19 +164,21 @@ export abstract class PlatformIO {
 		});
 	}
 
+	/**
+	 * Converts a {@link JSONDocument} returned by {@link readAsJSONLazy} to a {@link Document},
+	 * deferring binary data until it is needed. See {@link readBinaryLazy}. Other JSONDocuments
+	 * are read with {@link readJSON}.
+	 */
+	public async readJSONLazy(jsonDoc: JSONDocument): Promise<Document> {
+		const binary = this._lazyBinaries.get(jsonDoc);
+		return binary ? this._readJSONLazy(jsonDoc, binary) : this.readJSON(jsonDoc);
+	}
+
 	/** Converts a GLB-formatted Uint8Array to a {@link JSONDocument}. */
 	public async binaryToJSON(glb: Uint8Array): Promise<JSONDocument> {
 		const jsonDoc = this._binaryToJSON(BufferUtils.assertView(glb));
 		this._readResourcesInternal(jsonDoc);
-		const json = jsonDoc.json;
-
-		// Check for external references, which can't be resolved by this method.
-		if (json.buffers && json.buffers.some((bufferDef) => isExternalBuffer(jsonDoc, bufferDef))) {
-			throw new Error('Cannot resolve external buffers with binaryToJSON().');
-		} else if (json.images && json.images.some((imageDef) => isExternalImage(jsonDoc, imageDef))) {
-			throw new Error('Cannot resolve external images with binaryToJSON().');
-		}
-
+		assertInternalResources(jsonDoc, 'binaryToJSON');
 		return jsonDoc;
 	}
 
@@ -127,12 +187,93 @@ export abstract class PlatformIO {
 		return this.readJSON(await this.binaryToJSON(BufferUtils.assertView(glb)));
 	}
 
+	/**
+	 * Converts a GLB-formatted binary source to a {@link Document}, reading only the GLB header
+	 * and JSON chunk immediately. Data for each {@link Accessor} and {@link Texture} is read from
+	 * the binary chunk, using the given callback, when first accessed. Metadata — including
+	 * accessor counts and (where present in the file) accessor min/max bounds — is available
+	 * without reading the data, so that large files can be inspected, or their metadata edited,
+	 * without loading all binary data into memory.
+	 *
+	 * The callback must remain valid for the lifetime of the Document. Extensions that decode
+	 * data while reading, like mesh compression, read the entire binary chunk.
+	 *
+	 * Example:
+	 *
+	 * ```typescript
+	 * const fd = fs.openSync('scan.glb', 'r');
+	 * const document = await io.readBinaryLazy((byteOffset, byteLength) => {
+	 * 	const view = new Uint8Array(byteLength);
+	 * 	fs.readSync(fd, view, 0, byteLength, byteOffset);
+	 * 	return view;
+	 * });
+	 * ```
+	 */
+	public async readBinaryLazy(read: ByteRangeReader): Promise<Document> {
+		const { jsonDoc, binary } = this._binaryToJSONLazy(read);
+		this._readResourcesInternal(jsonDoc);
+		assertInternalResources(jsonDoc, 'readBinaryLazy');
+		return this._readJSONLazy(jsonDoc, binary);
+	}
+
 	/**********************************************************************************************
 	 * Public Write API.
 	 */
 
 	/** Converts a {@link Document} to glTF-formatted JSON and a resource map. */
 	public async writeJSON(doc: Document, _options: PublicWriterOptions = {}): Promise<JSONDocument> {
+		const { json, resources, bufferChunks } = await this.writeJSONChunks(doc, _options);
+		for (const uri in bufferChunks) {
+			resources[uri] = BufferUtils.concat(bufferChunks[uri]);
+		}
+		return { json, resources };
+	}
+
+	/** Converts a {@link Document} to a GLB-formatted Uint8Array. */
+	public async writeBinary(doc: Document): Promise<Uint8Array> {
+		return BufferUtils.concat(await this.writeBinaryChunks(doc));
+	}
+
+	/**
+	 * Converts a {@link Document} to a GLB-formatted binary stream, yielding the GLB as a series of
+	 * chunks. Unlike {@link writeBinary}, the GLB is never concatenated into a single array, and
+	 * so may exceed the maximum size of an ArrayBuffer (about 2GB, in some environments).
+	 *
+	 * Example:
+	 *
+	 * ```typescript
+	 * for await (const chunk of io.writeBinaryStream(document)) {
+	 * 	stream.write(chunk);
+	 * }
+	 * ```
+	 */
+	public writeBinaryStream(doc: Document): AsyncIterable<Uint8Array> {
+		let pending: Promise<Uint8Array[]> | null = null;
+		return {
+			[Symbol.asyncIterator]: () => {
+				let index = 0;
+				return {
+					next: async (): Promise<IteratorResult<Uint8Array>> => {
+						const chunks = await (pending = pending || this.writeBinaryChunks(doc));
+						return index < chunks.length
+							? { value: chunks[index++], done: false }
+							: { value: undefined, done: true };
+					},
+				};
+			},
+		};
+	}
+
+	/**********************************************************************************************
+	 * Internal.
+	 */
+
+	/**
+	 * Converts a {@link Document} to glTF-formatted JSON and a resource map, with the data for each
+	 * buffer given as a list of chunks.
+	 * @hidden
+	 */
+	protected async writeJSONChunks(doc: Document, _options: PublicWriterOptions = {}): Promise<ChunkedJSONDocument> {
 		if (_options.format === Format.GLB && doc.getRoot().listBuffers().length > 1) {
 			throw new Error('GLB must have 0–1 buffers.');
 		}
@@ -146,35 +287,6 @@ export abstract class PlatformIO {
 		} as Required<WriterOptions>);
 	}
 
-	/** Converts a {@link Document} to a GLB-formatted Uint8Array. */
-	public async writeBinary(doc: Document): Promise<Uint8Array> {
-		const { json, resources } = await this.writeJSON(doc, { format: Format.GLB });
-
-		const header = new Uint32Array([0x46546c67, 2, 12]);
-
-		const jsonText = JSON.stringify(json);
-		const jsonChunkData = BufferUtils.pad(BufferUtils.encodeText(jsonText), 0x20);
-		const jsonChunkHeader = BufferUtils.toView(new Uint32Array([jsonChunkData.byteLength, 0x4e4f534a]));
-		const jsonChunk = BufferUtils.concat([jsonChunkHeader, jsonChunkData]);
-		header[header.length - 1] += jsonChunk.byteLength;
-
-		const binBuffer = Object.values(resources)[0];
-		if (!binBuffer || !binBuffer.byteLength) {
-			return BufferUtils.concat([BufferUtils.toView(header), jsonChunk]);
-		}
-
-		const binChunkData = BufferUtils.pad(binBuffer, 0x00);
-		const binChunkHeader = BufferUtils.toView(new Uint32Array([binChunkData.byteLength, 0x004e4942]));
-		const binChunk = BufferUtils.concat([binChunkHeader, binChunkData]);
-		header[header.length - 1] += binChunk.byteLength;
-
-		return BufferUtils.concat([BufferUtils.toView(header), jsonChunk, binChunk]);
-	}
-
-	/**********************************************************************************************
-	 * Internal.
-	 */
-
 	/** @hidden */
 	protected detectFormat(uri: string): Format {
 		// Overriden by WebIO, which only uses HTTPUtils.
@@ -275,44 +387,141 @@ export abstract class PlatformIO {
 		return jsonDoc;
 	}
 
-	/** Internal version of binaryToJSON; does not warn about external resources. */
-	private _binaryToJSON(glb: Uint8Array): JSONDocument {
-		// Decode and verify GLB header.
-		const header = new Uint32Array(glb.buffer, glb.byteOffset, 3);
-		if (header[0] !== 0x46546c67) {
-			throw new Error('Invalid glTF asset.');
-		} else if (header[1] !== 2) {
-			throw new Error(`Unsupported glTF binary version, "${header[1]}".`);
-		}
+	/**
+	 * Converts a {@link Document} to a GLB-formatted binary, returning the header and chunks of the
+	 * GLB in order.
+	 * @hidden
+	 */
+	protected async writeBinaryChunks(doc: Document): Promise<Uint8Array[]> {
+		const { json, bufferChunks } = await this.writeJSONChunks(doc, { format: Format.GLB });
+
+		const header = new Uint32Array([0x46546c67, 2, 12]);
 
-		// Decode JSON chunk.
+		const jsonText = JSON.stringify(json);
+		const jsonChunkData = BufferUtils.pad(BufferUtils.encodeText(jsonText), 0x20);
+		const jsonChunkHeader = BufferUtils.toView(new Uint32Array([jsonChunkData.byteLength, 0x4e4f534a]));
+		header[header.length - 1] += jsonChunkHeader.byteLength + jsonChunkData.byteLength;
 
-		const jsonChunkHeader = new Uint32Array(glb.buffer, glb.byteOffset + 12, 2);
-		if (jsonChunkHeader[1] !== ChunkType.JSON) {
-			throw new Error('Missing required GLB JSON chunk.');
+		const binChunks = bufferChunks[GLB_BUFFER] || [];
+		const binByteLength = binChunks.reduce((byteLength, chunk) => byteLength + chunk.byteLength, 0);
+		if (!binByteLength) {
+			return [BufferUtils.toView(header), jsonChunkHeader, jsonChunkData];
 		}
 
-		const jsonByteOffset = 20;
-		const jsonByteLength = jsonChunkHeader[0];
-		const jsonText = BufferUtils.decodeText(BufferUtils.toView(glb, jsonByteOffset, jsonByteLength));
-		const json = JSON.parse(jsonText) as GLTF.IGLTF;
+		const binChunkByteLength = BufferUtils.padNumber(binByteLength);
+		const binChunkHeader = BufferUtils.toView(new Uint32Array([binChunkByteLength, 0x004e4942]));
+		header[header.length - 1] += binChunkHeader.byteLength + binChunkByteLength;
+
+		const chunks = [BufferUtils.toView(header), jsonChunkHeader, jsonChunkData, binChunkHeader, ...binChunks];
+		if (binChunkByteLength > binByteLength) {
+			chunks.push(new Uint8Array(binChunkByteLength - binByteLength));
+		}
+		return chunks;
+	}
 
-		// Decode BIN chunk.
+	/** Internal version of binaryToJSON; does not warn about external resources. */
+	private _binaryToJSON(glb: Uint8Array): JSONDocument {
+		const read = (byteOffset: number, byteLength: number) => BufferUtils.toView(glb, byteOffset, byteLength);
+		const { json, binByteOffset, binByteLength } = parseGLB(read, glb.byteLength);
 
-		const binByteOffset = jsonByteOffset + jsonByteLength;
-		if (glb.byteLength <= binByteOffset) {
+		if (binByteOffset === -1) {
 			return { json, resources: {} };
 		}
 
-		const binChunkHeader = new Uint32Array(glb.buffer, glb.byteOffset + binByteOffset, 2);
-		if (binChunkHeader[1] !== ChunkType.BIN) {
-			throw new Error('Expected GLB BIN in second chunk.');
+		const binBuffer = BufferUtils.toView(glb, binByteOffset, binByteLength);
+		return { json, resources: { [GLB_BUFFER]: binBuffer } };
+	}
+
+	/**
+	 * Lazy version of binaryToJSON. Returns a reader for the BIN chunk, if any. The BIN chunk is
+	 * also available as a resource, read on first access, for extensions that require it.
+	 */
+	private _binaryToJSONLazy(read: ByteRangeReader): LazyJSONDocument {
+		const { json, byteLength, binByteOffset, binByteLength } = parseGLB(read);
+		const jsonDoc: JSONDocument = { json, resources: {} };
+
+		if (binByteOffset === -1) {
+			return { jsonDoc, binary: null, byteLength };
 		}
 
-		const binByteLength = binChunkHeader[0];
-		const binBuffer = BufferUtils.toView(glb, binByteOffset + 8, binByteLength);
+		let binBuffer: Uint8Array | null = null;
+		Object.defineProperty(jsonDoc.resources, GLB_BUFFER, {
+			get: () => (binBuffer = binBuffer || read(binByteOffset, binByteLength)),
+			enumerable: true,
+		});
 
-		return { json, resources: { [GLB_BUFFER]: binBuffer } };
+		const binary = (byteOffset: number, byteLength: number) => read(binByteOffset + byteOffset, byteLength);
+		return { jsonDoc, binary, byteLength };
+	}
+
+	private _readJSONLazy(jsonDoc: JSONDocument, binary: ByteRangeReader | null): Document {
+		return GLTFReader.read(jsonDoc, {
+			extensions: Array.from(this._extensions),
+			dependencies: this._dependencies,
+			logger: this._logger,
+			binary,
+		});
+	}
+}
+
+/**
+ * Parses GLB header and JSON chunk from the given source, returning the JSON and the byte range
+ * of the BIN chunk's data. If no BIN chunk is present, binByteOffset is -1. If the byte length
+ * of the source is not given, the length in the GLB header is used.
+ */
+function parseGLB(read: ByteRangeReader, byteLength?: number): ParsedGLB {
+	// Decode and verify GLB header.
+	const header = readUint32(read(0, 12), 3);
+	if (header[0] !== 0x46546c67) {
+		throw new Error('Invalid glTF asset.');
+	} else if (header[1] !== 2) {
+		throw new Error(`Unsupported glTF binary version, "${header[1]}".`);
+	}
+
+	if (byteLength === undefined) byteLength = header[2];
+
+	// Decode JSON chunk.
+
+	const jsonChunkHeader = readUint32(read(12, 8), 2);
+	if (jsonChunkHeader[1] !== ChunkType.JSON) {
+		throw new Error('Missing required GLB JSON chunk.');
+	}
+
+	const jsonByteOffset = 20;
+	const jsonByteLength = jsonChunkHeader[0];
+	const jsonText = BufferUtils.decodeText(read(jsonByteOffset, jsonByteLength));
+	const json = JSON.parse(jsonText) as GLTF.IGLTF;
+
+	// Decode BIN chunk.
+
+	const binByteOffset = jsonByteOffset + jsonByteLength;
+	if (byteLength <= binByteOffset) {
+		return { json, byteLength, binByteOffset: -1, binByteLength: 0 };
+	}
+
+	const binChunkHeader = readUint32(read(binByteOffset, 8), 2);
+	if (binChunkHeader[1] !== ChunkType.BIN) {
+		throw new Error('Expected GLB BIN in second chunk.');
+	}
+
+	return { json, byteLength, binByteOffset: binByteOffset + 8, binByteLength: binChunkHeader[0] };
+}
+
+/** Reads little-endian uint32 values from a view, which need not be 4-byte aligned. */
+function readUint32(view: Uint8Array, count: number): number[] {
+	const dataView = new DataView(view.buffer, view.byteOffset, view.byteLength);
+	const values = [];
+	for (let i = 0; i < count; i++) values.push(dataView.getUint32(i * 4, true));
+	return values;
+}
+
+/** Throws if the JSONDocument references resources that can't be resolved by the given method. */
+function assertInternalResources(jsonDoc: JSONDocument, method: string): void {
+	const json = jsonDoc.json;
+	if (json.buffers && json.buffers.some((bufferDef) => isExternalBuffer(jsonDoc, bufferDef))) {
+		throw new Error(`Cannot resolve external buffers with ${method}().`);
+	} else if (json.images && json.images.some((imageDef) => isExternalImage(jsonDoc, imageDef))) {
+		throw new Error(`Cannot resolve external images with ${method}().`);
 	}
 }
 
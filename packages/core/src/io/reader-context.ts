@@ -7,6 +7,7 @@ import type {
 	Material,
 	Mesh,
 	Node,
+	Property,
 	Scene,
 	Skin,
 	Texture,
@@ -35,6 +36,8 @@ export class ReaderContext {
 	public skins: Skin[] = [];
 	public animations: Animation[] = [];
 	public scenes: Scene[] = [];
+	/** Properties that may be targeted by animation pointers, by JSON pointer. */
+	public pointers: Map<string, Property> = new Map();
 
 	constructor(public readonly jsonDoc: JSONDocument) {}
 
@@ -1,10 +1,11 @@
-import { GLB_BUFFER, PropertyType, TypedArray, mat4, vec3, vec4 } from '../constants';
+import { GLB_BUFFER, KHR_ANIMATION_POINTER, PropertyType, TypedArray, mat4, vec3, vec4 } from '../constants';
 import { Document } from '../document';
 import type { Extension } from '../extension';
 import type { JSONDocument } from '../json-document';
-import { Accessor, AnimationSampler, Camera } from '../properties';
+import { Accessor, AnimationChannel, AnimationSampler, Camera } from '../properties';
 import type { GLTF } from '../types/gltf';
 import { BufferUtils, FileUtils, ImageUtils, Logger, MathUtils } from '../utils';
+import type { ByteRangeReader } from './platform-io';
 import { ReaderContext } from './reader-context';
 
 const ComponentTypeToTypedArray = {
@@ -20,12 +21,18 @@ export interface ReaderOptions {
 	logger?: Logger;
 	extensions: typeof Extension[];
 	dependencies: { [key: string]: unknown };
+	/**
+	 * Reader for the GLB BIN chunk, if data in the BIN chunk should be read on demand rather
+	 * than from the resources of the {@link JSONDocument}.
+	 */
+	binary?: ByteRangeReader | null;
 }
 
 const DEFAULT_OPTIONS: ReaderOptions = {
 	logger: Logger.DEFAULT_INSTANCE,
 	extensions: [],
 	dependencies: {},
+	binary: null,
 };
 
 /** @internal */
@@ -90,12 +97,22 @@ export class GLTFReader {
 
 		/** Buffer views. */
 
+		// Buffer views in the BIN chunk of a lazily-read GLB are read on each access, and their
+		// accessors and images read only the necessary byte ranges.
 		const bufferViewDefs = json.bufferViews || [];
+		const lazyBufferViews = new Set<number>();
 		context.bufferViewBuffers = bufferViewDefs.map((bufferViewDef, index) => {
-			if (!context.bufferViews[index]) {
-				const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
+			const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
+			const byteOffset = bufferViewDef.byteOffset || 0;
+			if (!context.bufferViews[index] && !bufferDef.uri && options.binary) {
+				const binary = options.binary;
+				Object.defineProperty(context.bufferViews, index, {
+					get: () => binary(byteOffset, bufferViewDef.byteLength),
+					enumerable: true,
+				});
+				lazyBufferViews.add(index);
+			} else if (!context.bufferViews[index]) {
 				const resource = bufferDef.uri ? jsonDoc.resources[bufferDef.uri] : jsonDoc.resources[GLB_BUFFER];
-				const byteOffset = bufferViewDef.byteOffset || 0;
 				context.bufferViews[index] = BufferUtils.toView(resource, byteOffset, bufferViewDef.byteLength);
 			}
 
@@ -119,10 +136,25 @@ export class GLTFReader {
 			// KHR_draco_mesh_compression and EXT_meshopt_compression.
 			if (accessorDef.bufferView === undefined && !accessorDef.sparse) return accessor;
 
+			if (options.binary && (accessorDef.sparse !== undefined || lazyBufferViews.has(accessorDef.bufferView!))) {
+				accessor._setLazyArray(accessorDef.componentType, {
+					count: accessorDef.count,
+					min: accessorDef.min,
+					max: accessorDef.max,
+					read: () => {
+						if (accessorDef.sparse !== undefined) return getSparseArray(accessorDef, context);
+						return getLazyAccessorArray(accessorDef, context, options.binary!);
+					},
+				});
+				if (accessorDef.sparse !== undefined) accessor.setSparse(true);
+				return accessor;
+			}
+
 			let array: TypedArray;
 
 			if (accessorDef.sparse !== undefined) {
 				array = getSparseArray(accessorDef, context);
+				accessor.setSparse(true);
 			} else {
 				array = getAccessorArray(accessorDef, context);
 			}
@@ -131,6 +163,22 @@ export class GLTFReader {
 			return accessor;
 		});
 
+		// Sparse accessors sharing the buffer view of a dense accessor are stored against it.
+		accessorDefs.forEach((accessorDef, index) => {
+			if (accessorDef.sparse === undefined || accessorDef.bufferView === undefined) return;
+			const baseIndex = accessorDefs.findIndex(
+				(baseDef) =>
+					baseDef.sparse === undefined &&
+					baseDef.bufferView === accessorDef.bufferView &&
+					(baseDef.byteOffset || 0) === (accessorDef.byteOffset || 0) &&
+					baseDef.componentType === accessorDef.componentType &&
+					baseDef.type === accessorDef.type &&
+					baseDef.count === accessorDef.count &&
+					!!baseDef.normalized === !!accessorDef.normalized
+			);
+			if (baseIndex >= 0) context.accessors[index].setSparseBase(context.accessors[baseIndex]);
+		});
+
 		/** Textures. */
 
 		// glTF-Transform's "Texture" properties correspond 1:1 with glTF "Image" properties, and
@@ -148,7 +196,15 @@ export class GLTFReader {
 			// glTF Image corresponds 1:1 with glTF-Transform Texture. See `writer.ts`.
 			if (imageDef.extras) texture.setExtras(imageDef.extras);
 
-			if (imageDef.bufferView !== undefined) {
+			if (imageDef.bufferView !== undefined && lazyBufferViews.has(imageDef.bufferView)) {
+				const bufferViewDef = json.bufferViews![imageDef.bufferView];
+				const byteOffset = bufferViewDef.byteOffset || 0;
+				texture._setLazyImage({
+					byteLength: bufferViewDef.byteLength,
+					read: (offset = 0, byteLength = bufferViewDef.byteLength) =>
+						options.binary!(byteOffset + offset, byteLength),
+				});
+			} else if (imageDef.bufferView !== undefined) {
 				const bufferViewDef = json.bufferViews![imageDef.bufferView];
 				const bufferDef = jsonDoc.json.buffers![bufferViewDef.buffer];
 				const bufferData = bufferDef.uri ? jsonDoc.resources[bufferDef.uri] : jsonDoc.resources[GLB_BUFFER];
@@ -430,6 +486,15 @@ export class GLTFReader {
 
 		/** Animations. */
 
+		// Core properties that may be targeted by KHR_animation_pointer. Extensions may register
+		// their own properties, so pointers are resolved after extensions are read.
+		context.nodes.forEach((node, index) => context.pointers.set(`/nodes/${index}`, node));
+		context.meshes.forEach((mesh, index) => context.pointers.set(`/meshes/${index}`, mesh));
+		context.materials.forEach((material, index) => context.pointers.set(`/materials/${index}`, material));
+		context.cameras.forEach((camera, index) => context.pointers.set(`/cameras/${index}`, camera));
+
+		const pointerChannels = new Map<AnimationChannel, string>();
+
 		const animationDefs = json.animations || [];
 		context.animations = animationDefs.map((animationDef) => {
 			const animation = doc.createAnimation(animationDef.name);
@@ -460,6 +525,12 @@ export class GLTFReader {
 				if (channelDef.target.node !== undefined) channel.setTargetNode(context.nodes[channelDef.target.node]);
 				if (channelDef.extras) channel.setExtras(channelDef.extras);
 
+				if (channelDef.target.path === AnimationChannel.TargetPath.POINTER) {
+					const targetExtensions = channelDef.target.extensions || {};
+					const pointerDef = (targetExtensions[KHR_ANIMATION_POINTER] || {}) as { pointer?: string };
+					pointerChannels.set(channel, pointerDef.pointer || '');
+				}
+
 				animation.addChannel(channel);
 			});
 
@@ -497,9 +568,35 @@ export class GLTFReader {
 			.listExtensionsUsed()
 			.forEach((extension) => extension.read(context));
 
+		/** Animation pointers. */
+
+		for (const [channel, pointer] of Array.from(pointerChannels.entries())) {
+			if (!GLTFReader.resolvePointer(channel, pointer, context)) {
+				options.logger.warn(`Unable to resolve animation pointer, "${pointer}". Channel removed.`);
+				channel.dispose();
+			}
+		}
+
 		return doc;
 	}
 
+	/**
+	 * Resolves a JSON pointer to the most specific {@link Property} registered for a prefix of the
+	 * pointer, assigning the Property and the remaining (relative) pointer to the channel.
+	 */
+	private static resolvePointer(channel: AnimationChannel, pointer: string, context: ReaderContext): boolean {
+		const segments = pointer.split('/');
+		for (let i = segments.length; i > 1; i--) {
+			const prefix = segments.slice(0, i).join('/');
+			const property = context.pointers.get(prefix);
+			if (property) {
+				channel.setTargetProperty(property).setTargetPointer(pointer.slice(prefix.length));
+				return true;
+			}
+		}
+		return false;
+	}
+
 	private static validate(jsonDoc: JSONDocument, options: Required<ReaderOptions>): void {
 		const json = jsonDoc.json;
 
@@ -509,6 +606,7 @@ export class GLTFReader {
 
 		if (json.extensionsRequired) {
 			for (const extensionName of json.extensionsRequired) {
+				if (extensionName === KHR_ANIMATION_POINTER) continue;
 				if (!options.extensions.find((extension) => extension.EXTENSION_NAME === extensionName)) {
 					throw new Error(`Missing required extension, "${extensionName}".`);
 				}
@@ -517,6 +615,7 @@ export class GLTFReader {
 
 		if (json.extensionsUsed) {
 			for (const extensionName of json.extensionsUsed) {
+				if (extensionName === KHR_ANIMATION_POINTER) continue;
 				if (!options.extensions.find((extension) => extension.EXTENSION_NAME === extensionName)) {
 					options.logger.warn(`Missing optional extension, "${extensionName}".`);
 				}
@@ -529,9 +628,12 @@ export class GLTFReader {
  * Returns the contents of an interleaved accessor, as a typed array.
  * @internal
  */
-function getInterleavedArray(accessorDef: GLTF.IAccessor, context: ReaderContext): TypedArray {
+function getInterleavedArray(
+	accessorDef: GLTF.IAccessor,
+	context: ReaderContext,
+	bufferView = context.bufferViews[accessorDef.bufferView!]
+): TypedArray {
 	const jsonDoc = context.jsonDoc;
-	const bufferView = context.bufferViews[accessorDef.bufferView!];
 	const bufferViewDef = jsonDoc.json.bufferViews![accessorDef.bufferView!];
 
 	const TypedArray = ComponentTypeToTypedArray[accessorDef.componentType];
@@ -580,9 +682,12 @@ function getInterleavedArray(accessorDef: GLTF.IAccessor, context: ReaderContext
  * Returns the contents of an accessor, as a typed array.
  * @internal
  */
-function getAccessorArray(accessorDef: GLTF.IAccessor, context: ReaderContext): TypedArray {
+function getAccessorArray(
+	accessorDef: GLTF.IAccessor,
+	context: ReaderContext,
+	bufferView = context.bufferViews[accessorDef.bufferView!]
+): TypedArray {
 	const jsonDoc = context.jsonDoc;
-	const bufferView = context.bufferViews[accessorDef.bufferView!];
 	const bufferViewDef = jsonDoc.json.bufferViews![accessorDef.bufferView!];
 
 	const TypedArray = ComponentTypeToTypedArray[accessorDef.componentType];
@@ -592,7 +697,7 @@ function getAccessorArray(accessorDef: GLTF.IAccessor, context: ReaderContext):
 
 	// Interleaved buffer view.
 	if (bufferViewDef.byteStride !== undefined && bufferViewDef.byteStride !== elementStride) {
-		return getInterleavedArray(accessorDef, context);
+		return getInterleavedArray(accessorDef, context, bufferView);
 	}
 
 	const byteOffset = bufferView.byteOffset + (accessorDef.byteOffset || 0);
@@ -603,6 +708,28 @@ function getAccessorArray(accessorDef: GLTF.IAccessor, context: ReaderContext):
 	return new TypedArray(bufferView.buffer.slice(byteOffset, byteOffset + byteLength));
 }
 
+/**
+ * Returns the contents of an accessor in a lazily-read GLB, as a typed array, reading only the
+ * byte range of the buffer view containing the accessor's elements.
+ * @internal
+ */
+function getLazyAccessorArray(
+	accessorDef: GLTF.IAccessor,
+	context: ReaderContext,
+	binary: ByteRangeReader
+): TypedArray {
+	const bufferViewDef = context.jsonDoc.json.bufferViews![accessorDef.bufferView!];
+	const elementSize = Accessor.getElementSize(accessorDef.type);
+	const elementStride = elementSize * ComponentTypeToTypedArray[accessorDef.componentType].BYTES_PER_ELEMENT;
+	const byteStride = bufferViewDef.byteStride || elementStride;
+
+	const byteOffset = (bufferViewDef.byteOffset || 0) + (accessorDef.byteOffset || 0);
+	const byteLength = accessorDef.count > 0 ? (accessorDef.count - 1) * byteStride + elementStride : 0;
+	const bufferView = binary(byteOffset, byteLength);
+
+	return getAccessorArray({ ...accessorDef, byteOffset: 0 }, context, bufferView);
+}
+
 /**
  * Returns the contents of a sparse accessor, as a typed array.
  * @internal
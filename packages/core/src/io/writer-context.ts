@@ -60,6 +60,8 @@ export class WriterContext {
 	public readonly textureInfoDefMap = new Map<TextureInfo, GLTF.ITextureInfo>();
 	public readonly samplerDefIndexMap = new Map<string, number>(); // samplerDef JSON -> index
 	public readonly sceneIndexMap = new Map<Scene, number>();
+	/** JSON pointers of properties that may be targeted by animation pointers. */
+	public readonly pointerMap = new Map<Property, string>();
 
 	public readonly imageBufferViews: Uint8Array[] = [];
 	public readonly otherBufferViews = new Map<Buffer, Uint8Array[]>();
@@ -193,6 +195,9 @@ export class WriterContext {
 		if (cachedUsage) return cachedUsage;
 
 		for (const edge of this._doc.getGraph().listParentEdges(accessor)) {
+			// References from sparse accessors to their bases do not affect usage.
+			if (edge.getParent().propertyType === PropertyType.ACCESSOR) continue;
+
 			const { usage } = edge.getAttributes() as { usage: BufferViewUsage | undefined };
 
 			if (usage) return usage;
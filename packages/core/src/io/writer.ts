@@ -1,9 +1,9 @@
-import { Format, GLB_BUFFER, PropertyType, VERSION, VertexLayout } from '../constants';
+import { Format, GLB_BUFFER, KHR_ANIMATION_POINTER, PropertyType, VERSION, VertexLayout } from '../constants';
 import type { Document } from '../document';
 import type { Extension } from '../extension';
 import type { GraphEdge } from 'property-graph';
 import type { JSONDocument } from '../json-document';
-import { Accessor, AnimationSampler, Camera, Material, Property } from '../properties';
+import { Accessor, AnimationChannel, AnimationSampler, Camera, Material, Property } from '../properties';
 import type { GLTF } from '../types/gltf';
 import { BufferUtils, Logger, MathUtils } from '../utils';
 import { WriterContext } from './writer-context';
@@ -19,15 +19,24 @@ export interface WriterOptions {
 	extensions?: typeof Extension[];
 }
 
+/**
+ * {@link JSONDocument} in which the data for each buffer is a list of chunks, in order, rather than
+ * a single array. Concatenating chunks is left to the caller, and may be avoided when streaming.
+ * @hidden
+ */
+export interface ChunkedJSONDocument extends JSONDocument {
+	bufferChunks: { [s: string]: Uint8Array[] };
+}
+
 /** @internal */
 export class GLTFWriter {
-	public static write(doc: Document, options: Required<WriterOptions>): JSONDocument {
+	public static write(doc: Document, options: Required<WriterOptions>): ChunkedJSONDocument {
 		const root = doc.getRoot();
 		const json = {
 			asset: { generator: `glTF-Transform ${VERSION}`, ...root.getAsset() },
 			extras: { ...root.getExtras() },
 		} as GLTF.IGLTF;
-		const jsonDoc = { json, resources: {} } as JSONDocument;
+		const jsonDoc = { json, resources: {}, bufferChunks: {} } as ChunkedJSONDocument;
 
 		const context = new WriterContext(doc, jsonDoc, options);
 		const logger = options.logger || Logger.DEFAULT_INSTANCE;
@@ -98,11 +107,10 @@ export class GLTFWriter {
 			}
 
 			// Create buffer view definition.
-			const bufferViewData = BufferUtils.concat(buffers);
 			const bufferViewDef: GLTF.IBufferView = {
 				buffer: bufferIndex,
 				byteOffset: bufferByteOffset,
-				byteLength: bufferViewData.byteLength,
+				byteLength: byteLength,
 			};
 			if (bufferViewTarget) bufferViewDef.target = bufferViewTarget;
 			json.bufferViews!.push(bufferViewDef);
@@ -200,13 +208,148 @@ export class GLTFWriter {
 			return { byteLength, buffers: [new Uint8Array(buffer)] };
 		}
 
+		/**
+		 * Pack a group of sparse accessors. Appends accessor and buffer view definitions to the root
+		 * JSON lists. Sparse indices and values for all accessors are written to two buffer views,
+		 * and only elements differing from zero — or from the accessor's sparse base, if any — are
+		 * stored. Buffer views of sparse bases are assigned after all buffers are written.
+		 *
+		 * @param accessors Accessors to be included.
+		 * @param bufferIndex Buffer to write to.
+		 * @param bufferByteOffset Current offset into the buffer, accounting for other buffer views.
+		 */
+		function concatSparseAccessors(
+			accessors: Accessor[],
+			bufferIndex: number,
+			bufferByteOffset: number
+		): BufferViewResult {
+			const indicesBuffers: Uint8Array[] = [];
+			const valuesBuffers: Uint8Array[] = [];
+			let indicesByteLength = 0;
+			let valuesByteLength = 0;
+
+			const indicesBufferViewIndex = json.bufferViews!.length;
+			const valuesBufferViewIndex = json.bufferViews!.length + 1;
+
+			// Create accessor definitions, gathering indices and values of non-zero elements.
+			for (const accessor of accessors) {
+				const accessorDef = context.createAccessorDef(accessor);
+				context.accessorIndexMap.set(accessor, json.accessors!.length);
+				json.accessors!.push(accessorDef);
+
+				const elementSize = accessor.getElementSize();
+				const count = accessor.getCount();
+				const srcArray = accessor.getArray()!;
+
+				const base = getSparseBase(accessor);
+				const baseArray = base ? base.getArray()! : null;
+				if (base) sparseBases.set(accessorDef, base);
+
+				const indices: number[] = [];
+				for (let i = 0; i < count; i++) {
+					for (let j = 0; j < elementSize; j++) {
+						const k = i * elementSize + j;
+						if (srcArray[k] !== (baseArray ? baseArray[k] : 0)) {
+							indices.push(i);
+							break;
+						}
+					}
+				}
+
+				// Sparse storage requires at least one element. Readers may otherwise interpret
+				// an accessor without buffer view as compressed, e.g. by Draco.
+				if (!indices.length) indices.push(0);
+
+				const valuesArray = srcArray.slice(0, indices.length * elementSize);
+				for (let i = 0; i < indices.length; i++) {
+					for (let j = 0; j < elementSize; j++) {
+						valuesArray[i * elementSize + j] = srcArray[indices[i] * elementSize + j];
+					}
+				}
+
+				const maxIndex = indices[indices.length - 1];
+				let indicesArray: Uint8Array | Uint16Array | Uint32Array;
+				let indicesComponentType: GLTF.AccessorComponentType;
+				if (maxIndex < 255) {
+					indicesArray = new Uint8Array(indices);
+					indicesComponentType = Accessor.ComponentType.UNSIGNED_BYTE;
+				} else if (maxIndex < 65535) {
+					indicesArray = new Uint16Array(indices);
+					indicesComponentType = Accessor.ComponentType.UNSIGNED_SHORT;
+				} else {
+					indicesArray = new Uint32Array(indices);
+					indicesComponentType = Accessor.ComponentType.UNSIGNED_INT;
+				}
+
+				const indicesData = BufferUtils.pad(BufferUtils.toView(indicesArray));
+				const valuesData = BufferUtils.pad(BufferUtils.toView(valuesArray));
+
+				if (indicesData.byteLength + valuesData.byteLength > srcArray.byteLength) {
+					const pct = ((100 * indices.length) / count).toFixed(1);
+					logger.warn(`Sparse accessor with many stored elements (${pct}%) increases file size.`);
+				}
+
+				accessorDef.sparse = {
+					count: indices.length,
+					indices: {
+						bufferView: indicesBufferViewIndex,
+						byteOffset: indicesByteLength,
+						componentType: indicesComponentType,
+					},
+					values: {
+						bufferView: valuesBufferViewIndex,
+						byteOffset: valuesByteLength,
+					},
+				};
+
+				indicesByteLength += indicesData.byteLength;
+				valuesByteLength += valuesData.byteLength;
+				indicesBuffers.push(indicesData);
+				valuesBuffers.push(valuesData);
+			}
+
+			// Create buffer view definitions, values following indices.
+			json.bufferViews!.push(
+				{ buffer: bufferIndex, byteOffset: bufferByteOffset, byteLength: indicesByteLength },
+				{ buffer: bufferIndex, byteOffset: bufferByteOffset + indicesByteLength, byteLength: valuesByteLength }
+			);
+
+			return {
+				buffers: [...indicesBuffers, ...valuesBuffers],
+				byteLength: indicesByteLength + valuesByteLength,
+			};
+		}
+
+		/**
+		 * Returns the base accessor against which a sparse accessor is written, or null if the
+		 * accessor has no base or the base cannot be referenced. Bases written by extensions, like
+		 * Draco, may have no buffer view of their own.
+		 */
+		function getSparseBase(accessor: Accessor): Accessor | null {
+			const base = accessor.getSparseBase();
+			if (!base || base.getSparse() || extensionAccessors.has(base)) return null;
+			if (!base.getBuffer()) return null;
+			if (
+				base.getType() !== accessor.getType() ||
+				base.getComponentType() !== accessor.getComponentType() ||
+				base.getNormalized() !== accessor.getNormalized() ||
+				base.getCount() !== accessor.getCount()
+			) {
+				return null;
+			}
+			return base;
+		}
+
 		/* Data use pre-processing. */
 
 		const accessorRefs = new Map<Accessor, GraphEdge<Property, Accessor>[]>();
+		const sparseBases = new Map<GLTF.IAccessor, Accessor>();
+		const extensionAccessors = new Set<Accessor>();
 
-		// Gather all accessors, creating a map to look up their uses.
+		// Gather all accessors, creating a map to look up their uses. References from sparse
+		// accessors to their bases do not affect usage.
 		for (const ref of doc.getGraph().listEdges()) {
-			if (ref.getParent() === root) continue;
+			if (ref.getParent() === root || ref.getParent() instanceof Accessor) continue;
 
 			const child = ref.getChild();
 
@@ -260,7 +403,16 @@ export class GLTFWriter {
 			const accessorParents = context.accessorParents;
 
 			// Skip if already written by an extension.
-			if (context.accessorIndexMap.has(accessor)) return;
+			if (context.accessorIndexMap.has(accessor)) {
+				extensionAccessors.add(accessor);
+				return;
+			}
+
+			// Sparse accessors are grouped separately, regardless of their other usage.
+			if (accessor.getSparse()) {
+				context.addAccessorToUsageGroup(accessor, BufferViewUsage.SPARSE);
+				return;
+			}
 
 			// Assign usage for core accessor usage types (explicit targets and implicit usage).
 			const accessorEdges = accessorRefs.get(accessor) || [];
@@ -344,6 +496,14 @@ export class GLTFWriter {
 							}
 						}
 					}
+				} else if (usage === BufferViewUsage.SPARSE) {
+					// Sparse accessors, with indices and values concatenated end-to-end.
+					const accessors = usageGroups[usage].filter((a) => bufferAccessorsSet.has(a));
+					if (!accessors.length) continue;
+
+					const result = concatSparseAccessors(accessors, bufferIndex, bufferByteLength);
+					bufferByteLength += result.byteLength;
+					buffers.push(...result.buffers);
 				} else {
 					// Accessors concatenated end-to-end, including indices, IBMs, and other data.
 					const accessors = usageGroups[usage].filter((a) => bufferAccessorsSet.has(a));
@@ -401,7 +561,7 @@ export class GLTFWriter {
 
 				// Write buffer views to buffer.
 				bufferDef.byteLength = bufferByteLength;
-				jsonDoc.resources[uri] = BufferUtils.concat(buffers);
+				jsonDoc.bufferChunks[uri] = buffers;
 			}
 
 			json.buffers!.push(bufferDef);
@@ -412,6 +572,13 @@ export class GLTFWriter {
 			logger.warn('Skipped writing one or more Accessors: no Buffer assigned.');
 		}
 
+		// Sparse accessors with a base share the base accessor's buffer view.
+		for (const [accessorDef, base] of Array.from(sparseBases.entries())) {
+			const baseDef = json.accessors![context.accessorIndexMap.get(base)!];
+			accessorDef.bufferView = baseDef.bufferView;
+			if (baseDef.byteOffset) accessorDef.byteOffset = baseDef.byteOffset;
+		}
+
 		/* Materials. */
 
 		json.materials = root.listMaterials().map((material, index) => {
@@ -662,6 +829,15 @@ export class GLTFWriter {
 
 		/** Animations. */
 
+		// Core properties that may be targeted by KHR_animation_pointer. Extensions may register
+		// their own properties, so pointers are resolved after extensions are written.
+		context.nodeIndexMap.forEach((index, node) => context.pointerMap.set(node, `/nodes/${index}`));
+		context.meshIndexMap.forEach((index, mesh) => context.pointerMap.set(mesh, `/meshes/${index}`));
+		context.materialIndexMap.forEach((index, material) => context.pointerMap.set(material, `/materials/${index}`));
+		context.cameraIndexMap.forEach((index, camera) => context.pointerMap.set(camera, `/cameras/${index}`));
+
+		const pointerChannels: [AnimationChannel, GLTF.IAnimationChannel, GLTF.IAnimation][] = [];
+
 		json.animations = root.listAnimations().map((animation, index) => {
 			const animationDef = context.createPropertyDef(animation) as GLTF.IAnimation;
 
@@ -679,10 +855,15 @@ export class GLTFWriter {
 			animationDef.channels = animation.listChannels().map((channel) => {
 				const channelDef = context.createPropertyDef(channel) as GLTF.IAnimationChannel;
 				channelDef.sampler = samplerIndexMap.get(channel.getSampler()!)!;
-				channelDef.target = {
-					node: context.nodeIndexMap.get(channel.getTargetNode()!)!,
-					path: channel.getTargetPath()!,
-				};
+				if (channel.getTargetPath() === AnimationChannel.TargetPath.POINTER) {
+					channelDef.target = { path: AnimationChannel.TargetPath.POINTER };
+					pointerChannels.push([channel, channelDef, animationDef]);
+				} else {
+					channelDef.target = {
+						node: context.nodeIndexMap.get(channel.getTargetNode()!)!,
+						path: channel.getTargetPath()!,
+					};
+				}
 				return channelDef;
 			});
 
@@ -710,6 +891,43 @@ export class GLTFWriter {
 		json.extensionsRequired = extensionsRequired.map((ext) => ext.extensionName);
 		extensionsUsed.forEach((extension) => extension.write(context));
 
+		/* Animation pointers. */
+
+		let pointerCount = 0;
+		const skippedAnimationDefs = new Set<GLTF.IAnimation>();
+		for (const [channel, channelDef, animationDef] of pointerChannels) {
+			const targetPointer = context.pointerMap.get(channel.getTargetProperty()!);
+			if (targetPointer === undefined) {
+				logger.warn(`Skipped writing animation channel "${channel.getName()}": unsupported pointer target.`);
+				animationDef.channels.splice(animationDef.channels.indexOf(channelDef), 1);
+				skippedAnimationDefs.add(animationDef);
+				continue;
+			}
+			const pointer = targetPointer + (channel.getTargetPointer() || '');
+			channelDef.target.extensions = { [KHR_ANIMATION_POINTER]: { pointer } };
+			pointerCount++;
+		}
+
+		// Samplers used only by skipped channels are dropped, and animations left without
+		// channels are invalid, so they are dropped as well.
+		for (const animationDef of skippedAnimationDefs) {
+			if (animationDef.channels.length === 0) {
+				logger.warn(`Skipped writing animation "${animationDef.name || ''}": no supported channels.`);
+				json.animations.splice(json.animations.indexOf(animationDef), 1);
+				continue;
+			}
+			const samplerDefs = animationDef.samplers;
+			const usedSamplerDefs = samplerDefs.filter((_, index) =>
+				animationDef.channels.some((channelDef) => channelDef.sampler === index)
+			);
+			for (const channelDef of animationDef.channels) {
+				channelDef.sampler = usedSamplerDefs.indexOf(samplerDefs[channelDef.sampler]);
+			}
+			animationDef.samplers = usedSamplerDefs;
+		}
+
+		if (pointerCount) json.extensionsUsed.push(KHR_ANIMATION_POINTER);
+
 		//
 
 		clean(json as unknown as Record<string, unknown>);
@@ -0,0 +1,324 @@
+import { BaseEvent, EventDispatcher, GraphNodeEvent } from 'property-graph';
+import type { Document } from './document';
+import type { Property } from './properties';
+import type { Ref } from './utils';
+
+/**
+ * Record of a single modification to a {@link Document}, as captured by a {@link Journal}.
+ * Entries refer to properties as they were when recorded; see {@link Journal.resolve}.
+ *
+ * @category Documents
+ */
+export interface JournalEntry {
+	/** Kind of modification: a property was created, disposed, or had an attribute changed. */
+	type: 'create' | 'dispose' | 'change';
+	/** Property created, disposed, or changed. */
+	target: Property;
+	/** Name of the changed attribute, for 'change' entries. */
+	attribute?: string;
+}
+
+/**
+ * Event dispatched by a {@link Journal}. 'record' events are dispatched as each entry is
+ * recorded, and 'undo' and 'redo' events are dispatched with the entries of each step reverted
+ * or reapplied.
+ *
+ * @category Documents
+ */
+export interface JournalEvent extends BaseEvent {
+	type: 'record' | 'undo' | 'redo';
+	target: Journal;
+	entries: JournalEntry[];
+}
+
+/** @internal */
+interface JournalChangeEntry extends JournalEntry {
+	type: 'change';
+	attribute: string;
+	before: unknown;
+	after: unknown;
+}
+
+/** @internal Addition or removal of one reference in a list, recorded without copying the list. */
+interface JournalRefListEntry extends JournalEntry {
+	type: 'change';
+	attribute: string;
+	ref: Ref;
+	index: number;
+	added: boolean;
+}
+
+/**
+ * # Journal
+ *
+ * *Records changes to a {@link Document}, with undo and redo history.*
+ *
+ * A Journal is created with {@link Document.createJournal}, and records changes to attributes
+ * and references of any {@link Property}, and the creation and disposal of properties, until
+ * the Journal is disposed. Recorded entries are grouped into steps with {@link Journal.commit},
+ * and each step may be reverted with {@link Journal.undo} and reapplied with
+ * {@link Journal.redo}. Recording any new change clears the redo history.
+ *
+ * Listeners may subscribe to 'record', 'undo', and 'redo' events, each including a list of
+ * {@link JournalEntry JournalEntries}.
+ *
+ * Usage:
+ *
+ * ```ts
+ * const journal = doc.createJournal();
+ * journal.addEventListener('record', ({ entries }) => console.log(entries));
+ *
+ * node.setTranslation([0, 5, 0]);
+ * journal.commit();
+ *
+ * journal.undo();
+ * node.getTranslation(); // → [0, 0, 0]
+ *
+ * journal.redo();
+ * node.getTranslation(); // → [0, 5, 0]
+ * ```
+ *
+ * Disposal cannot be reversed in place: undoing the disposal of a property, or redoing its
+ * creation, restores a copy of the property in its place. Use {@link Journal.resolve} to find
+ * the copy currently standing in for a property referenced elsewhere, or by recorded entries.
+ *
+ * ```ts
+ * material.dispose();
+ * journal.undo();
+ *
+ * material.isDisposed(); // → true
+ * journal.resolve(material).isDisposed(); // → false
+ * ```
+ *
+ * Changes to properties that existed before recording began, but were not yet connected to
+ * other properties in the Document, are not recorded. Literal values — like arrays and extras
+ * objects — are recorded by reference, and should be replaced rather than modified in place.
+ *
+ * @category Documents
+ */
+export class Journal extends EventDispatcher<JournalEvent> {
+	private readonly _document: Document;
+
+	/** @internal Latest known attribute values of each property, used to record prior values. */
+	private readonly _snapshots = new Map<Property, Record<string, unknown>>();
+
+	/** @internal Copies restored in place of disposed properties. See {@link Journal.resolve}. */
+	private readonly _replacements = new Map<Property, Property>();
+	private readonly _resolve = <T extends Property>(property: T): T => this.resolve(property);
+
+	private _pending: JournalEntry[] = [];
+	private _undoStack: JournalEntry[][] = [];
+	private _redoStack: JournalEntry[][] = [];
+	private _replaying = false;
+
+	/** @internal */
+	private _listener: (event: unknown) => void;
+
+	/** @hidden */
+	constructor(document: Document) {
+		super();
+		this._document = document;
+
+		const graph = document.getGraph();
+		const root = document.getRoot();
+		this._snapshots.set(root, root._getSnapshot());
+		for (const edge of graph.listEdges()) {
+			for (const property of [edge.getParent(), edge.getChild()]) {
+				if (!this._snapshots.has(property)) {
+					this._snapshots.set(property, property._getSnapshot());
+				}
+			}
+		}
+
+		this._listener = (_event: unknown): void => {
+			const event = _event as GraphNodeEvent;
+			const target = event.target as Property;
+			if (event.type === 'node:create') {
+				this._snapshots.set(target, target._getSnapshot());
+				this._record({ type: 'create', target });
+			} else if (event.type === 'node:change') {
+				// Changes made while a property is constructed, or to properties unknown to the
+				// Journal, have no prior state to return to.
+				const snapshot = this._snapshots.get(target);
+				if (!snapshot) return;
+				const attribute = event.attribute as string;
+				const before = snapshot[attribute];
+				const delta = Array.isArray(before) ? target._updateRefListSnapshot(attribute, before) : null;
+				if (delta) {
+					this._record({ type: 'change', target, attribute, ...delta } as JournalRefListEntry);
+					return;
+				}
+				const after = (snapshot[attribute] = target._getAttributeSnapshot(attribute));
+				this._record({ type: 'change', target, attribute, before, after } as JournalChangeEntry);
+			} else if (event.type === 'node:dispose') {
+				this._record({ type: 'dispose', target });
+			}
+		};
+
+		graph.addEventListener('node:create', this._listener);
+		graph.addEventListener('node:change', this._listener);
+		graph.addEventListener('node:dispose', this._listener);
+	}
+
+	/** Stops recording changes, and clears the history. */
+	public dispose(): void {
+		const graph = this._document.getGraph();
+		graph.removeEventListener('node:create', this._listener);
+		graph.removeEventListener('node:change', this._listener);
+		graph.removeEventListener('node:dispose', this._listener);
+		this.clear();
+		this._snapshots.clear();
+		this._replacements.clear();
+		super.dispose();
+	}
+
+	/** Clears undo and redo history, including any uncommitted entries. */
+	public clear(): this {
+		this._pending = [];
+		this._undoStack = [];
+		this._redoStack = [];
+		return this;
+	}
+
+	/**
+	 * Groups all entries recorded since the previous commit into a single step, to be reverted
+	 * or reapplied together. Called automatically by {@link Journal.undo}.
+	 */
+	public commit(): this {
+		if (this._pending.length) {
+			this._undoStack.push(this._pending);
+			this._pending = [];
+		}
+		return this;
+	}
+
+	/**
+	 * Returns the property currently standing in for the given property: the most recent copy
+	 * restored in its place by {@link Journal.undo} or {@link Journal.redo}, or the property
+	 * itself if it was never restored.
+	 */
+	public resolve<T extends Property>(property: T): T {
+		let replacement = this._replacements.get(property);
+		while (replacement) {
+			property = replacement as T;
+			replacement = this._replacements.get(property);
+		}
+		return property;
+	}
+
+	/** Returns true if there are changes that can be reverted with {@link Journal.undo}. */
+	public canUndo(): boolean {
+		return this._pending.length > 0 || this._undoStack.length > 0;
+	}
+
+	/** Returns true if there are reverted changes that can be reapplied with {@link Journal.redo}. */
+	public canRedo(): boolean {
+		return this._redoStack.length > 0;
+	}
+
+	/** Reverts the most recent step, committing any pending entries first. */
+	public undo(): this {
+		this.commit();
+		const entries = this._undoStack.pop();
+		if (!entries) return this;
+
+		this._replay(() => {
+			for (let i = entries.length - 1; i >= 0; i--) {
+				this._revert(entries[i]);
+			}
+		});
+
+		this._redoStack.push(entries);
+		return this.dispatchEvent({ type: 'undo', target: this, entries: entries.slice() });
+	}
+
+	/** Reapplies the most recently reverted step. */
+	public redo(): this {
+		const entries = this._redoStack.pop();
+		if (!entries) return this;
+
+		// Created properties must be restored before references to them are restored.
+		this._replay(() => {
+			for (const entry of entries) {
+				if (entry.type === 'create') this._apply(entry);
+			}
+			for (const entry of entries) {
+				if (entry.type !== 'create') this._apply(entry);
+			}
+		});
+
+		this._undoStack.push(entries);
+		return this.dispatchEvent({ type: 'redo', target: this, entries: entries.slice() });
+	}
+
+	/** @internal */
+	private _record(entry: JournalEntry): void {
+		if (this._replaying) return;
+		this._pending.push(entry);
+		this._redoStack.length = 0;
+		this.dispatchEvent({ type: 'record', target: this, entries: [entry] });
+	}
+
+	/**
+	 * Runs the callback without recording changes. Snapshots are still updated, including for
+	 * side effects of the replayed entries.
+	 * @internal
+	 */
+	private _replay(fn: () => void): void {
+		this._replaying = true;
+		try {
+			fn();
+		} finally {
+			this._replaying = false;
+		}
+	}
+
+	/** @internal */
+	private _apply(entry: JournalEntry): void {
+		if (entry.type === 'create') {
+			this._restore(entry.target);
+		} else if (entry.type === 'dispose') {
+			this.resolve(entry.target).dispose();
+		} else if ('ref' in entry) {
+			const refListEntry = entry as JournalRefListEntry;
+			this._restoreRefList(refListEntry, refListEntry.added);
+		} else {
+			const { target, attribute, after } = entry as JournalChangeEntry;
+			this.resolve(target)._restoreAttribute(attribute, after, this._resolve);
+		}
+	}
+
+	/** @internal */
+	private _revert(entry: JournalEntry): void {
+		if (entry.type === 'create') {
+			this.resolve(entry.target).dispose();
+		} else if (entry.type === 'dispose') {
+			this._restore(entry.target);
+		} else if ('ref' in entry) {
+			const refListEntry = entry as JournalRefListEntry;
+			this._restoreRefList(refListEntry, !refListEntry.added);
+		} else {
+			const { target, attribute, before } = entry as JournalChangeEntry;
+			this.resolve(target)._restoreAttribute(attribute, before, this._resolve);
+		}
+	}
+
+	/** @internal */
+	private _restoreRefList(entry: JournalRefListEntry, present: boolean): void {
+		const { target, attribute, ref, index } = entry;
+		this.resolve(target)._restoreRefListChange(attribute, ref, index, present, this._resolve);
+	}
+
+	/**
+	 * Restores a disposed property as a copy, including its immutable child properties. Other
+	 * attributes and references are restored by subsequent entries.
+	 * @internal
+	 */
+	private _restore(target: Property): void {
+		const property = this.resolve(target);
+		if (!property.isDisposed()) return;
+		for (const [prev, next] of property._createReplacement()) {
+			this._replacements.set(prev, next);
+		}
+	}
+}
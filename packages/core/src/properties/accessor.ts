@@ -10,9 +10,22 @@ interface IAccessor extends IExtensibleProperty {
 	type: GLTF.AccessorType;
 	componentType: GLTF.AccessorComponentType;
 	normalized: boolean;
+	sparse: boolean;
+	sparseBase: Accessor;
 	buffer: Buffer;
 }
 
+/**
+ * Deferred array data for an {@link Accessor}, with metadata available before the data is read.
+ * @internal
+ */
+export interface LazyAccessorArray {
+	count: number;
+	min?: number[];
+	max?: number[];
+	read: () => TypedArray;
+}
+
 /**
  * # Accessor
  *
@@ -62,7 +75,8 @@ interface IAccessor extends IExtensibleProperty {
  * glTF-Transform does not expose many details of sparse, normalized, or interleaved accessors
  * through its API. It reads files using those techniques, presents a simplified view of the data
  * for editing, and attempts to write data back out with optimizations. For example, vertex
- * attributes will typically be interleaved by default, regardless of the input file.
+ * attributes will typically be interleaved by default, regardless of the input file. Accessors
+ * read from sparse storage, or marked with {@link setSparse}, are written as sparse accessors.
  *
  * References:
  * - [glTF → Accessors](https://github.com/KhronosGroup/gltf/blob/main/specification/2.0/README.md#accessors)
@@ -142,6 +156,8 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 			type: Accessor.Type.SCALAR,
 			componentType: Accessor.ComponentType.FLOAT,
 			normalized: false,
+			sparse: false,
+			sparseBase: null,
 			buffer: null,
 		});
 	}
@@ -152,13 +168,24 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	/** @internal Outbound transform from normalized representation, if applicable. */
 	private _out = MathUtils.identity;
 
+	/** @internal Deferred array data, not yet read. See {@link PlatformIO.readBinaryLazy}. */
+	private _lazy: LazyAccessorArray | null = null;
+
 	public copy(other: this, resolve = COPY_IDENTITY): this {
+		other._readLazy();
 		super.copy(other, resolve);
+		this._lazy = null;
 		this._in = other._in;
 		this._out = other._out;
 		return this;
 	}
 
+	public equals(other: this, skip?: Set<string>): boolean {
+		this._readLazy();
+		other._readLazy();
+		return super.equals(other, skip);
+	}
+
 	/**********************************************************************************************
 	 * Static.
 	 */
@@ -229,7 +256,12 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 * reflect normalization: use {@link .getMinNormalized} in that case.
 	 */
 	public getMin(target: number[]): number[] {
-		const array = this.get('array');
+		if (this._lazy && this._lazy.min) {
+			for (let j = 0; j < this.getElementSize(); j++) target[j] = this._lazy.min[j];
+			return target;
+		}
+
+		const array = this.getArray();
 		const count = this.getCount();
 		const elementSize = this.getElementSize();
 
@@ -267,7 +299,12 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 * reflect normalization: use {@link .getMinNormalized} in that case.
 	 */
 	public getMax(target: number[]): number[] {
-		const array = this.get('array');
+		if (this._lazy && this._lazy.max) {
+			for (let j = 0; j < this.getElementSize(); j++) target[j] = this._lazy.max[j];
+			return target;
+		}
+
+		const array = this.getArray();
 		const count = this.getCount();
 		const elementSize = this.getElementSize();
 
@@ -294,7 +331,8 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 * will have a count of 10.
 	 */
 	public getCount(): number {
-		const array = this.get('array');
+		if (this._lazy) return this._lazy.count;
+		const array = this.getArray();
 		return array ? array.length / this.getElementSize() : 0;
 	}
 
@@ -325,7 +363,7 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 * `componentSize` of data backed by a `float32` array is 4 bytes.
 	 */
 	public getComponentSize(): number {
-		return this.get('array')!.BYTES_PER_ELEMENT;
+		return Accessor.getComponentSize(this.get('componentType'));
 	}
 
 	/**
@@ -370,6 +408,45 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 		return this;
 	}
 
+	/**********************************************************************************************
+	 * Sparse storage.
+	 */
+
+	/**
+	 * Whether the accessor should be written with sparse storage. Sparse accessors store only
+	 * elements that differ from zero, and can be much smaller when most elements are zero — as
+	 * is common for morph target displacements. Accessors read from sparse storage are sparse
+	 * by default. Sparse storage does not affect the in-memory representation of the data.
+	 */
+	public getSparse(): boolean {
+		return this.get('sparse');
+	}
+
+	/**
+	 * Sets whether the accessor should be written with sparse storage. Sparse storage is
+	 * recommended only when the majority of elements are zero, or equal to those of the
+	 * {@link getSparseBase sparse base}. See {@link getSparse}.
+	 */
+	public setSparse(sparse: boolean): this {
+		return this.set('sparse', sparse);
+	}
+
+	/**
+	 * Returns the Accessor against which a sparse accessor is stored, if any. When written, a
+	 * sparse accessor with a base references the base accessor's buffer view, and stores only
+	 * elements that differ from the base, rather than from zero. The base must have the same
+	 * type, component type, normalization, and count, and must not itself be sparse; otherwise
+	 * elements are stored against zero. Has no effect on accessors that are not sparse.
+	 */
+	public getSparseBase(): Accessor | null {
+		return this.getRef('sparseBase');
+	}
+
+	/** Sets the Accessor against which a sparse accessor is stored. See {@link getSparseBase}. */
+	public setSparseBase(base: Accessor | null): this {
+		return this.setRef('sparseBase', base);
+	}
+
 	/**********************************************************************************************
 	 * Data access.
 	 */
@@ -380,7 +457,7 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 */
 	public getScalar(index: number): number {
 		const elementSize = this.getElementSize();
-		return this._out(this.get('array')![index * elementSize]);
+		return this._out(this.getArray()![index * elementSize]);
 	}
 
 	/**
@@ -388,7 +465,7 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 * applicable.
 	 */
 	public setScalar(index: number, x: number): this {
-		this.get('array')![index * this.getElementSize()] = this._in(x);
+		this.getArray()![index * this.getElementSize()] = this._in(x);
 		return this;
 	}
 
@@ -398,7 +475,7 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 */
 	public getElement(index: number, target: number[]): number[] {
 		const elementSize = this.getElementSize();
-		const array = this.get('array')!;
+		const array = this.getArray()!;
 		for (let i = 0; i < elementSize; i++) {
 			target[i] = this._out(array[index * elementSize + i]);
 		}
@@ -411,7 +488,7 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 	 */
 	public setElement(index: number, value: number[]): this {
 		const elementSize = this.getElementSize();
-		const array = this.get('array')!;
+		const array = this.getArray()!;
 		for (let i = 0; i < elementSize; i++) {
 			array![index * elementSize + i] = this._in(value[i]);
 		}
@@ -434,11 +511,13 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 
 	/** Returns the raw typed array underlying this accessor. */
 	public getArray(): TypedArray | null {
+		this._readLazy();
 		return this.get('array');
 	}
 
 	/** Assigns the raw typed array underlying this accessor. */
 	public setArray(array: TypedArray): this {
+		this._lazy = null;
 		this.set('componentType', array ? arrayToComponentType(array) : Accessor.ComponentType.FLOAT);
 		this.set('array', array);
 		return this;
@@ -446,9 +525,62 @@ export class Accessor extends ExtensibleProperty<IAccessor> {
 
 	/** Returns the total bytelength of this accessor, exclusive of padding. */
 	public getByteLength(): number {
-		const array = this.get('array');
+		if (this._lazy) return this._lazy.count * this.getElementSize() * this.getComponentSize();
+		const array = this.getArray();
 		return array ? array.byteLength : 0;
 	}
+
+	/**********************************************************************************************
+	 * Deferred data.
+	 */
+
+	/**
+	 * Returns true if array data was deferred by {@link PlatformIO.readBinaryLazy}, and has not
+	 * yet been read. Metadata, like {@link .getCount} and stored min/max bounds, is available
+	 * without reading the data.
+	 */
+	public isLazy(): boolean {
+		return !!this._lazy;
+	}
+
+	/**
+	 * Defers reading of array data until it is first accessed. Count and (if given) min/max
+	 * bounds are reported from the metadata without reading the data.
+	 * @internal
+	 */
+	public _setLazyArray(componentType: GLTF.AccessorComponentType, lazy: LazyAccessorArray): this {
+		this.set('componentType', componentType);
+		this.set('array', null);
+		this._lazy = lazy;
+		return this;
+	}
+
+	/** @internal Reads deferred array data, if any, and retains it. */
+	private _readLazy(): void {
+		if (!this._lazy) return;
+		const array = this._lazy.read();
+		this._lazy = null;
+		this.set('array', array);
+	}
+
+	/** @internal Deferred array data is represented by its reader, and is not read early. */
+	public _getAttributeSnapshot(key: string): unknown {
+		if (key === 'array' && this._lazy) return this._lazy;
+		return super._getAttributeSnapshot(key);
+	}
+
+	/** @internal */
+	public _restoreAttribute(key: string, snapshot: unknown, resolve = COPY_IDENTITY): void {
+		if (key === 'normalized') {
+			this.setNormalized(snapshot as boolean);
+		} else if (key === 'array' && snapshot && !ArrayBuffer.isView(snapshot)) {
+			this._lazy = snapshot as LazyAccessorArray;
+			this.set('array', null);
+		} else {
+			if (key === 'array') this._lazy = null;
+			super._restoreAttribute(key, snapshot, resolve);
+		}
+	}
 }
 
 /**************************************************************************************************
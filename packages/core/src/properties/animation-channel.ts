@@ -3,10 +3,13 @@ import type { GLTF } from '../types/gltf';
 import type { AnimationSampler } from './animation-sampler';
 import { ExtensibleProperty, IExtensibleProperty } from './extensible-property';
 import type { Node } from './node';
+import type { Property } from './property';
 
 interface IAnimationChannel extends IExtensibleProperty {
 	targetPath: GLTF.AnimationChannelTargetPath | null;
 	targetNode: Node;
+	targetProperty: Property;
+	targetPointer: string | null;
 	sampler: AnimationSampler;
 }
 
@@ -23,6 +26,13 @@ interface IAnimationChannel extends IExtensibleProperty {
  * AnimationChannel is stored in an {@link AnimationSampler}, which must be attached to the same
  * {@link Animation}.
  *
+ * With the `pointer` path, defined by the
+ * [`KHR_animation_pointer`](https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Khronos/KHR_animation_pointer)
+ * extension, a channel may instead target any animatable value of another {@link Property}, such
+ * as a {@link Material} factor or a {@link Camera} field of view. The target is given as the
+ * Property and a JSON pointer relative to that Property's definition in the glTF file. When the
+ * file is written, the pointer is resolved to the Property's location in the file.
+ *
  * Usage:
  *
  * ```ts
@@ -34,6 +44,12 @@ interface IAnimationChannel extends IExtensibleProperty {
  * 	.setTargetPath('rotation')
  * 	.setTargetNode(node)
  * 	.setSampler(rotateSampler);
+ *
+ * const colorChannel = doc.createAnimationChannel('paintColor')
+ * 	.setTargetPath('pointer')
+ * 	.setTargetProperty(material)
+ * 	.setTargetPointer('/pbrMetallicRoughness/baseColorFactor')
+ * 	.setSampler(colorSampler);
  * ```
  *
  * Reference
@@ -56,6 +72,8 @@ export class AnimationChannel extends ExtensibleProperty<IAnimationChannel> {
 		SCALE: 'scale',
 		/** Channel targets {@link Node.setWeights}, affecting {@link PrimitiveTarget} weights. */
 		WEIGHTS: 'weights',
+		/** Channel targets a JSON pointer, see {@link AnimationChannel.setTargetPointer}. */
+		POINTER: 'pointer',
 	};
 
 	/**********************************************************************************************
@@ -70,6 +88,8 @@ export class AnimationChannel extends ExtensibleProperty<IAnimationChannel> {
 		return Object.assign(super.getDefaults() as IExtensibleProperty, {
 			targetPath: null,
 			targetNode: null,
+			targetProperty: null,
+			targetPointer: null,
 			sampler: null,
 		});
 	}
@@ -80,7 +100,7 @@ export class AnimationChannel extends ExtensibleProperty<IAnimationChannel> {
 
 	/**
 	 * Path (property) animated on the target {@link Node}. Supported values include:
-	 * `translation`, `rotation`, `scale`, or `weights`.
+	 * `translation`, `rotation`, `scale`, `weights`, or `pointer`.
 	 */
 	public getTargetPath(): GLTF.AnimationChannelTargetPath | null {
 		return this.get('targetPath');
@@ -88,7 +108,7 @@ export class AnimationChannel extends ExtensibleProperty<IAnimationChannel> {
 
 	/**
 	 * Path (property) animated on the target {@link Node}. Supported values include:
-	 * `translation`, `rotation`, `scale`, or `weights`.
+	 * `translation`, `rotation`, `scale`, `weights`, or `pointer`.
 	 */
 	public setTargetPath(targetPath: GLTF.AnimationChannelTargetPath): this {
 		return this.set('targetPath', targetPath);
@@ -104,6 +124,42 @@ export class AnimationChannel extends ExtensibleProperty<IAnimationChannel> {
 		return this.setRef('targetNode', targetNode);
 	}
 
+	/**
+	 * Target {@link Property} animated by the channel, for channels with the `pointer` path.
+	 * Supported targets include {@link Node}, {@link Mesh}, {@link Material}, and {@link Camera}
+	 * properties, and extension properties registered by their extensions, such as lights.
+	 */
+	public getTargetProperty(): Property | null {
+		return this.getRef('targetProperty');
+	}
+
+	/**
+	 * Target {@link Property} animated by the channel, for channels with the `pointer` path.
+	 * Supported targets include {@link Node}, {@link Mesh}, {@link Material}, and {@link Camera}
+	 * properties, and extension properties registered by their extensions, such as lights.
+	 */
+	public setTargetProperty(targetProperty: Property | null): this {
+		return this.setRef('targetProperty', targetProperty);
+	}
+
+	/**
+	 * JSON pointer to the value animated by the channel, for channels with the `pointer` path.
+	 * The pointer is relative to the definition of the target {@link Property}, for example
+	 * `/pbrMetallicRoughness/baseColorFactor` on a {@link Material}.
+	 */
+	public getTargetPointer(): string | null {
+		return this.get('targetPointer');
+	}
+
+	/**
+	 * JSON pointer to the value animated by the channel, for channels with the `pointer` path.
+	 * The pointer is relative to the definition of the target {@link Property}, for example
+	 * `/pbrMetallicRoughness/baseColorFactor` on a {@link Material}.
+	 */
+	public setTargetPointer(targetPointer: string | null): this {
+		return this.set('targetPointer', targetPointer);
+	}
+
 	/**
 	 * Keyframe data input/output values for the channel. Must be attached to the same
 	 * {@link Animation}.
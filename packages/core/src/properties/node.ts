@@ -1,11 +1,13 @@
 import { multiply } from 'gl-matrix/mat4';
 import { PropertyType, mat4, vec3, vec4, Nullable } from '../constants';
 import { $attributes } from 'property-graph';
+import type { GraphEdge } from 'property-graph';
 import { MathUtils } from '../utils';
 import type { Camera } from './camera';
 import { ExtensibleProperty, IExtensibleProperty } from './extensible-property';
 import type { Mesh } from './mesh';
 import { COPY_IDENTITY } from './property';
+import type { Property } from './property';
 import type { Skin } from './skin';
 
 interface INode extends IExtensibleProperty {
@@ -205,6 +207,14 @@ export class Node extends ExtensibleProperty<INode> {
 		return this.listRefs('children');
 	}
 
+	/** @internal Restores child nodes through {@link addChild}, keeping parent references in sync. */
+	public _restoreAttribute(key: string, snapshot: unknown, resolve = COPY_IDENTITY): void {
+		if (key !== 'children') return super._restoreAttribute(key, snapshot, resolve);
+		this._restoreRefList(key, snapshot as GraphEdge<Property, Node>[], resolve, (ref) => {
+			this.addChild(resolve(ref.getChild() as Node));
+		});
+	}
+
 	/**
 	 * Returns the unique parent ({@link Scene}, {@link Node}, or null) of this node in the scene
 	 * hierarchy. Unrelated to {@link Property.listParents}, which lists all resource references.
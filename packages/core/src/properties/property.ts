@@ -6,6 +6,8 @@ import type { Ref, RefMap, UnknownRef } from '../utils';
 export type PropertyResolver<T extends Property> = (p: T) => T;
 export const COPY_IDENTITY = <T extends Property>(t: T): T => t;
 
+const EMPTY_SET = new Set<string>();
+
 export interface IProperty {
 	name: string;
 	extras: Record<string, unknown>;
@@ -196,6 +198,10 @@ export abstract class Property<T extends IProperty = IProperty> extends GraphNod
 			} else {
 				this[$attributes][key] = otherValue;
 			}
+
+			if (!(otherValue instanceof GraphEdge || isRefList(otherValue) || isRefMap(otherValue))) {
+				this.dispatchEvent({ type: 'change', attribute: key });
+			}
 		}
 
 		return this;
@@ -205,26 +211,29 @@ export abstract class Property<T extends IProperty = IProperty> extends GraphNod
 	 * Returns true if two properties are deeply equivalent, recursively comparing the attributes
 	 * of the properties. For example, two {@link Primitive Primitives} are equivalent if they
 	 * have accessors and materials with equivalent content — but not necessarily the same specific
-	 * accessors and materials.
+	 * accessors and materials. Attributes named in `skip`, like `'name'`, are not compared on
+	 * this property or on any properties it references.
 	 */
-	public equals(other: this): boolean {
+	public equals(other: this, skip: Set<string> = EMPTY_SET): boolean {
 		if (this === other) return true;
 		if (this.propertyType !== other.propertyType) return false;
 
 		for (const key in this[$attributes]) {
+			if (skip.has(key)) continue;
+
 			const a = this[$attributes][key] as UnknownRef;
 			const b = other[$attributes][key] as UnknownRef;
 
 			if (isRef(a) || isRef(b)) {
-				if (!equalsRef(a as Ref, b as Ref)) {
+				if (!equalsRef(a as Ref, b as Ref, skip)) {
 					return false;
 				}
 			} else if (isRefList(a) || isRefList(b)) {
-				if (!equalsRefList(a as Ref[], b as Ref[])) {
+				if (!equalsRefList(a as Ref[], b as Ref[], skip)) {
 					return false;
 				}
 			} else if (isRefMap(a) || isRefMap(b)) {
-				if (!equalsRefMap(a as RefMap, b as RefMap)) {
+				if (!equalsRefMap(a as RefMap, b as RefMap, skip)) {
 					return false;
 				}
 			} else if (isPlainObject(a) || isPlainObject(b)) {
@@ -266,4 +275,174 @@ export abstract class Property<T extends IProperty = IProperty> extends GraphNod
 	public listParents(): Property[] {
 		return this.graph.listParents(this);
 	}
+
+	/**********************************************************************************************
+	 * History.
+	 */
+
+	/**
+	 * Returns a snapshot of all attributes of this property, for use by {@link Journal} and
+	 * {@link Document.toSnapshot}. See {@link Property._getAttributeSnapshot}.
+	 * @internal
+	 */
+	public _getSnapshot(): Record<string, unknown> {
+		const snapshot: Record<string, unknown> = {};
+		for (const key in this[$attributes]) {
+			snapshot[key] = this._getAttributeSnapshot(key);
+		}
+		return snapshot;
+	}
+
+	/**
+	 * Returns a snapshot of an attribute's current value, for use by {@link Journal}. References
+	 * are represented by their edges, which retain their child and attributes after disposal.
+	 * @internal
+	 */
+	public _getAttributeSnapshot(key: string): unknown {
+		const value = this[$attributes][key as keyof T] as unknown;
+		if (Array.isArray(value)) return value.slice();
+		if (isPlainObject(value)) return { ...(value as Record<string, unknown>) };
+		return value;
+	}
+
+	/**
+	 * Updates a snapshot of a reference list attribute, previously returned by
+	 * {@link Property._getAttributeSnapshot}, after a single reference was added to or removed
+	 * from the list. Returns the reference and its index in the list, or null if the attribute
+	 * is not a reference list. Used by {@link Journal} to record changes without copying lists.
+	 * @internal
+	 */
+	public _updateRefListSnapshot(key: string, snapshot: Ref[]): { ref: Ref; index: number; added: boolean } | null {
+		const refs = this[$attributes][key as keyof T] as unknown as Ref[];
+		if (!isRefList(refs) && !isRefList(snapshot)) return null;
+
+		// References are only appended to lists, and are removed one at a time, on disposal.
+		if (refs.length > snapshot.length) {
+			const ref = refs[refs.length - 1];
+			snapshot.push(ref);
+			return { ref, index: snapshot.length - 1, added: true };
+		}
+		const index = snapshot.findIndex((ref) => ref.isDisposed());
+		const [ref] = snapshot.splice(index, 1);
+		return { ref, index, added: false };
+	}
+
+	/**
+	 * Restores an attribute to a value returned by {@link Property._getAttributeSnapshot}, for
+	 * use by {@link Journal} and {@link Document.fromSnapshot}. Referenced properties are passed
+	 * through the 'resolve' function, and references already matching the snapshot are kept.
+	 * Immutable references are not modified.
+	 * @internal
+	 */
+	public _restoreAttribute(
+		key: string,
+		snapshot: unknown,
+		resolve: PropertyResolver<Property> = COPY_IDENTITY
+	): void {
+		if (this[$immutableKeys].has(key)) return;
+
+		const value = this[$attributes][key as keyof T] as unknown;
+		if (snapshot instanceof GraphEdge || value instanceof GraphEdge) {
+			const ref = snapshot as Ref | undefined;
+			if (ref && value && matchesRefSnapshot(value as Ref, ref, resolve)) return;
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			this.setRef(key as any, ref ? resolve(ref.getChild()) : null, ref ? ref.getAttributes() : undefined);
+		} else if (isRefList(snapshot) || isRefList(value)) {
+			this._restoreRefList(key, snapshot as Ref[], resolve, (ref) => {
+				// eslint-disable-next-line @typescript-eslint/no-explicit-any
+				this.addRef(key as any, resolve(ref.getChild()), ref.getAttributes());
+			});
+		} else if (isRefMap(snapshot) || isRefMap(value)) {
+			for (const subkey in value as RefMap) {
+				// eslint-disable-next-line @typescript-eslint/no-explicit-any
+				if (!(subkey in (snapshot as RefMap))) this.setRefMap(key as any, subkey, null);
+			}
+			for (const subkey in snapshot as RefMap) {
+				const ref = (snapshot as RefMap)[subkey];
+				const prevRef = (value as RefMap)[subkey];
+				if (prevRef && matchesRefSnapshot(prevRef, ref, resolve)) continue;
+				// eslint-disable-next-line @typescript-eslint/no-explicit-any
+				this.setRefMap(key as any, subkey, resolve(ref.getChild()), ref.getAttributes());
+			}
+		} else if (snapshot !== value) {
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			this.set(key as any, snapshot as any);
+		}
+	}
+
+	/**
+	 * Restores a single reference in a list, recorded by {@link Property._updateRefListSnapshot},
+	 * to be present or absent at the given index. Does nothing if the list already matches.
+	 * @internal
+	 */
+	public _restoreRefListChange(
+		key: string,
+		ref: Ref,
+		index: number,
+		present: boolean,
+		resolve: PropertyResolver<Property> = COPY_IDENTITY
+	): void {
+		const refs = (this[$attributes][key as keyof T] as unknown as Ref[]).slice();
+		const isMatch = index < refs.length && matchesRefSnapshot(refs[index], ref, resolve);
+		if (present === isMatch) return;
+		if (present) {
+			refs.splice(index, 0, ref);
+		} else {
+			refs.splice(index, 1);
+		}
+		this._restoreAttribute(key, refs, resolve);
+	}
+
+	/**
+	 * Restores a list of references to match the snapshot, disposing and adding only those
+	 * references that differ. References are only appended to lists, so references following
+	 * the first difference in order are re-added with the 'add' callback.
+	 * @internal
+	 */
+	protected _restoreRefList(
+		key: string,
+		snapshot: Ref[],
+		resolve: PropertyResolver<Property>,
+		add: (ref: Ref) => void
+	): void {
+		let index = 0;
+		for (const ref of (this[$attributes][key as keyof T] as unknown as Ref[]).slice()) {
+			if (index < snapshot.length && matchesRefSnapshot(ref, snapshot[index], resolve)) {
+				index++;
+			} else {
+				ref.dispose();
+			}
+		}
+		for (; index < snapshot.length; index++) add(snapshot[index]);
+	}
+
+	/**
+	 * Creates a copy of this disposed property, for use by {@link Journal}. Returns a map from
+	 * this property, and from each of its immutable child properties, to the copies replacing
+	 * them. References to and from the copy must be restored separately.
+	 * @internal
+	 */
+	public _createReplacement(): Map<Property, Property> {
+		// Disposed properties have no references to share with a copy, so nodes and scenes, which
+		// otherwise cannot be copied with the default resolver, are copied here too.
+		const PropertyClass = this.constructor as new (g: Graph<Property>) => this;
+		const replacement = new PropertyClass(this.graph).copy(this, (property) => property);
+		const replacements = new Map<Property, Property>([[this, replacement]]);
+		for (const key of this[$immutableKeys]) {
+			const prevRef = this[$attributes][key as keyof T] as unknown as Ref;
+			const ref = replacement[$attributes][key as keyof T] as unknown as Ref;
+			replacements.set(prevRef.getChild(), ref.getChild());
+		}
+		return replacements;
+	}
+}
+
+/** Returns true if the reference has the (resolved) child and the attributes of the snapshot. */
+function matchesRefSnapshot(ref: Ref, snapshot: Ref, resolve: PropertyResolver<Property>): boolean {
+	if (ref.getChild() !== resolve(snapshot.getChild())) return false;
+	const attributes = ref.getAttributes() as Record<string, unknown>;
+	const snapshotAttributes = snapshot.getAttributes() as Record<string, unknown>;
+	const keys = Object.keys(attributes);
+	if (keys.length !== Object.keys(snapshotAttributes).length) return false;
+	return keys.every((key) => attributes[key] === snapshotAttributes[key]);
 }
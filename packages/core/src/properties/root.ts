@@ -1,5 +1,6 @@
 import { Nullable, PropertyType, VERSION } from '../constants';
 import type { Extension } from '../extension';
+import { $attributes } from 'property-graph';
 import type { Graph } from 'property-graph';
 import { Accessor } from './accessor';
 import { Animation } from './animation';
@@ -14,6 +15,7 @@ import { Skin } from './skin';
 import { Texture } from './texture';
 import { ExtensibleProperty, IExtensibleProperty } from './extensible-property';
 import type { ExtensionProperty } from './extension-property';
+import type { Ref } from '../utils';
 
 interface IAsset {
 	version: string;
@@ -133,6 +135,25 @@ export class Root extends ExtensibleProperty<IRoot> {
 		return this;
 	}
 
+	/**
+	 * @internal Properties are added to the Root when created, so a restored property may already
+	 * be listed elsewhere in the list. Each property is listed once, at the recorded index.
+	 */
+	public _restoreRefListChange(
+		key: string,
+		ref: Ref,
+		index: number,
+		present: boolean,
+		resolve = COPY_IDENTITY
+	): void {
+		const child = resolve(ref.getChild());
+		const refs = (this[$attributes][key as keyof IRoot] as unknown as Ref[]).filter(
+			(prevRef) => prevRef.getChild() !== child
+		);
+		if (present) refs.splice(Math.min(index, refs.length), 0, ref);
+		this._restoreAttribute(key, refs, resolve);
+	}
+
 	private _addChildOfRoot(child: Property): this {
 		if (child instanceof Scene) {
 			this.addRef('scenes', child);
@@ -1,8 +1,10 @@
 import { Nullable, PropertyType } from '../constants';
 import { $attributes } from 'property-graph';
+import type { GraphEdge } from 'property-graph';
 import { ExtensibleProperty, IExtensibleProperty } from './extensible-property';
 import type { Node } from './node';
 import { COPY_IDENTITY } from './property';
+import type { Property } from './property';
 
 interface IScene extends IExtensibleProperty {
 	children: Node[];
@@ -69,6 +71,14 @@ export class Scene extends ExtensibleProperty<IScene> {
 		return this.listRefs('children');
 	}
 
+	/** @internal Restores child nodes through {@link addChild}, keeping parent references in sync. */
+	public _restoreAttribute(key: string, snapshot: unknown, resolve = COPY_IDENTITY): void {
+		if (key !== 'children') return super._restoreAttribute(key, snapshot, resolve);
+		this._restoreRefList(key, snapshot as GraphEdge<Property, Node>[], resolve, (ref) => {
+			this.addChild(resolve(ref.getChild() as Node));
+		});
+	}
+
 	/** Visits each {@link Node} in the scene, including descendants, top-down. */
 	public traverse(fn: (node: Node) => void): this {
 		for (const node of this.listChildren()) node.traverse(fn);
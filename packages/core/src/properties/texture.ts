@@ -1,6 +1,7 @@
 import { Nullable, PropertyType, vec2 } from '../constants';
 import { BufferUtils, FileUtils, ImageUtils } from '../utils';
 import { ExtensibleProperty, IExtensibleProperty } from './extensible-property';
+import { COPY_IDENTITY } from './property';
 
 interface ITexture extends IExtensibleProperty {
 	image: Uint8Array | null;
@@ -8,6 +9,22 @@ interface ITexture extends IExtensibleProperty {
 	uri: string;
 }
 
+/**
+ * Deferred image data for a {@link Texture}, with metadata available before the data is read.
+ * @internal
+ */
+export interface LazyTextureImage {
+	byteLength: number;
+	/** Reads the given byte range of the image, or the entire image if no range is given. */
+	read: (byteOffset?: number, byteLength?: number) => Uint8Array;
+}
+
+/**
+ * Byte length of the range read from deferred image data to parse its header. Images with
+ * larger headers, such as JPEG images with large metadata blocks, are read in full instead.
+ */
+const LAZY_HEADER_BYTE_LENGTH = 64 * 1024;
+
 /**
  * # Texture
  *
@@ -39,6 +56,22 @@ export class Texture extends ExtensibleProperty<ITexture> {
 		return Object.assign(super.getDefaults() as IExtensibleProperty, { image: null, mimeType: '', uri: '' });
 	}
 
+	/** @internal Deferred image data, not yet read. See {@link PlatformIO.readBinaryLazy}. */
+	private _lazy: LazyTextureImage | null = null;
+
+	public copy(other: this, resolve = COPY_IDENTITY): this {
+		other._readLazy();
+		super.copy(other, resolve);
+		this._lazy = null;
+		return this;
+	}
+
+	public equals(other: this, skip?: Set<string>): boolean {
+		this._readLazy();
+		other._readLazy();
+		return super.equals(other, skip);
+	}
+
 	/**********************************************************************************************
 	 * MIME type / format.
 	 */
@@ -81,18 +114,100 @@ export class Texture extends ExtensibleProperty<ITexture> {
 
 	/** Returns the raw image data for this texture. */
 	public getImage(): Uint8Array | null {
+		this._readLazy();
 		return this.get('image');
 	}
 
 	/** Sets the raw image data for this texture. */
 	public setImage(image: Uint8Array): this {
+		this._lazy = null;
 		return this.set('image', BufferUtils.assertView(image));
 	}
 
-	/** Returns the size, in pixels, of this texture. */
+	/**
+	 * Returns the size, in pixels, of this texture. Only the header of deferred image data is
+	 * read to determine the size, and is not retained.
+	 */
 	public getSize(): vec2 | null {
+		return this._parseImage((image) => ImageUtils.getSize(image, this.getMimeType()));
+	}
+
+	/** Returns the byte length of the raw image data. Deferred image data is not read. */
+	public getByteLength(): number {
+		if (this._lazy) return this._lazy.byteLength;
 		const image = this.get('image');
-		if (!image) return null;
-		return ImageUtils.getSize(image, this.getMimeType());
+		return image ? image.byteLength : 0;
+	}
+
+	/**
+	 * Returns a conservative estimate of the GPU memory required by this texture. Only the header
+	 * of deferred image data is read to determine the estimate, and is not retained. See
+	 * {@link ImageUtils.getMemSize}.
+	 */
+	public getMemSize(): number | null {
+		return this._parseImage((image) => ImageUtils.getMemSize(image, this.getMimeType()));
+	}
+
+	/**********************************************************************************************
+	 * Deferred data.
+	 */
+
+	/**
+	 * Defers reading of image data until it is first accessed. Byte length is reported from the
+	 * metadata without reading the data.
+	 * @internal
+	 */
+	public _setLazyImage(lazy: LazyTextureImage): this {
+		this.set('image', null);
+		this._lazy = lazy;
+		return this;
+	}
+
+	/**
+	 * Parses the image with the given function. Deferred image data is not retained, and only its
+	 * header is read, unless the function fails on the header alone.
+	 * @internal
+	 */
+	private _parseImage<T>(parse: (image: Uint8Array) => T | null): T | null {
+		if (!this._lazy) {
+			const image = this.get('image');
+			return image ? parse(image) : null;
+		}
+
+		const { byteLength, read } = this._lazy;
+		if (byteLength > LAZY_HEADER_BYTE_LENGTH) {
+			try {
+				const result = parse(read(0, LAZY_HEADER_BYTE_LENGTH));
+				if (result !== null) return result;
+			} catch (e) {
+				// Header exceeds the range read; fall through.
+			}
+		}
+		return parse(read());
+	}
+
+	/** @internal Reads deferred image data, if any, and retains it. */
+	private _readLazy(): void {
+		if (!this._lazy) return;
+		const image = this._lazy.read();
+		this._lazy = null;
+		this.set('image', image);
+	}
+
+	/** @internal Deferred image data is represented by its reader, and is not read early. */
+	public _getAttributeSnapshot(key: string): unknown {
+		if (key === 'image' && this._lazy) return this._lazy;
+		return super._getAttributeSnapshot(key);
+	}
+
+	/** @internal */
+	public _restoreAttribute(key: string, snapshot: unknown, resolve = COPY_IDENTITY): void {
+		if (key === 'image' && snapshot && !ArrayBuffer.isView(snapshot)) {
+			this._lazy = snapshot as LazyTextureImage;
+			this.set('image', null);
+		} else {
+			if (key === 'image') this._lazy = null;
+			super._restoreAttribute(key, snapshot, resolve);
+		}
 	}
 }
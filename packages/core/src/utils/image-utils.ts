@@ -9,6 +9,25 @@ export interface ImageUtilsFormat {
 	getGPUByteLength?(buffer: Uint8Array): number | null;
 }
 
+/**
+ * Pixel data for an image, in RGBA order with shape `[width, height, 4]`. The interface is
+ * compatible with the {@link https://github.com/scijs/ndarray ndarray} package, and codecs
+ * will typically return ndarray instances.
+ */
+export interface Pixels {
+	shape: number[];
+	stride: number[];
+	offset: number;
+	get(...args: number[]): number;
+	set(...args: number[]): number;
+}
+
+/** Implements decoding and encoding of pixel data for an image format in the {@link ImageUtils} class. */
+export interface ImageUtilsCodec {
+	decode(buffer: Uint8Array, mimeType: string): Promise<Pixels>;
+	encode(pixels: Pixels, mimeType: string): Promise<Uint8Array>;
+}
+
 /** JPEG image support. */
 class JPEGImageUtils implements ImageUtilsFormat {
 	match(array: Uint8Array): boolean {
@@ -100,6 +119,54 @@ export class ImageUtils {
 		this.impls[mimeType] = impl;
 	}
 
+	static codecs: Record<string, ImageUtilsCodec> = {};
+
+	/**
+	 * Registers a codec to decode and encode pixel data for an image format. No codecs are
+	 * registered by default, and a codec registered for a MIME type replaces any previous codec
+	 * for that type. Example:
+	 *
+	 * ```ts
+	 * import { getPixels, savePixels } from 'ndarray-pixels';
+	 *
+	 * const codec = {
+	 * 	decode: (buffer, mimeType) => getPixels(buffer, mimeType),
+	 * 	encode: (pixels, mimeType) => savePixels(pixels, mimeType),
+	 * };
+	 *
+	 * ImageUtils.registerCodec('image/png', codec);
+	 * ImageUtils.registerCodec('image/jpeg', codec);
+	 * ```
+	 */
+	public static registerCodec(mimeType: string, codec: ImageUtilsCodec): void {
+		this.codecs[mimeType] = codec;
+	}
+
+	/** Returns the codec registered for the given MIME type, if any. */
+	public static getCodec(mimeType: string): ImageUtilsCodec | null {
+		return this.codecs[mimeType] || null;
+	}
+
+	/**
+	 * Decodes the image to RGBA pixel data, with shape `[width, height, 4]`. Requires a codec
+	 * registered for the MIME type; see {@link ImageUtils.registerCodec}.
+	 */
+	public static async decodePixels(buffer: Uint8Array, mimeType: string): Promise<Pixels> {
+		const codec = this.getCodec(mimeType);
+		if (!codec) throw new Error(`No codec registered for "${mimeType}".`);
+		return codec.decode(buffer, mimeType);
+	}
+
+	/**
+	 * Encodes RGBA pixel data, with shape `[width, height, 4]`, to an image of the given MIME
+	 * type. Requires a codec registered for the MIME type; see {@link ImageUtils.registerCodec}.
+	 */
+	public static async encodePixels(pixels: Pixels, mimeType: string): Promise<Uint8Array> {
+		const codec = this.getCodec(mimeType);
+		if (!codec) throw new Error(`No codec registered for "${mimeType}".`);
+		return codec.encode(pixels, mimeType);
+	}
+
 	/**
 	 * Returns detected MIME type of the given image buffer. Note that for image
 	 * formats with support provided by extensions, the extension must be
@@ -7,16 +7,16 @@ export type Ref = GraphEdge<Property, Property>;
 export type RefMap = { [key: string]: Ref };
 export type UnknownRef = Ref | Ref[] | RefMap | unknown;
 
-export function equalsRef(refA: Ref, refB: Ref): boolean {
+export function equalsRef(refA: Ref, refB: Ref, skip?: Set<string>): boolean {
 	if (!!refA !== !!refB) return false;
 
 	const a = refA.getChild();
 	const b = refB.getChild();
 
-	return a === b || a.equals(b);
+	return a === b || a.equals(b, skip);
 }
 
-export function equalsRefList(refListA: Ref[], refListB: Ref[]): boolean {
+export function equalsRefList(refListA: Ref[], refListB: Ref[], skip?: Set<string>): boolean {
 	if (!!refListA !== !!refListB) return false;
 	if (refListA.length !== refListB.length) return false;
 
@@ -26,13 +26,13 @@ export function equalsRefList(refListA: Ref[], refListB: Ref[]): boolean {
 
 		if (a.getChild() === b.getChild()) continue;
 
-		if (!a.getChild().equals(b.getChild())) return false;
+		if (!a.getChild().equals(b.getChild(), skip)) return false;
 	}
 
 	return true;
 }
 
-export function equalsRefMap(refMapA: RefMap, refMapB: RefMap): boolean {
+export function equalsRefMap(refMapA: RefMap, refMapB: RefMap, skip?: Set<string>): boolean {
 	if (!!refMapA !== !!refMapB) return false;
 
 	const keysA = Object.keys(refMapA);
@@ -48,7 +48,7 @@ export function equalsRefMap(refMapA: RefMap, refMapB: RefMap): boolean {
 		const b = refB.getChild();
 		if (a === b) continue;
 
-		if (!a.equals(b)) return false;
+		if (!a.equals(b, skip)) return false;
 	}
 
 	return true;
@@ -0,0 +1,111 @@
+import test from 'tape';
+import { Accessor, Document, Extension, ExtensionProperty, PropertyType } from '@gltf-transform/core';
+
+const EXTENSION_NAME = 'TEST_node_gizmo';
+
+class GizmoExtension extends Extension {
+	static EXTENSION_NAME = EXTENSION_NAME;
+	public extensionName = EXTENSION_NAME;
+	createGizmo() {
+		return new Gizmo(this.document.getGraph());
+	}
+	read() {
+		return this;
+	}
+	write() {
+		return this;
+	}
+}
+
+class Gizmo extends ExtensionProperty {
+	declare extensionName: typeof EXTENSION_NAME;
+	declare propertyType: 'Gizmo';
+	declare parentTypes: [PropertyType.NODE];
+	init(): void {
+		this.extensionName = EXTENSION_NAME;
+		this.propertyType = 'Gizmo';
+		this.parentTypes = [PropertyType.NODE];
+	}
+}
+
+function createDocument(): Document {
+	const doc = new Document();
+	doc.createExtension(GizmoExtension).setRequired(true);
+
+	const buffer = doc.createBuffer();
+	const position = doc
+		.createAccessor('POSITION')
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const color = doc
+		.createAccessor('COLOR_0')
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]))
+		.setNormalized(true)
+		.setBuffer(buffer);
+	const texture = doc
+		.createTexture('T')
+		.setImage(new Uint8Array([1, 2, 3, 4]))
+		.setMimeType('image/png');
+	const material = doc
+		.createMaterial('M')
+		.setBaseColorTexture(texture)
+		.setExtras({ custom: [1, 2] });
+	material.getBaseColorTextureInfo()!.setTexCoord(1);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setAttribute('COLOR_0', color);
+	const mesh = doc.createMesh('Mesh').addPrimitive(prim.setMaterial(material));
+	const gizmo = doc.createExtension(GizmoExtension).createGizmo().setExtras({ isGizmo: true });
+	const child = doc.createNode('Child').setMesh(mesh).setExtension(EXTENSION_NAME, gizmo);
+	const parent = doc.createNode('Parent').setTranslation([1, 2, 3]).addChild(child);
+	doc.getRoot().setDefaultScene(doc.createScene('Scene').addChild(parent));
+	return doc;
+}
+
+test('@gltf-transform/core::document-snapshot', (t) => {
+	const srcDoc = createDocument();
+	const snapshot = srcDoc.toSnapshot();
+	const dstDoc = Document.fromSnapshot(structuredClone(snapshot, { transfer: snapshot.transfer }), [GizmoExtension]);
+
+	const srcRoot = srcDoc.getRoot();
+	const dstRoot = dstDoc.getRoot();
+
+	t.equals(srcRoot.listAccessors()[0].getArray()!.length, 9, 'source data retained');
+	t.deepEquals(
+		dstRoot.listExtensionsUsed().map((ext) => [ext.extensionName, ext.isRequired()]),
+		[[EXTENSION_NAME, true]],
+		'extensions'
+	);
+
+	for (const type of ['Scenes', 'Nodes', 'Meshes', 'Materials', 'Textures', 'Accessors', 'Buffers']) {
+		const srcList = srcRoot[`list${type}`]();
+		const dstList = dstRoot[`list${type}`]();
+		t.equals(dstList.length, srcList.length, `${type.toLowerCase()} count`);
+		t.ok(
+			srcList.every((prop, index) => prop.equals(dstList[index])),
+			`${type.toLowerCase()} equal`
+		);
+	}
+
+	const [dstScene] = dstRoot.listScenes();
+	const [dstChild, dstParent] = dstRoot.listNodes();
+	const [dstPosition, dstColor] = dstRoot.listAccessors();
+
+	t.equals(dstRoot.getDefaultScene(), dstScene, 'default scene');
+	t.deepEquals(dstScene.listChildren(), [dstParent], 'scene children');
+	t.equals(dstChild.getParent(), dstParent, 'node parent');
+	t.deepEquals(dstParent.getTranslation(), [1, 2, 3], 'node translation');
+	t.deepEquals(dstChild.getExtension<Gizmo>(EXTENSION_NAME)!.getExtras(), { isGizmo: true }, 'extension property');
+	t.ok(dstChild.getExtension(EXTENSION_NAME) instanceof Gizmo, 'extension property class');
+	t.equals(dstRoot.listMaterials()[0].getBaseColorTextureInfo()!.getTexCoord(), 1, 'texture info');
+	t.deepEquals(dstColor.getElement(0, []), [1, 0, 0, 1], 'normalized accessor');
+	t.notEqual(dstPosition.getArray(), srcRoot.listAccessors()[0].getArray(), 'copies accessor data');
+
+	t.end();
+});
+
+test('@gltf-transform/core::document-snapshot | missing extension', (t) => {
+	const snapshot = createDocument().toSnapshot();
+	t.throws(() => Document.fromSnapshot(snapshot), /TEST_node_gizmo/, 'throws');
+	t.end();
+});
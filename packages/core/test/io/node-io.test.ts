@@ -1,6 +1,6 @@
 import test from 'tape';
 import { environment, Environment } from '../../../test-utils';
-import { Document, NodeIO } from '@gltf-transform/core';
+import { Document, Format, NodeIO } from '@gltf-transform/core';
 
 const MOCK_DOMAIN = 'https://mock.site';
 
@@ -53,6 +53,28 @@ test('@gltf-transform/core::io | node.js read gltf', { skip: environment !== Env
 	t.end();
 });
 
+test('@gltf-transform/core::io | node.js read glb lazy', { skip: environment !== Environment.NODE }, async (t) => {
+	let count = 0;
+	for (const inputURI of glob.sync(path.join(__dirname, '../in/**/*.glb'))) {
+		const basepath = inputURI.replace(path.join(__dirname, '../in'), '.');
+
+		const io = new NodeIO();
+		const doc = await io.read(inputURI);
+		const lazyDoc = await io.readLazy(inputURI);
+		const lazyJSONDoc = await io.readAsJSONLazy(inputURI);
+
+		t.deepEquals(
+			Array.from(await io.writeBinary(lazyDoc)),
+			Array.from(await io.writeBinary(doc)),
+			`Read "${basepath}".`
+		);
+		t.deepEquals(lazyJSONDoc.json, (await io.readAsJSON(inputURI)).json, `Read "${basepath}" JSON.`);
+		count++;
+	}
+	t.ok(count > 0, 'tests completed');
+	t.end();
+});
+
 test('@gltf-transform/core::io | node.js read glb http', { skip: environment !== Environment.NODE }, async (t) => {
 	let count = 0;
 	await Promise.all(
@@ -129,6 +151,27 @@ test('@gltf-transform/core::io | node.js write gltf', { skip: environment !== En
 	t.end();
 });
 
+test('@gltf-transform/core::io | node.js write chunks', { skip: environment !== Environment.NODE }, async (t) => {
+	const io = new NodeIO();
+	const doc = await io.read(path.join(__dirname, '../in/BoxVertexColors.glb'));
+	const outputURI = path.join(__dirname, '../out', 'node-io-chunks-test');
+	ensureDir(outputURI);
+
+	await io.write(path.join(outputURI, 'scene.glb'), doc);
+	const glb = await io.writeBinary(doc);
+	t.deepEquals(Array.from(fs.readFileSync(path.join(outputURI, 'scene.glb'))), Array.from(glb), 'writes glb');
+	t.equals(io.lastWriteBytes, glb.byteLength, 'counts glb bytes');
+
+	await io.write(path.join(outputURI, 'scene.gltf'), doc);
+	const { resources } = await io.writeJSON(doc, { format: Format.GLTF, basename: 'scene' });
+	t.deepEquals(
+		Array.from(fs.readFileSync(path.join(outputURI, 'scene.bin'))),
+		Array.from(resources['scene.bin']),
+		'writes gltf buffer'
+	);
+	t.end();
+});
+
 test(
 	'@gltf-transform/core::io | node.js write gltf with HTTP',
 	{ skip: environment !== Environment.NODE },
@@ -1,7 +1,7 @@
 import test from 'tape';
 import fs from 'fs';
 import path from 'path';
-import { BufferUtils, Document, Format, GLB_BUFFER, JSONDocument } from '@gltf-transform/core';
+import { Accessor, BufferUtils, Document, Format, GLB_BUFFER, JSONDocument } from '@gltf-transform/core';
 import { throwsAsync, createPlatformIO } from '../../../test-utils';
 
 test('@gltf-transform/core::io | common', async (t) => {
@@ -153,3 +153,139 @@ test('@gltf-transform/core::io | gltf embedded', async (t) => {
 	t.deepEquals(jsonDoc, jsonDocCopy, 'original unchanged');
 	t.end();
 });
+
+test('@gltf-transform/core::io | glb lazy', async (t) => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const position = doc
+		.createAccessor('POSITION')
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 2, 0]))
+		.setBuffer(buffer);
+	const color = doc
+		.createAccessor('COLOR_0')
+		.setType('VEC4')
+		.setArray(new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]))
+		.setNormalized(true)
+		.setBuffer(buffer);
+	const indices = doc
+		.createAccessor('indices')
+		.setArray(new Uint16Array([0, 1, 2]))
+		.setBuffer(buffer);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('COLOR_0', color)
+		.setIndices(indices);
+	doc.createMesh().addPrimitive(prim);
+	doc.createTexture('Tex')
+		.setImage(new Uint8Array([1, 2, 3, 4]))
+		.setMimeType('image/png');
+
+	const io = await createPlatformIO();
+	const glb = await io.writeBinary(doc);
+
+	const ranges: number[][] = [];
+	const read = (byteOffset: number, byteLength: number) => {
+		ranges.push([byteOffset, byteLength]);
+		return glb.slice(byteOffset, byteOffset + byteLength);
+	};
+
+	const rtDoc = await io.readBinaryLazy(read);
+	const [rtPosition, rtColor, rtIndices] = rtDoc.getRoot().listAccessors();
+	const rtTexture = rtDoc.getRoot().listTextures()[0];
+	const metadataByteLength = ranges.reduce((sum, range) => sum + range[1], 0);
+
+	t.ok(metadataByteLength < glb.byteLength - 32, 'reads metadata only');
+	t.equals(rtPosition.getCount(), 3, 'position count');
+	t.equals(rtPosition.getComponentType(), Accessor.ComponentType.FLOAT, 'position componentType');
+	t.equals(rtColor.getComponentSize(), 1, 'color componentSize');
+	t.equals(rtColor.getByteLength(), 12, 'color byteLength');
+	t.deepEquals(rtPosition.getMin([]), [0, 0, 0], 'position min');
+	t.deepEquals(rtPosition.getMax([]), [1, 2, 0], 'position max');
+	t.equals(rtTexture.getMimeType(), 'image/png', 'texture mimeType');
+	t.equals(
+		ranges.reduce((sum, range) => sum + range[1], 0),
+		metadataByteLength,
+		'reads no binary data for metadata'
+	);
+
+	t.deepEquals(Array.from(rtPosition.getArray()), Array.from(position.getArray()), 'position data');
+	t.deepEquals(Array.from(rtColor.getArray()), Array.from(color.getArray()), 'interleaved color data');
+	t.deepEquals(Array.from(rtIndices.getArray()), Array.from(indices.getArray()), 'indices data');
+	t.deepEquals(Array.from(rtTexture.getImage()), [1, 2, 3, 4], 'texture data');
+	t.deepEquals(rtColor.getElement(0, []), [1, 0, 0, 1], 'color element');
+
+	const rangeCount = ranges.length;
+	rtPosition.getArray();
+	rtTexture.getImage();
+	t.equals(ranges.length, rangeCount, 'retains data after first read');
+
+	t.deepEquals(Array.from(await io.writeBinary(rtDoc)), Array.from(glb), 'round trip');
+	t.end();
+});
+
+test('@gltf-transform/core::io | glb lazy clone', async (t) => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	doc.createAccessor()
+		.setArray(new Float32Array([1, 2, 3]))
+		.setBuffer(buffer);
+
+	const io = await createPlatformIO();
+	const glb = await io.writeBinary(doc);
+	const rtDoc = await io.readBinaryLazy((byteOffset, byteLength) => glb.slice(byteOffset, byteOffset + byteLength));
+	const accessor = rtDoc.getRoot().listAccessors()[0];
+	const accessorCopy = accessor.clone();
+
+	t.deepEquals(Array.from(accessorCopy.getArray()), [1, 2, 3], 'copies data');
+	t.ok(accessor.equals(accessorCopy), 'equals');
+	t.end();
+});
+
+test('@gltf-transform/core::io | glb lazy with external resources', async (t) => {
+	const io = await createPlatformIO();
+	const { json } = await io.writeJSON(new Document(), { format: Format.GLB });
+	json.images = [{ uri: 'external.png' }];
+
+	const jsonChunkData = BufferUtils.pad(BufferUtils.encodeText(JSON.stringify(json)), 0x20);
+	const jsonChunkHeader = BufferUtils.toView(new Uint32Array([jsonChunkData.byteLength, 0x4e4f534a]));
+	const header = BufferUtils.toView(new Uint32Array([0x46546c67, 2, 20 + jsonChunkData.byteLength]));
+	const glb = BufferUtils.concat([header, jsonChunkHeader, jsonChunkData]);
+
+	await throwsAsync(
+		t,
+		() => io.readBinaryLazy((byteOffset, byteLength) => glb.slice(byteOffset, byteOffset + byteLength)),
+		/external images/,
+		'throws on external images'
+	);
+	t.end();
+});
+
+test('@gltf-transform/core::io | glb stream', async (t) => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	doc.createAccessor()
+		.setArray(new Float32Array([1, 2, 3]))
+		.setBuffer(buffer);
+	doc.createAccessor()
+		.setArray(new Uint16Array([1, 2, 3]))
+		.setBuffer(buffer);
+	doc.createAccessor()
+		.setArray(new Uint8Array([1, 2, 3]))
+		.setBuffer(buffer);
+	doc.createTexture()
+		.setImage(new Uint8Array([1, 2, 3, 4, 5]))
+		.setMimeType('image/png');
+
+	const io = await createPlatformIO();
+	const chunks: Uint8Array[] = [];
+	for await (const chunk of io.writeBinaryStream(doc)) {
+		chunks.push(chunk);
+	}
+
+	t.ok(chunks.length > 4, 'writes chunks');
+	t.deepEquals(Array.from(BufferUtils.concat(chunks)), Array.from(await io.writeBinary(doc)), 'writes binary');
+	t.ok(await io.readBinary(BufferUtils.concat(chunks)), 'reads binary');
+	t.end();
+});
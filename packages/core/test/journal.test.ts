@@ -0,0 +1,223 @@
+import test from 'tape';
+import { Document, JournalEntry } from '@gltf-transform/core';
+
+test('@gltf-transform/core::journal | attributes', (t) => {
+	const doc = new Document();
+	const node = doc.createNode('A');
+	const journal = doc.createJournal();
+
+	node.setTranslation([0, 5, 0]).setName('B');
+	journal.commit();
+	node.setScale([2, 2, 2]);
+
+	t.ok(journal.canUndo(), 'can undo');
+	t.notOk(journal.canRedo(), 'cannot redo');
+
+	journal.undo();
+	t.deepEquals(node.getScale(), [1, 1, 1], 'undo uncommitted → scale');
+	t.deepEquals(node.getTranslation(), [0, 5, 0], 'undo uncommitted → translation');
+
+	journal.undo();
+	t.deepEquals(node.getTranslation(), [0, 0, 0], 'undo → translation');
+	t.equals(node.getName(), 'A', 'undo → name');
+	t.notOk(journal.canUndo(), 'cannot undo');
+
+	journal.redo();
+	t.deepEquals(node.getTranslation(), [0, 5, 0], 'redo → translation');
+	t.equals(node.getName(), 'B', 'redo → name');
+	t.ok(journal.canRedo(), 'can redo');
+
+	node.setName('C');
+	t.notOk(journal.canRedo(), 'new change clears redo');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | references', (t) => {
+	const doc = new Document();
+	const texture = doc.createTexture('T');
+	const material = doc.createMaterial('M').setBaseColorTexture(texture);
+	material.getBaseColorTextureInfo()!.setTexCoord(1);
+	const prim = doc.createPrimitive().setMaterial(material);
+	const mesh = doc.createMesh().addPrimitive(prim);
+	const journal = doc.createJournal();
+
+	material.setBaseColorTexture(null);
+	mesh.addPrimitive(doc.createPrimitive());
+	prim.setAttribute('POSITION', doc.createAccessor());
+	journal.commit();
+
+	journal.undo();
+	t.equals(material.getBaseColorTexture(), texture, 'undo → ref');
+	t.equals(mesh.listPrimitives().length, 1, 'undo → ref list');
+	t.equals(prim.getAttribute('POSITION'), null, 'undo → ref map');
+	t.equals(doc.getRoot().listAccessors().length, 0, 'undo → accessor disposed');
+
+	journal.redo();
+	t.equals(material.getBaseColorTexture(), null, 'redo → ref');
+	t.equals(mesh.listPrimitives().length, 2, 'redo → ref list');
+	t.ok(prim.getAttribute('POSITION'), 'redo → ref map');
+	t.equals(doc.getRoot().listAccessors().length, 1, 'redo → accessor revived');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | create and dispose', (t) => {
+	const doc = new Document();
+	const texture = doc.createTexture('T');
+	const material = doc.createMaterial('M').setBaseColorTexture(texture);
+	const textureInfo = material.getBaseColorTextureInfo()!.setTexCoord(1);
+	const journal = doc.createJournal();
+
+	material.dispose();
+	journal.commit();
+
+	t.ok(material.isDisposed(), 'material disposed');
+	t.ok(textureInfo.isDisposed(), 'texture info disposed');
+	t.equals(doc.getRoot().listMaterials().length, 0, 'material removed');
+
+	journal.undo();
+	const restored = journal.resolve(material);
+	const restoredInfo = restored.getBaseColorTextureInfo()!;
+	t.ok(material.isDisposed(), 'undo → original material remains disposed');
+	t.notOk(restored.isDisposed(), 'undo → material restored as copy');
+	t.equals(restored.getName(), 'M', 'undo → material attributes restored');
+	t.deepEquals(doc.getRoot().listMaterials(), [restored], 'undo → material restored');
+	t.equals(restored.getBaseColorTexture(), texture, 'undo → texture restored');
+	t.equals(journal.resolve(textureInfo), restoredInfo, 'undo → texture info resolved');
+	t.equals(restoredInfo.getTexCoord(), 1, 'undo → texture info attributes restored');
+
+	journal.redo();
+	t.ok(restored.isDisposed(), 'redo → material disposed');
+	t.equals(doc.getRoot().listMaterials().length, 0, 'redo → material removed');
+
+	journal.undo();
+	const scene = doc.createScene('S');
+	const node = doc.createNode('N');
+	scene.addChild(node);
+	journal.commit();
+
+	journal.undo();
+	t.ok(scene.isDisposed() && node.isDisposed(), 'undo → created properties disposed');
+	t.deepEquals(doc.getRoot().listScenes(), [], 'undo → scenes removed');
+	t.deepEquals(doc.getRoot().listNodes(), [], 'undo → nodes removed');
+
+	journal.redo();
+	const restoredScene = journal.resolve(scene);
+	const restoredNode = journal.resolve(node);
+	t.deepEquals(doc.getRoot().listScenes(), [restoredScene], 'redo → scenes restored');
+	t.deepEquals(doc.getRoot().listNodes(), [restoredNode], 'redo → nodes restored');
+	t.deepEquals(restoredScene.listChildren(), [restoredNode], 'redo → scene children restored');
+	t.equals(restoredNode.getParent(), restoredScene, 'redo → node parent restored');
+	t.equals(restoredNode.getName(), 'N', 'redo → node attributes restored');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | reference lists', (t) => {
+	const doc = new Document();
+	const graph = doc.getGraph();
+	const [a, b, c] = [doc.createPrimitive(), doc.createPrimitive(), doc.createPrimitive()];
+	const mesh = doc.createMesh().addPrimitive(a).addPrimitive(b).addPrimitive(c);
+	const journal = doc.createJournal();
+
+	const [edgeA, , edgeC] = graph.listChildEdges(mesh);
+	mesh.removePrimitive(b);
+	journal.commit();
+
+	journal.undo();
+	t.deepEquals(mesh.listPrimitives(), [a, b, c], 'undo → primitives');
+	t.notOk(edgeA.isDisposed(), 'undo → keeps unchanged references');
+	t.ok(edgeC.isDisposed(), 'undo → re-adds references after first difference');
+
+	const [, edgeB, restoredEdgeC] = graph.listChildEdges(mesh);
+	journal.redo();
+	t.deepEquals(mesh.listPrimitives(), [a, c], 'redo → primitives');
+	t.ok(edgeB.isDisposed(), 'redo → removes reference');
+	t.notOk(edgeA.isDisposed() || restoredEdgeC.isDisposed(), 'redo → keeps unchanged references');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | reference list steps', (t) => {
+	const doc = new Document();
+	const [a, b, c] = [doc.createPrimitive(), doc.createPrimitive(), doc.createPrimitive()];
+	const mesh = doc.createMesh();
+	const journal = doc.createJournal();
+
+	for (const prim of [a, b, c]) {
+		mesh.addPrimitive(prim);
+		journal.commit();
+	}
+	mesh.removePrimitive(a);
+	journal.commit();
+
+	journal.undo();
+	t.deepEquals(mesh.listPrimitives(), [a, b, c], 'undo → remove');
+	journal.undo();
+	t.deepEquals(mesh.listPrimitives(), [a, b], 'undo → add');
+	journal.undo().undo();
+	t.deepEquals(mesh.listPrimitives(), [], 'undo → all');
+
+	journal.redo().redo().redo().redo();
+	t.deepEquals(mesh.listPrimitives(), [b, c], 'redo → all');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | hierarchy', (t) => {
+	const doc = new Document();
+	const a = doc.createNode('A');
+	const b = doc.createNode('B');
+	const c = doc.createNode('C');
+	a.addChild(c);
+	const journal = doc.createJournal();
+
+	b.addChild(c);
+	journal.commit();
+
+	journal.undo();
+	t.deepEquals(a.listChildren(), [c], 'undo → a.children');
+	t.deepEquals(b.listChildren(), [], 'undo → b.children');
+	t.equals(c.getParent(), a, 'undo → c.parent');
+
+	journal.redo();
+	t.deepEquals(a.listChildren(), [], 'redo → a.children');
+	t.deepEquals(b.listChildren(), [c], 'redo → b.children');
+	t.equals(c.getParent(), b, 'redo → c.parent');
+
+	t.end();
+});
+
+test('@gltf-transform/core::journal | events', (t) => {
+	const doc = new Document();
+	const node = doc.createNode('A');
+	const journal = doc.createJournal();
+
+	const recorded: JournalEntry[] = [];
+	const undone: JournalEntry[] = [];
+	journal.addEventListener('record', ({ entries }) => recorded.push(...entries));
+	journal.addEventListener('undo', ({ entries }) => undone.push(...entries));
+
+	node.setName('B');
+	doc.createMesh('M');
+	journal.undo();
+
+	t.deepEquals(
+		recorded.map(({ type, target, attribute }) => [type, target.propertyType, attribute]),
+		[
+			['change', 'Node', 'name'],
+			['change', 'Root', 'meshes'],
+			['create', 'Mesh', undefined],
+		],
+		'record events'
+	);
+	t.equals(undone.length, 3, 'undo events');
+
+	journal.dispose();
+	node.setName('C');
+	t.equals(recorded.length, 3, 'dispose stops recording');
+	t.notOk(journal.canUndo(), 'dispose clears history');
+
+	t.end();
+});
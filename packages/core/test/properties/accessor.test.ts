@@ -1,5 +1,5 @@
 import test from 'tape';
-import { Accessor, Document, GLTF, TypedArray } from '@gltf-transform/core';
+import { Accessor, Document, GLTF, Logger, TypedArray } from '@gltf-transform/core';
 import { createPlatformIO } from '../../../test-utils';
 
 test('@gltf-transform/core::accessor | getScalar/setScalar', (t) => {
@@ -224,6 +224,104 @@ test('@gltf-transform/core::accessor | sparse', async (t) => {
 	t.end();
 });
 
+test('@gltf-transform/core::accessor | write sparse', async (t) => {
+	const doc = new Document();
+	doc.createBuffer();
+	const emptyArray = new Float32Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+	const sparseArray = new Float32Array([0, 0, 0, 0, 0, 0, 1, 2, 3, 0, 0, 0]);
+	const denseArray = new Float32Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+	doc.createAccessor('sparse').setType('VEC3').setArray(sparseArray).setSparse(true);
+	doc.createAccessor('empty').setType('VEC3').setArray(emptyArray).setSparse(true);
+	const position = doc.createAccessor('dense').setType('VEC3').setArray(denseArray);
+	const targetPosition = doc.createAccessor('target').setType('VEC3').setArray(sparseArray).setSparse(true);
+	const target = doc.createPrimitiveTarget().setAttribute('POSITION', targetPosition);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).addTarget(target);
+	doc.createMesh().addPrimitive(prim);
+
+	const io = await createPlatformIO();
+	const jsonDoc = await io.writeJSON(doc, { basename: 'test' });
+	const accessorDefs = {} as Record<string, GLTF.IAccessor>;
+	for (const accessorDef of jsonDoc.json.accessors) accessorDefs[accessorDef.name] = accessorDef;
+
+	t.deepEquals(
+		accessorDefs['sparse'].sparse,
+		{
+			count: 1,
+			indices: { bufferView: 0, byteOffset: 0, componentType: Accessor.ComponentType.UNSIGNED_BYTE },
+			values: { bufferView: 1, byteOffset: 0 },
+		},
+		'sparse accessor'
+	);
+	t.equals(accessorDefs['sparse'].bufferView, undefined, 'sparse accessor - no buffer view');
+	t.equals(accessorDefs['empty'].sparse.count, 1, 'empty accessor - minimal sparse data');
+	t.equals(accessorDefs['empty'].bufferView, undefined, 'empty accessor - no buffer view');
+	t.equals(accessorDefs['dense'].sparse, undefined, 'dense accessor - no sparse data');
+	t.ok(accessorDefs['dense'].bufferView !== undefined, 'dense accessor - buffer view');
+	t.ok(accessorDefs['target'].sparse !== undefined, 'morph target accessor - sparse data');
+
+	const rtDoc = await io.readJSON(jsonDoc);
+	const rtAccessors = {} as Record<string, Accessor>;
+	for (const accessor of rtDoc.getRoot().listAccessors()) rtAccessors[accessor.getName()] = accessor;
+
+	t.deepEquals(rtAccessors['sparse'].getArray(), sparseArray, 'sparse accessor - round trip');
+	t.deepEquals(rtAccessors['empty'].getArray(), emptyArray, 'empty accessor - round trip');
+	t.deepEquals(rtAccessors['dense'].getArray(), denseArray, 'dense accessor - round trip');
+	t.deepEquals(rtAccessors['target'].getArray(), sparseArray, 'morph target accessor - round trip');
+	t.equals(rtAccessors['sparse'].getSparse(), true, 'sparse accessor - sparse storage');
+	t.equals(rtAccessors['dense'].getSparse(), false, 'dense accessor - dense storage');
+	t.equals(rtAccessors['target'].getSparse(), true, 'morph target accessor - sparse storage');
+	t.end();
+});
+
+test('@gltf-transform/core::accessor | write sparse base', async (t) => {
+	const doc = new Document();
+	doc.createBuffer();
+	const baseArray = new Float32Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+	const variantArray = new Float32Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 99]);
+	const base = doc.createAccessor('base').setType('VEC3').setArray(baseArray);
+	doc.createAccessor('variant').setType('VEC3').setArray(variantArray).setSparse(true).setSparseBase(base);
+	doc.createAccessor('mismatch').setType('VEC2').setArray(new Float32Array(12)).setSparse(true).setSparseBase(base);
+
+	const io = await createPlatformIO();
+	const jsonDoc = await io.writeJSON(doc, { basename: 'test' });
+	const accessorDefs = {} as Record<string, GLTF.IAccessor>;
+	for (const accessorDef of jsonDoc.json.accessors) accessorDefs[accessorDef.name] = accessorDef;
+
+	t.equals(accessorDefs['variant'].bufferView, accessorDefs['base'].bufferView, 'variant - base buffer view');
+	t.equals(accessorDefs['variant'].sparse.count, 1, 'variant - stores differences from base');
+	t.equals(accessorDefs['mismatch'].bufferView, undefined, 'mismatch - no buffer view');
+
+	const rtDoc = await io.readJSON(jsonDoc);
+	const rtAccessors = {} as Record<string, Accessor>;
+	for (const accessor of rtDoc.getRoot().listAccessors()) rtAccessors[accessor.getName()] = accessor;
+
+	t.deepEquals(rtAccessors['variant'].getArray(), variantArray, 'variant - round trip');
+	t.equals(rtAccessors['variant'].getSparseBase(), rtAccessors['base'], 'variant - round trip base');
+	t.equals(rtAccessors['mismatch'].getSparseBase(), null, 'mismatch - round trip base');
+	t.end();
+});
+
+test('@gltf-transform/core::accessor | write sparse, size warning', async (t) => {
+	const warnings: string[] = [];
+	const logger = new Logger(Logger.Verbosity.WARN);
+	logger.warn = (text: string) => void warnings.push(text);
+
+	const doc = new Document().setLogger(logger);
+	doc.createBuffer();
+	const halfArray = new Float32Array([0, 0, 0, 1, 1, 1, 0, 0, 0, 1, 1, 1]);
+	const fullArray = new Float32Array([1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]);
+	doc.createAccessor('half').setType('VEC3').setArray(halfArray).setSparse(true);
+
+	const io = (await createPlatformIO()).setLogger(logger);
+	await io.writeJSON(doc, { basename: 'test' });
+	t.deepEquals(warnings, [], 'no warning when sparse storage is smaller');
+
+	doc.createAccessor('full').setType('VEC3').setArray(fullArray).setSparse(true);
+	await io.writeJSON(doc, { basename: 'test' });
+	t.equals(warnings.length, 1, 'warning when sparse storage is larger');
+	t.end();
+});
+
 test('@gltf-transform/core::accessor | minmax', (t) => {
 	const doc = new Document();
 	const accessor = doc
@@ -1,6 +1,6 @@
 import test from 'tape';
 import { createPlatformIO } from '../../../test-utils';
-import { Accessor, Document } from '@gltf-transform/core';
+import { Accessor, AnimationSampler, Document, Logger, Node, Skin } from '@gltf-transform/core';
 
 test('@gltf-transform/core::animation', async (t) => {
 	const doc = new Document();
@@ -64,6 +64,110 @@ test('@gltf-transform/core::animation', async (t) => {
 	t.end();
 });
 
+test('@gltf-transform/core::animation | pointer', async (t) => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const input = doc.createAccessor().setArray(new Float32Array([0, 1])).setBuffer(buffer);
+	const output = doc
+		.createAccessor()
+		.setArray(new Float32Array([1, 0, 0, 1, 0, 0, 1, 1]))
+		.setType(Accessor.Type.VEC4)
+		.setBuffer(buffer);
+	const sampler = doc.createAnimationSampler().setInput(input).setOutput(output);
+
+	doc.createMaterial('Unused');
+	const material = doc.createMaterial('Paint');
+	const colorChannel = doc
+		.createAnimationChannel('color')
+		.setTargetPath('pointer')
+		.setTargetProperty(material)
+		.setTargetPointer('/pbrMetallicRoughness/baseColorFactor')
+		.setSampler(sampler);
+	const invalidChannel = doc
+		.createAnimationChannel('invalid')
+		.setTargetPath('pointer')
+		.setTargetProperty(doc.createSkin())
+		.setTargetPointer('/name')
+		.setSampler(sampler);
+	doc.createAnimation().addChannel(colorChannel).addChannel(invalidChannel).addSampler(sampler);
+
+	const io = (await createPlatformIO()).setLogger(new Logger(Logger.Verbosity.SILENT));
+	const options = { basename: 'pointerTest' };
+	const jsonDoc = await io.writeJSON(doc, options);
+
+	t.deepEqual(jsonDoc.json.extensionsUsed, ['KHR_animation_pointer'], 'extensionsUsed');
+	t.deepEqual(
+		jsonDoc.json.animations[0].channels,
+		[
+			{
+				name: 'color',
+				sampler: 0,
+				target: {
+					path: 'pointer',
+					extensions: {
+						KHR_animation_pointer: { pointer: '/materials/1/pbrMetallicRoughness/baseColorFactor' },
+					},
+				},
+			},
+		],
+		'writes pointer channel'
+	);
+
+	const channel = (await io.readJSON(jsonDoc)).getRoot().listAnimations()[0].listChannels()[0];
+	t.equals(channel.getTargetPath(), 'pointer', 'reads path');
+	t.equals(channel.getTargetProperty().getName(), 'Paint', 'reads target property');
+	t.equals(channel.getTargetPointer(), '/pbrMetallicRoughness/baseColorFactor', 'reads target pointer');
+	t.equals(channel.getTargetNode(), null, 'no target node');
+	t.end();
+});
+
+test('@gltf-transform/core::animation | pointer, unsupported', async (t) => {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const input = doc
+		.createAccessor()
+		.setArray(new Float32Array([0, 1]))
+		.setBuffer(buffer);
+	const output = doc
+		.createAccessor()
+		.setArray(new Float32Array([0, 1]))
+		.setBuffer(buffer);
+	const skin = doc.createSkin();
+	const node = doc.createNode();
+	const createPointerChannel = (target: Skin | Node, pointer: string, sampler: AnimationSampler) =>
+		doc
+			.createAnimationChannel()
+			.setTargetPath('pointer')
+			.setTargetProperty(target)
+			.setTargetPointer(pointer)
+			.setSampler(sampler);
+
+	const samplerA = doc.createAnimationSampler().setInput(input).setOutput(output);
+	const samplerB = doc.createAnimationSampler().setInput(input).setOutput(output);
+	doc.createAnimation('Mixed')
+		.addChannel(createPointerChannel(skin, '/name', samplerA))
+		.addChannel(createPointerChannel(node, '/weights', samplerB))
+		.addSampler(samplerA)
+		.addSampler(samplerB);
+
+	const samplerC = doc.createAnimationSampler().setInput(input).setOutput(output);
+	doc.createAnimation('Unsupported').addChannel(createPointerChannel(skin, '/name', samplerC)).addSampler(samplerC);
+
+	const io = (await createPlatformIO()).setLogger(new Logger(Logger.Verbosity.SILENT));
+	const jsonDoc = await io.writeJSON(doc, { basename: 'pointerTest' });
+	const animationDefs = jsonDoc.json.animations;
+
+	t.deepEqual(
+		animationDefs.map((animationDef) => animationDef.name),
+		['Mixed'],
+		'skips animation without supported channels'
+	);
+	t.equals(animationDefs[0].samplers.length, 1, 'drops orphaned samplers');
+	t.equals(animationDefs[0].channels.length, 1, 'drops unsupported channels');
+	t.equals(animationDefs[0].channels[0].sampler, 0, 'remaps sampler index');
+	t.end();
+});
+
 test('@gltf-transform/core::animation | copy', (t) => {
 	const doc = new Document();
 	const a = doc
@@ -83,11 +187,15 @@ test('@gltf-transform/core::animationChannel | copy', (t) => {
 	const a = doc
 		.createAnimationChannel('MyChannel')
 		.setTargetNode(doc.createNode())
+		.setTargetProperty(doc.createMaterial())
+		.setTargetPointer('/emissiveFactor')
 		.setSampler(doc.createAnimationSampler());
 	const b = doc.createAnimationChannel().copy(a);
 
 	t.equal(b.getName(), a.getName(), 'copy name');
 	t.equal(b.getTargetNode(), a.getTargetNode(), 'copy targetNode');
+	t.equal(b.getTargetProperty(), a.getTargetProperty(), 'copy targetProperty');
+	t.equal(b.getTargetPointer(), a.getTargetPointer(), 'copy targetPointer');
 	t.equal(b.getSampler(), a.getSampler(), 'copy sampler');
 	t.end();
 });
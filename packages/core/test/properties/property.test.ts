@@ -18,3 +18,19 @@ test('@gltf-transform/core::property | equals', async (t) => {
 	t.notOk(nodeA.equals(nodeB), 'different extras');
 	t.end();
 });
+
+test('@gltf-transform/core::property | equals skip', async (t) => {
+	const document = new Document();
+	const textureA = document.createTexture('A').setImage(new Uint8Array([1, 2, 3]));
+	const textureB = document.createTexture('B').setImage(new Uint8Array([1, 2, 3]));
+	const materialA = document.createMaterial('A').setBaseColorTexture(textureA);
+	const materialB = document.createMaterial('B').setBaseColorTexture(textureB);
+
+	t.notOk(materialA.equals(materialB), 'different names');
+	t.ok(materialA.equals(materialB, new Set(['name'])), 'skip names');
+
+	textureB.setImage(new Uint8Array([4, 5, 6]));
+
+	t.notOk(materialA.equals(materialB, new Set(['name'])), 'different textures');
+	t.end();
+});
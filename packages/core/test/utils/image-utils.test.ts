@@ -81,3 +81,35 @@ test('@gltf-transform/core::image-utils | extensions', (t) => {
 	t.equals(ImageUtils.mimeTypeToExtension('image/jpeg'), 'jpg', 'mimeTypeToExtension, jpg');
 	t.end();
 });
+
+test('@gltf-transform/core::image-utils | codecs', async (t) => {
+	const image = new Uint8Array([1, 2, 3]);
+	const pixels = {
+		shape: [1, 1, 4],
+		stride: [4, 4, 1],
+		offset: 0,
+		get: () => 255,
+		set: () => 255,
+	};
+
+	t.equals(ImageUtils.getCodec('image/x-test'), null, 'no codec');
+	await ImageUtils.decodePixels(image, 'image/x-test').then(
+		() => t.fail('decodes without codec'),
+		(e) => t.ok(/No codec registered/.test(e.message), 'decode throws without codec')
+	);
+	await ImageUtils.encodePixels(pixels, 'image/x-test').then(
+		() => t.fail('encodes without codec'),
+		(e) => t.ok(/No codec registered/.test(e.message), 'encode throws without codec')
+	);
+
+	const codec = {
+		decode: async () => pixels,
+		encode: async () => image,
+	};
+	ImageUtils.registerCodec('image/x-test', codec);
+
+	t.equals(ImageUtils.getCodec('image/x-test'), codec, 'registers codec');
+	t.equals(await ImageUtils.decodePixels(image, 'image/x-test'), pixels, 'decodes');
+	t.equals(await ImageUtils.encodePixels(pixels, 'image/x-test'), image, 'encodes');
+	t.end();
+});
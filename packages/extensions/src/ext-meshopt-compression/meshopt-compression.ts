@@ -293,6 +293,9 @@ export class MeshoptCompression extends Extension {
 			// Example: https://skfb.ly/6qAD8
 			if (getTargetPath(accessor) === 'weights') continue;
 
+			// Sparse accessors are left to the writer, retaining sparse storage.
+			if (accessor.getSparse()) continue;
+
 			const usage = context.getAccessorUsage(accessor);
 			const mode = getMeshoptMode(accessor, usage);
 			const filter =
@@ -0,0 +1 @@
+export * from './texture-avif';
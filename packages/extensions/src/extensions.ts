@@ -2,9 +2,11 @@
 
 import { MeshGPUInstancing } from './ext-mesh-gpu-instancing';
 import { MeshoptCompression } from './ext-meshopt-compression';
+import { TextureAVIF } from './ext-texture-avif';
 import { TextureWebP } from './ext-texture-webp';
 import { DracoMeshCompression } from './khr-draco-mesh-compression';
 import { LightsPunctual } from './khr-lights-punctual';
+import { MaterialsAnisotropy } from './khr-materials-anisotropy';
 import { MaterialsClearcoat } from './khr-materials-clearcoat';
 import { MaterialsEmissiveStrength } from './khr-materials-emissive-strength';
 import { MaterialsIOR } from './khr-materials-ior';
@@ -20,10 +22,12 @@ import { MeshQuantization } from './khr-mesh-quantization';
 import { TextureBasisu } from './khr-texture-basisu';
 import { TextureTransform } from './khr-texture-transform';
 import { XMP } from './khr-xmp-json-ld';
+import { LevelOfDetail } from './msft-lod';
 
 export const KHRONOS_EXTENSIONS = [
 	DracoMeshCompression,
 	LightsPunctual,
+	MaterialsAnisotropy,
 	MaterialsClearcoat,
 	MaterialsEmissiveStrength,
 	MaterialsIOR,
@@ -41,13 +45,22 @@ export const KHRONOS_EXTENSIONS = [
 	XMP,
 ];
 
-export const ALL_EXTENSIONS = [MeshGPUInstancing, MeshoptCompression, TextureWebP, ...KHRONOS_EXTENSIONS];
+export const ALL_EXTENSIONS = [
+	LevelOfDetail,
+	MeshGPUInstancing,
+	MeshoptCompression,
+	TextureAVIF,
+	TextureWebP,
+	...KHRONOS_EXTENSIONS,
+];
 
 export * from './ext-mesh-gpu-instancing';
 export * from './ext-meshopt-compression';
+export * from './ext-texture-avif';
 export * from './ext-texture-webp';
 export * from './khr-draco-mesh-compression';
 export * from './khr-lights-punctual';
+export * from './khr-materials-anisotropy';
 export * from './khr-materials-clearcoat';
 export * from './khr-materials-emissive-strength';
 export * from './khr-materials-ior';
@@ -63,3 +76,4 @@ export * from './khr-mesh-quantization';
 export * from './khr-texture-basisu';
 export * from './khr-texture-transform';
 export * from './khr-xmp-json-ld';
+export * from './msft-lod';
@@ -91,6 +91,8 @@ export class LightsPunctual extends Extension {
 			return light;
 		});
 
+		lights.forEach((light, index) => context.pointers.set(`/extensions/${NAME}/lights/${index}`, light));
+
 		jsonDoc.json.nodes!.forEach((nodeDef, nodeIndex) => {
 			if (!nodeDef.extensions || !nodeDef.extensions[NAME]) return;
 			const lightNodeDef = nodeDef.extensions[NAME] as LightsPunctualNodeDef;
@@ -128,6 +130,7 @@ export class LightsPunctual extends Extension {
 
 			lightDefs.push(lightDef);
 			lightIndexMap.set(light, lightDefs.length - 1);
+			context.pointerMap.set(light, `/extensions/${NAME}/lights/${lightDefs.length - 1}`);
 		}
 
 		this.document
@@ -0,0 +1,104 @@
+import {
+	ExtensionProperty,
+	IProperty,
+	Nullable,
+	PropertyType,
+	Texture,
+	TextureChannel,
+	TextureInfo,
+} from '@gltf-transform/core';
+import { KHR_MATERIALS_ANISOTROPY } from '../constants';
+
+interface IAnisotropy extends IProperty {
+	anisotropyStrength: number;
+	anisotropyRotation: number;
+	anisotropyTexture: Texture;
+	anisotropyTextureInfo: TextureInfo;
+}
+
+const { R, G, B } = TextureChannel;
+
+/**
+ * # Anisotropy
+ *
+ * Defines anisotropy (directionally-dependent reflections) for a PBR material. See
+ * {@link MaterialsAnisotropy}.
+ */
+export class Anisotropy extends ExtensionProperty<IAnisotropy> {
+	public static EXTENSION_NAME = KHR_MATERIALS_ANISOTROPY;
+	public declare extensionName: typeof KHR_MATERIALS_ANISOTROPY;
+	public declare propertyType: 'Anisotropy';
+	public declare parentTypes: [PropertyType.MATERIAL];
+
+	protected init(): void {
+		this.extensionName = KHR_MATERIALS_ANISOTROPY;
+		this.propertyType = 'Anisotropy';
+		this.parentTypes = [PropertyType.MATERIAL];
+	}
+
+	protected getDefaults(): Nullable<IAnisotropy> {
+		return Object.assign(super.getDefaults() as IProperty, {
+			anisotropyStrength: 0.0,
+			anisotropyRotation: 0.0,
+			anisotropyTexture: null,
+			anisotropyTextureInfo: new TextureInfo(this.graph, 'anisotropyTextureInfo'),
+		});
+	}
+
+	/**********************************************************************************************
+	 * Anisotropy strength.
+	 */
+
+	/** Anisotropy strength; linear multiplier. See {@link getAnisotropyTexture}. */
+	public getAnisotropyStrength(): number {
+		return this.get('anisotropyStrength');
+	}
+
+	/** Anisotropy strength; linear multiplier. See {@link getAnisotropyTexture}. */
+	public setAnisotropyStrength(strength: number): this {
+		return this.set('anisotropyStrength', strength);
+	}
+
+	/**********************************************************************************************
+	 * Anisotropy rotation.
+	 */
+
+	/**
+	 * Anisotropy rotation; rotation of the anisotropy direction in tangent space, measured in
+	 * radians counter-clockwise from the tangent.
+	 */
+	public getAnisotropyRotation(): number {
+		return this.get('anisotropyRotation');
+	}
+
+	/** Anisotropy rotation. See {@link getAnisotropyRotation}. */
+	public setAnisotropyRotation(rotation: number): this {
+		return this.set('anisotropyRotation', rotation);
+	}
+
+	/**********************************************************************************************
+	 * Anisotropy texture.
+	 */
+
+	/**
+	 * Anisotropy texture. The `rg` channels define the anisotropy direction in [-1, 1] tangent
+	 * space, rotated by {@link getAnisotropyRotation}. The `b` channel defines anisotropy
+	 * strength, multiplied by {@link getAnisotropyStrength}.
+	 */
+	public getAnisotropyTexture(): Texture | null {
+		return this.getRef('anisotropyTexture');
+	}
+
+	/**
+	 * Settings affecting the material's use of its anisotropy texture. If no texture is attached,
+	 * {@link TextureInfo} is `null`.
+	 */
+	public getAnisotropyTextureInfo(): TextureInfo | null {
+		return this.getRef('anisotropyTexture') ? this.getRef('anisotropyTextureInfo') : null;
+	}
+
+	/** Sets anisotropy texture. See {@link getAnisotropyTexture}. */
+	public setAnisotropyTexture(texture: Texture | null): this {
+		return this.setRef('anisotropyTexture', texture, { channels: R | G | B });
+	}
+}
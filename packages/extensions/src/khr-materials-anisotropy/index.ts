@@ -0,0 +1,2 @@
+export * from './materials-anisotropy';
+export * from './anisotropy';
@@ -0,0 +1,119 @@
+import { Extension, GLTF, ReaderContext, WriterContext } from '@gltf-transform/core';
+import { KHR_MATERIALS_ANISOTROPY } from '../constants';
+import { Anisotropy } from './anisotropy';
+
+const NAME = KHR_MATERIALS_ANISOTROPY;
+
+interface AnisotropyDef {
+	anisotropyStrength?: number;
+	anisotropyRotation?: number;
+	anisotropyTexture?: GLTF.ITextureInfo;
+}
+
+/**
+ * # MaterialsAnisotropy
+ *
+ * [KHR_materials_anisotropy](https://github.com/KhronosGroup/gltf/blob/main/extensions/2.0/Khronos/KHR_materials_anisotropy/)
+ * defines anisotropy (directionally-dependent reflections) on a glTF PBR material.
+ *
+ * Anisotropy elongates specular highlights along a direction on the surface of the material.
+ * Commonly used to represent brushed metals, hair, and fabrics.
+ *
+ * Properties:
+ * - {@link Anisotropy}
+ *
+ * ### Example
+ *
+ * ```typescript
+ * import { MaterialsAnisotropy, Anisotropy } from '@gltf-transform/extensions';
+ *
+ * // Create an Extension attached to the Document.
+ * const anisotropyExtension = document.createExtension(MaterialsAnisotropy);
+ *
+ * // Create Anisotropy property.
+ * const anisotropy = anisotropyExtension.createAnisotropy()
+ *	.setAnisotropyStrength(1.0)
+ *	.setAnisotropyRotation(Math.PI / 4);
+ *
+ * // Assign to a Material.
+ * material.setExtension('KHR_materials_anisotropy', anisotropy);
+ * ```
+ */
+export class MaterialsAnisotropy extends Extension {
+	public readonly extensionName = NAME;
+	public static readonly EXTENSION_NAME = NAME;
+
+	/** Creates a new Anisotropy property for use on a {@link Material}. */
+	public createAnisotropy(): Anisotropy {
+		return new Anisotropy(this.document.getGraph());
+	}
+
+	/** @hidden */
+	public read(context: ReaderContext): this {
+		const jsonDoc = context.jsonDoc;
+		const materialDefs = jsonDoc.json.materials || [];
+		const textureDefs = jsonDoc.json.textures || [];
+		materialDefs.forEach((materialDef, materialIndex) => {
+			if (materialDef.extensions && materialDef.extensions[NAME]) {
+				const anisotropy = this.createAnisotropy();
+				context.materials[materialIndex].setExtension(NAME, anisotropy);
+
+				const anisotropyDef = materialDef.extensions[NAME] as AnisotropyDef;
+
+				// Factors.
+
+				if (anisotropyDef.anisotropyStrength !== undefined) {
+					anisotropy.setAnisotropyStrength(anisotropyDef.anisotropyStrength);
+				}
+				if (anisotropyDef.anisotropyRotation !== undefined) {
+					anisotropy.setAnisotropyRotation(anisotropyDef.anisotropyRotation);
+				}
+
+				// Textures.
+
+				if (anisotropyDef.anisotropyTexture !== undefined) {
+					const textureInfoDef = anisotropyDef.anisotropyTexture;
+					const texture = context.textures[textureDefs[textureInfoDef.index].source!];
+					anisotropy.setAnisotropyTexture(texture);
+					context.setTextureInfo(anisotropy.getAnisotropyTextureInfo()!, textureInfoDef);
+				}
+			}
+		});
+
+		return this;
+	}
+
+	/** @hidden */
+	public write(context: WriterContext): this {
+		const jsonDoc = context.jsonDoc;
+
+		this.document
+			.getRoot()
+			.listMaterials()
+			.forEach((material) => {
+				const anisotropy = material.getExtension<Anisotropy>(NAME);
+				if (anisotropy) {
+					const materialIndex = context.materialIndexMap.get(material)!;
+					const materialDef = jsonDoc.json.materials![materialIndex];
+					materialDef.extensions = materialDef.extensions || {};
+
+					// Factors.
+
+					const anisotropyDef = (materialDef.extensions[NAME] = {
+						anisotropyStrength: anisotropy.getAnisotropyStrength(),
+						anisotropyRotation: anisotropy.getAnisotropyRotation(),
+					} as AnisotropyDef);
+
+					// Textures.
+
+					if (anisotropy.getAnisotropyTexture()) {
+						const texture = anisotropy.getAnisotropyTexture()!;
+						const textureInfo = anisotropy.getAnisotropyTextureInfo()!;
+						anisotropyDef.anisotropyTexture = context.createTextureInfoDef(texture, textureInfo);
+					}
+				}
+			});
+
+		return this;
+	}
+}
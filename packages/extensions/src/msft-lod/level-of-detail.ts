@@ -0,0 +1,118 @@
+import { Extension, Material, Node, ReaderContext, WriterContext } from '@gltf-transform/core';
+import { MSFT_LOD } from '../constants';
+import { LOD } from './lod';
+
+const NAME = MSFT_LOD;
+
+interface LODDef {
+	ids: number[];
+}
+
+/**
+ * # LevelOfDetail
+ *
+ * [`MSFT_lod`](https://github.com/KhronosGroup/glTF/tree/main/extensions/2.0/Vendor/MSFT_lod/)
+ * defines lower levels of detail (LODs) for {@link Node}s and {@link Material}s.
+ *
+ * [[include:VENDOR_EXTENSIONS_NOTE.md]]
+ *
+ * Each {@link LOD} lists lower levels of detail, ordered from highest to lowest detail, that a
+ * viewer may display in place of the original Node or Material when the object is small on
+ * screen. LOD Nodes replace the original Node and its {@link Mesh}, and should not be added to
+ * the {@link Scene} themselves. Viewers choose levels by screen coverage, given by the
+ * `MSFT_screencoverage` array in the original Node's extras, with one value for each level
+ * including the original. For example, `[0.5, 0.2, 0.01]` displays the original Node above 50%
+ * screen coverage, the first LOD above 20%, and the second LOD above 1%. Viewers that do not
+ * support the extension display the original Node or Material.
+ *
+ * LODs may be generated from existing meshes with the `lod()` function, in
+ * `@gltf-transform/functions`.
+ *
+ * Properties:
+ * - {@link LOD}
+ *
+ * ### Example
+ *
+ * ```typescript
+ * import { LevelOfDetail } from '@gltf-transform/extensions';
+ *
+ * // Create an Extension attached to the Document.
+ * const lodExtension = document.createExtension(LevelOfDetail);
+ *
+ * // Create LOD Nodes, with simplified meshes, and attach them to the original Node.
+ * const lod = lodExtension.createLOD()
+ * 	.addLevel(document.createNode('Tree_LOD1').setMesh(treeMeshLOD1))
+ * 	.addLevel(document.createNode('Tree_LOD2').setMesh(treeMeshLOD2));
+ *
+ * node
+ * 	.setExtension('MSFT_lod', lod)
+ * 	.setExtras({ MSFT_screencoverage: [0.5, 0.2, 0.01] });
+ * ```
+ */
+export class LevelOfDetail extends Extension {
+	public readonly extensionName = NAME;
+	public static readonly EXTENSION_NAME = NAME;
+
+	/** Creates a new LOD property for use on a {@link Node} or {@link Material}. */
+	public createLOD(): LOD {
+		return new LOD(this.document.getGraph());
+	}
+
+	/** @hidden */
+	public read(context: ReaderContext): this {
+		const jsonDoc = context.jsonDoc;
+
+		const nodeDefs = jsonDoc.json.nodes || [];
+		nodeDefs.forEach((nodeDef, nodeIndex) => {
+			if (!nodeDef.extensions || !nodeDef.extensions[NAME]) return;
+
+			const lodDef = nodeDef.extensions[NAME] as LODDef;
+			const lod = this.createLOD();
+			for (const id of lodDef.ids || []) lod.addLevel(context.nodes[id]);
+			context.nodes[nodeIndex].setExtension(NAME, lod);
+		});
+
+		const materialDefs = jsonDoc.json.materials || [];
+		materialDefs.forEach((materialDef, materialIndex) => {
+			if (!materialDef.extensions || !materialDef.extensions[NAME]) return;
+
+			const lodDef = materialDef.extensions[NAME] as LODDef;
+			const lod = this.createLOD();
+			for (const id of lodDef.ids || []) lod.addLevel(context.materials[id]);
+			context.materials[materialIndex].setExtension(NAME, lod);
+		});
+
+		return this;
+	}
+
+	/** @hidden */
+	public write(context: WriterContext): this {
+		const jsonDoc = context.jsonDoc;
+
+		for (const node of this.document.getRoot().listNodes()) {
+			const lod = node.getExtension<LOD>(NAME);
+			if (!lod) continue;
+
+			const nodeDef = jsonDoc.json.nodes![context.nodeIndexMap.get(node)!];
+			const levels = lod.listLevels().filter((level) => level instanceof Node) as Node[];
+
+			nodeDef.extensions = nodeDef.extensions || {};
+			nodeDef.extensions[NAME] = { ids: levels.map((level) => context.nodeIndexMap.get(level)!) } as LODDef;
+		}
+
+		for (const material of this.document.getRoot().listMaterials()) {
+			const lod = material.getExtension<LOD>(NAME);
+			if (!lod) continue;
+
+			const materialDef = jsonDoc.json.materials![context.materialIndexMap.get(material)!];
+			const levels = lod.listLevels().filter((level) => level instanceof Material) as Material[];
+
+			materialDef.extensions = materialDef.extensions || {};
+			materialDef.extensions[NAME] = {
+				ids: levels.map((level) => context.materialIndexMap.get(level)!),
+			} as LODDef;
+		}
+
+		return this;
+	}
+}
@@ -0,0 +1,47 @@
+import { ExtensionProperty, IProperty, Material, Node, Nullable, PropertyType } from '@gltf-transform/core';
+import { MSFT_LOD } from '../constants';
+
+interface ILOD extends IProperty {
+	levels: (Node | Material)[];
+}
+
+/**
+ * # LOD
+ *
+ * Defines lower levels of detail for a {@link Node} or {@link Material}. See {@link LevelOfDetail}.
+ */
+export class LOD extends ExtensionProperty<ILOD> {
+	public static EXTENSION_NAME = MSFT_LOD;
+	public declare extensionName: typeof MSFT_LOD;
+	public declare propertyType: 'LOD';
+	public declare parentTypes: [PropertyType.NODE, PropertyType.MATERIAL];
+
+	protected init(): void {
+		this.extensionName = MSFT_LOD;
+		this.propertyType = 'LOD';
+		this.parentTypes = [PropertyType.NODE, PropertyType.MATERIAL];
+	}
+
+	protected getDefaults(): Nullable<ILOD> {
+		return Object.assign(super.getDefaults() as IProperty, { levels: [] });
+	}
+
+	/**
+	 * Adds a lower level of detail. Levels are ordered from highest to lowest detail, and must
+	 * be of the same type as the parent: {@link Node}s for a Node, and {@link Material}s for a
+	 * Material.
+	 */
+	public addLevel(level: Node | Material): this {
+		return this.addRef('levels', level);
+	}
+
+	/** Removes a level of detail. */
+	public removeLevel(level: Node | Material): this {
+		return this.removeRef('levels', level);
+	}
+
+	/** Lists lower levels of detail, from highest to lowest detail. */
+	public listLevels(): (Node | Material)[] {
+		return this.listRefs('levels');
+	}
+}
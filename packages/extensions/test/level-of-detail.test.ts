@@ -0,0 +1,71 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { LevelOfDetail, LOD } from '../';
+
+const WRITER_OPTIONS = { basename: 'extensionTest' };
+
+const io = new NodeIO().registerExtensions([LevelOfDetail]);
+
+test('@gltf-transform/extensions::level-of-detail', async (t) => {
+	const doc = new Document();
+	const lodExtension = doc.createExtension(LevelOfDetail);
+
+	const nodeLOD1 = doc.createNode('LOD1');
+	const nodeLOD2 = doc.createNode('LOD2');
+	const nodeLOD = lodExtension.createLOD().addLevel(nodeLOD1).addLevel(nodeLOD2);
+	const node = doc
+		.createNode('LOD0')
+		.setExtension('MSFT_lod', nodeLOD)
+		.setExtras({ MSFT_screencoverage: [0.5, 0.2, 0.01] });
+	doc.createScene().addChild(node);
+
+	const materialLOD1 = doc.createMaterial('MaterialLOD1');
+	const materialLOD = lodExtension.createLOD().addLevel(materialLOD1);
+	const material = doc.createMaterial('MaterialLOD0').setExtension('MSFT_lod', materialLOD);
+
+	t.deepEqual(nodeLOD.listLevels(), [nodeLOD1, nodeLOD2], 'lists node levels');
+	t.deepEqual(materialLOD.listLevels(), [materialLOD1], 'lists material levels');
+
+	const jsonDoc = await io.writeJSON(doc, WRITER_OPTIONS);
+	const nodeDefs = jsonDoc.json.nodes;
+	const materialDefs = jsonDoc.json.materials;
+
+	t.deepEqual(nodeDefs[2].extensions, { MSFT_lod: { ids: [0, 1] } }, 'writes node LOD');
+	t.deepEqual(nodeDefs[2].extras, { MSFT_screencoverage: [0.5, 0.2, 0.01] }, 'writes screen coverage');
+	t.deepEqual(materialDefs[1].extensions, { MSFT_lod: { ids: [0] } }, 'writes material LOD');
+	t.deepEqual(jsonDoc.json.extensionsUsed, ['MSFT_lod'], 'writes extensionsUsed');
+
+	const rtDoc = await io.readJSON(jsonDoc);
+	const rtNodes = rtDoc.getRoot().listNodes();
+	const rtMaterials = rtDoc.getRoot().listMaterials();
+	const rtNodeLOD = rtNodes[2].getExtension<LOD>('MSFT_lod');
+	const rtMaterialLOD = rtMaterials[1].getExtension<LOD>('MSFT_lod');
+
+	t.deepEqual(rtNodeLOD.listLevels(), [rtNodes[0], rtNodes[1]], 'reads node LOD');
+	t.deepEqual(rtMaterialLOD.listLevels(), [rtMaterials[0]], 'reads material LOD');
+
+	nodeLOD1.dispose();
+	t.deepEqual(nodeLOD.listLevels(), [nodeLOD2], 'removes disposed levels');
+
+	lodExtension.dispose();
+	t.equal(node.getExtension('MSFT_lod'), null, 'node LOD is detached');
+	t.equal(material.getExtension('MSFT_lod'), null, 'material LOD is detached');
+	t.end();
+});
+
+test('@gltf-transform/extensions::level-of-detail | copy', (t) => {
+	const doc = new Document();
+	const lodExtension = doc.createExtension(LevelOfDetail);
+	const nodeLOD1 = doc.createNode('LOD1');
+	doc.createNode('LOD0').setExtension('MSFT_lod', lodExtension.createLOD().addLevel(nodeLOD1));
+
+	const doc2 = doc.clone();
+	const [rtNodeLOD1, rtNode] = doc2.getRoot().listNodes();
+	const lod2 = rtNode.getExtension<LOD>('MSFT_lod');
+	t.equals(doc2.getRoot().listExtensionsUsed().length, 1, 'copy LevelOfDetail');
+	t.ok(lod2, 'copy LOD');
+	t.deepEqual(lod2.listLevels(), [rtNodeLOD1], 'copy levels');
+	t.end();
+});
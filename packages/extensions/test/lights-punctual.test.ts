@@ -113,3 +113,41 @@ test('@gltf-transform/extensions::lights-punctual | i/o', async (t) => {
 	});
 	t.end();
 });
+
+test('@gltf-transform/extensions::lights-punctual | animation pointer', async (t) => {
+	const doc = new Document();
+	const lightsExtension = doc.createExtension(LightsPunctual);
+	const light = lightsExtension.createLight().setType(Light.Type.POINT);
+	doc.createNode().setExtension('KHR_lights_punctual', light);
+
+	const buffer = doc.createBuffer();
+	const sampler = doc
+		.createAnimationSampler()
+		.setInput(doc.createAccessor().setArray(new Float32Array([0, 1])).setBuffer(buffer))
+		.setOutput(doc.createAccessor().setArray(new Float32Array([1, 2])).setBuffer(buffer));
+	const channel = doc
+		.createAnimationChannel()
+		.setTargetPath('pointer')
+		.setTargetProperty(light)
+		.setTargetPointer('/intensity')
+		.setSampler(sampler);
+	doc.createAnimation().addChannel(channel).addSampler(sampler);
+
+	const io = new NodeIO().registerExtensions([LightsPunctual]);
+	const jsonDoc = await io.writeJSON(doc, WRITER_OPTIONS);
+	const channelDef = jsonDoc.json.animations[0].channels[0];
+
+	t.deepEqual(
+		channelDef.target.extensions,
+		{ KHR_animation_pointer: { pointer: '/extensions/KHR_lights_punctual/lights/0/intensity' } },
+		'writes pointer'
+	);
+
+	const doc2 = await io.readJSON(jsonDoc);
+	const channel2 = doc2.getRoot().listAnimations()[0].listChannels()[0];
+	const light2 = doc2.getRoot().listNodes()[0].getExtension('KHR_lights_punctual');
+
+	t.equal(channel2.getTargetProperty(), light2, 'reads target property');
+	t.equal(channel2.getTargetPointer(), '/intensity', 'reads target pointer');
+	t.end();
+});
@@ -0,0 +1,107 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, NodeIO } from '@gltf-transform/core';
+import { Anisotropy, MaterialsAnisotropy } from '../';
+
+const WRITER_OPTIONS = { basename: 'extensionTest' };
+
+test('@gltf-transform/extensions::materials-anisotropy | factors', async (t) => {
+	const doc = new Document();
+	const anisotropyExtension = doc.createExtension(MaterialsAnisotropy);
+	const anisotropy = anisotropyExtension.createAnisotropy().setAnisotropyStrength(0.9).setAnisotropyRotation(0.5);
+
+	doc.createMaterial('MyAnisotropyMaterial')
+		.setBaseColorFactor([1.0, 0.5, 0.5, 1.0])
+		.setExtension('KHR_materials_anisotropy', anisotropy);
+
+	const io = new NodeIO().registerExtensions([MaterialsAnisotropy]);
+	const roundtripDoc = await io.readJSON(await io.writeJSON(doc));
+	const roundtripMat = roundtripDoc.getRoot().listMaterials().pop();
+	const roundtripExt = roundtripMat.getExtension<Anisotropy>('KHR_materials_anisotropy');
+
+	t.equal(roundtripExt.getAnisotropyStrength(), 0.9, 'reads anisotropyStrength');
+	t.equal(roundtripExt.getAnisotropyRotation(), 0.5, 'reads anisotropyRotation');
+	t.end();
+});
+
+test('@gltf-transform/extensions::materials-anisotropy | textures', async (t) => {
+	const doc = new Document();
+	doc.createBuffer();
+	const anisotropyExtension = doc.createExtension(MaterialsAnisotropy);
+	const anisotropy = anisotropyExtension
+		.createAnisotropy()
+		.setAnisotropyStrength(0.9)
+		.setAnisotropyRotation(0.5)
+		.setAnisotropyTexture(doc.createTexture().setImage(new Uint8Array(1)));
+	anisotropy.getAnisotropyTextureInfo().setTexCoord(1);
+
+	const mat = doc
+		.createMaterial('MyAnisotropyMaterial')
+		.setBaseColorFactor([1.0, 0.5, 0.5, 1.0])
+		.setExtension('KHR_materials_anisotropy', anisotropy);
+
+	t.equal(mat.getExtension('KHR_materials_anisotropy'), anisotropy, 'anisotropy is attached');
+
+	const jsonDoc = await new NodeIO().registerExtensions([MaterialsAnisotropy]).writeJSON(doc, WRITER_OPTIONS);
+	const materialDef = jsonDoc.json.materials[0];
+
+	t.deepEqual(materialDef.pbrMetallicRoughness.baseColorFactor, [1.0, 0.5, 0.5, 1.0], 'writes base color');
+	t.deepEqual(
+		materialDef.extensions,
+		{
+			KHR_materials_anisotropy: {
+				anisotropyStrength: 0.9,
+				anisotropyRotation: 0.5,
+				anisotropyTexture: { index: 0, texCoord: 1 },
+			},
+		},
+		'writes anisotropy extension'
+	);
+	t.deepEqual(jsonDoc.json.extensionsUsed, [MaterialsAnisotropy.EXTENSION_NAME], 'writes extensionsUsed');
+
+	anisotropyExtension.dispose();
+	t.equal(mat.getExtension('KHR_materials_anisotropy'), null, 'anisotropy is detached');
+
+	const roundtripDoc = await new NodeIO().registerExtensions([MaterialsAnisotropy]).readJSON(jsonDoc);
+	const roundtripMat = roundtripDoc.getRoot().listMaterials().pop();
+	const roundtripExt = roundtripMat.getExtension<Anisotropy>('KHR_materials_anisotropy');
+
+	t.equal(roundtripExt.getAnisotropyStrength(), 0.9, 'reads anisotropyStrength');
+	t.equal(roundtripExt.getAnisotropyRotation(), 0.5, 'reads anisotropyRotation');
+	t.ok(roundtripExt.getAnisotropyTexture(), 'reads anisotropyTexture');
+	t.equal(roundtripExt.getAnisotropyTextureInfo().getTexCoord(), 1, 'reads anisotropyTextureInfo');
+	t.end();
+});
+
+test('@gltf-transform/extensions::materials-anisotropy | disabled', async (t) => {
+	const doc = new Document();
+	doc.createExtension(MaterialsAnisotropy);
+	doc.createMaterial();
+
+	const io = new NodeIO().registerExtensions([MaterialsAnisotropy]);
+	const roundtripDoc = await io.readJSON(await io.writeJSON(doc));
+	const roundtripMat = roundtripDoc.getRoot().listMaterials().pop();
+	t.equals(roundtripMat.getExtension('KHR_materials_anisotropy'), null, 'no effect when not attached');
+	t.end();
+});
+
+test('@gltf-transform/extensions::materials-anisotropy | copy', (t) => {
+	const doc = new Document();
+	const anisotropyExtension = doc.createExtension(MaterialsAnisotropy);
+	const anisotropy = anisotropyExtension
+		.createAnisotropy()
+		.setAnisotropyStrength(0.9)
+		.setAnisotropyRotation(0.5)
+		.setAnisotropyTexture(doc.createTexture('aniso'));
+	doc.createMaterial().setExtension('KHR_materials_anisotropy', anisotropy);
+
+	const doc2 = doc.clone();
+	const anisotropy2 = doc2.getRoot().listMaterials()[0].getExtension<Anisotropy>('KHR_materials_anisotropy');
+	t.equals(doc2.getRoot().listExtensionsUsed().length, 1, 'copy MaterialsAnisotropy');
+	t.ok(anisotropy2, 'copy Anisotropy');
+	t.equals(anisotropy2.getAnisotropyStrength(), 0.9, 'copy anisotropyStrength');
+	t.equals(anisotropy2.getAnisotropyRotation(), 0.5, 'copy anisotropyRotation');
+	t.equals(anisotropy2.getAnisotropyTexture().getName(), 'aniso', 'copy anisotropyTexture');
+	t.end();
+});
@@ -0,0 +1,101 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { BufferUtils, Document, GLTF, ImageUtils, JSONDocument, NodeIO } from '@gltf-transform/core';
+import { TextureAVIF } from '../';
+
+const WRITER_OPTIONS = { basename: 'extensionTest' };
+
+const io = new NodeIO().registerExtensions([TextureAVIF]);
+
+test('@gltf-transform/extensions::texture-avif', async (t) => {
+	const doc = new Document();
+	doc.createBuffer();
+	const avifExtension = doc.createExtension(TextureAVIF);
+	const tex1 = doc.createTexture('AVIFTexture').setMimeType('image/avif').setImage(new Uint8Array(10));
+	const tex2 = doc.createTexture('PNGTexture').setMimeType('image/png').setImage(new Uint8Array(15));
+	doc.createMaterial().setBaseColorTexture(tex1).setEmissiveTexture(tex2);
+
+	let jsonDoc: JSONDocument;
+
+	jsonDoc = await io.writeJSON(doc, WRITER_OPTIONS);
+
+	// Writing to file.
+	t.deepEqual(jsonDoc.json.extensionsUsed, ['EXT_texture_avif'], 'writes extensionsUsed');
+	t.equal(jsonDoc.json.textures[0].source, undefined, 'omits .source on AVIF texture');
+	t.equal(jsonDoc.json.textures[1].source, 1, 'includes .source on PNG texture');
+	t.equal(
+		(jsonDoc.json.textures[0].extensions['EXT_texture_avif'] as GLTF.ITexture).source,
+		0,
+		'includes .source on AVIF extension'
+	);
+
+	// Read (roundtrip) from file.
+	const rtDoc = await io.readJSON(jsonDoc);
+	const rtRoot = rtDoc.getRoot();
+	t.equal(rtRoot.listTextures()[0].getMimeType(), 'image/avif', 'reads AVIF mimetype');
+	t.equal(rtRoot.listTextures()[1].getMimeType(), 'image/png', 'reads PNG mimetype');
+	t.equal(rtRoot.listTextures()[0].getImage().byteLength, 10, 'reads AVIF payload');
+	t.equal(rtRoot.listTextures()[1].getImage().byteLength, 15, 'reads PNG payload');
+
+	// Clean up extension data, revert to core glTF.
+	avifExtension.dispose();
+	tex1.dispose();
+	jsonDoc = await io.writeJSON(doc, WRITER_OPTIONS);
+	t.equal(jsonDoc.json.extensionsUsed, undefined, 'clears extensionsUsed');
+	t.equal(jsonDoc.json.textures.length, 1, 'writes only 1 texture');
+	t.equal(jsonDoc.json.textures[0].source, 0, 'includes .source on PNG texture');
+	t.end();
+});
+
+test('@gltf-transform/core::image-utils | avif', (t) => {
+	const avif = createAVIF('avif', [[256, 128]]);
+	const avifCompatible = createAVIF('mif1', [[256, 128]], ['mif1', 'avif']);
+	const avifTiled = createAVIF('avif', [[64, 64], [512, 256], [512, 256]]);
+	const heic = createAVIF('heic', [[256, 128]]);
+	const avifNoSize = createAVIF('avif', []);
+
+	t.equals(ImageUtils.getMimeType(avif), 'image/avif', 'detects image/avif');
+	t.equals(ImageUtils.getMimeType(avifCompatible), 'image/avif', 'detects image/avif (compatible brand)');
+	t.equals(ImageUtils.getMimeType(heic), null, 'ignores image/heic');
+	t.equals(ImageUtils.getSize(new Uint8Array(8), 'image/avif'), null, 'invalid');
+	t.equals(ImageUtils.getSize(avifNoSize, 'image/avif'), null, 'no size');
+	t.deepEquals(ImageUtils.getSize(avif, 'image/avif'), [256, 128], 'size');
+	t.deepEquals(ImageUtils.getSize(avifCompatible, 'image/avif'), [256, 128], 'size (compatible brand)');
+	t.deepEquals(ImageUtils.getSize(avifTiled, 'image/avif'), [512, 256], 'size (tiled)');
+	t.equals(ImageUtils.getChannels(avif, 'image/avif'), 4, 'channels');
+	t.equals(ImageUtils.getMemSize(avif, 'image/avif'), 174764, 'gpuSize');
+	t.end();
+});
+
+/* UTILITIES */
+
+/** Creates a minimal AVIF container, with 'ispe' properties for the given sizes and no image data. */
+function createAVIF(majorBrand: string, sizes: number[][], compatibleBrands = [majorBrand]): Uint8Array {
+	const ftyp = createBox('ftyp', [
+		BufferUtils.encodeText(majorBrand),
+		new Uint8Array(4), // minor version
+		...compatibleBrands.map((brand) => BufferUtils.encodeText(brand)),
+	]);
+	const ispes = sizes.map(([width, height]) => {
+		const ispe = new Uint8Array(12); // version + flags, width, height
+		const view = new DataView(ispe.buffer);
+		view.setUint32(4, width);
+		view.setUint32(8, height);
+		return createBox('ispe', [ispe]);
+	});
+	const hdlr = createBox('hdlr', [new Uint8Array(24)]);
+	const ipco = createBox('ipco', ispes);
+	const iprp = createBox('iprp', [ipco]);
+	const meta = createBox('meta', [new Uint8Array(4), hdlr, iprp]);
+	const mdat = createBox('mdat', [new Uint8Array(16)]);
+	return BufferUtils.concat([ftyp, meta, mdat]);
+}
+
+function createBox(type: string, children: Uint8Array[]): Uint8Array {
+	const header = new Uint8Array(8);
+	const content = BufferUtils.concat(children);
+	new DataView(header.buffer).setUint32(0, 8 + content.byteLength);
+	header.set(BufferUtils.encodeText(type), 4);
+	return BufferUtils.concat([header, content]);
+}
@@ -0,0 +1,204 @@
+import {
+	Accessor,
+	Document,
+	mat3,
+	mat4,
+	Mesh,
+	Node,
+	Primitive,
+	PrimitiveTarget,
+	PropertyType,
+	Transform,
+	vec3,
+} from '@gltf-transform/core';
+import { invert, multiply } from 'gl-matrix/mat4';
+import { fromMat4, normalFromMat4 } from 'gl-matrix/mat3';
+import { normalize, transformMat3, transformMat4 } from 'gl-matrix/vec3';
+import { prune } from './prune';
+import { createTransform } from './utils';
+
+const NAME = 'bakeSkin';
+
+/** Options for the {@link bakeSkin} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface BakeSkinOptions {}
+
+const BAKE_SKIN_DEFAULTS: Required<BakeSkinOptions> = {};
+
+/**
+ * Bakes the current pose of each {@link Skin} into the vertex data of its skinned
+ * {@link Mesh Meshes}, producing static geometry. Joints are evaluated with their current
+ * local transforms — the bind pose, unless joints have been moved — and animation is not
+ * sampled. Positions, normals, tangents, and morph target deltas are transformed by the
+ * weighted joint matrices, and `JOINTS_n` and `WEIGHTS_n` attributes are removed.
+ *
+ * The baked mesh is placed in the local space of the skinned {@link Node}, such that its
+ * rendered position is unchanged. Meshes shared by other nodes are cloned before baking. Skins
+ * left unused are removed, but joint nodes are kept.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { bakeSkin } from '@gltf-transform/functions';
+ *
+ * await document.transform(bakeSkin());
+ * ```
+ */
+export function bakeSkin(_options: BakeSkinOptions = BAKE_SKIN_DEFAULTS): Transform {
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+		let bakedCount = 0;
+
+		for (const node of doc.getRoot().listNodes()) {
+			const skin = node.getSkin();
+			const mesh = node.getMesh();
+			if (!skin) continue;
+			if (!mesh) {
+				node.setSkin(null);
+				continue;
+			}
+
+			// (1) Compute skinning matrices in the local space of the skinned node. The node's
+			// transform is ignored while skinned, and restored once the skin is removed.
+			const inverseNodeMatrix = invert([] as unknown as mat4, node.getWorldMatrix()) || createIdentity();
+			const inverseBindMatrices = skin.getInverseBindMatrices();
+			const jointMatrices = skin.listJoints().map((joint, index) => {
+				const jointMatrix = multiply([] as unknown as mat4, inverseNodeMatrix, joint.getWorldMatrix());
+				const inverseBindMatrix = inverseBindMatrices
+					? (inverseBindMatrices.getElement(index, []) as mat4)
+					: createIdentity();
+				return multiply(jointMatrix, jointMatrix, inverseBindMatrix) as mat4;
+			});
+
+			// (2) Bake vertex data, cloning meshes used by other nodes.
+			const dstMesh = isSharedMesh(mesh, node) ? cloneMesh(mesh) : mesh;
+			for (const prim of dstMesh.listPrimitives()) {
+				bakePrimitive(prim, jointMatrices);
+			}
+
+			node.setMesh(dstMesh).setSkin(null);
+			bakedCount++;
+		}
+
+		if (bakedCount > 0) {
+			await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR, PropertyType.SKIN] }));
+		}
+
+		logger.debug(`${NAME}: Baked ${bakedCount} skinned nodes.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/** Returns true if the mesh is used by nodes other than the given node. */
+function isSharedMesh(mesh: Mesh, node: Node): boolean {
+	return mesh.listParents().some((parent) => parent instanceof Node && parent !== node);
+}
+
+/** Clones the mesh and its primitives, leaving accessors and materials shared. */
+function cloneMesh(mesh: Mesh): Mesh {
+	const dstMesh = mesh.clone();
+	for (const prim of dstMesh.listPrimitives()) {
+		dstMesh.removePrimitive(prim).addPrimitive(prim.clone());
+	}
+	return dstMesh;
+}
+
+/** Applies linear blend skinning to the primitive, and removes its joints and weights. */
+function bakePrimitive(prim: Primitive, jointMatrices: mat4[]): void {
+	const joints: Accessor[] = [];
+	const weights: Accessor[] = [];
+	let jointsAccessor: Accessor | null;
+	let weightsAccessor: Accessor | null;
+	while (
+		(jointsAccessor = prim.getAttribute(`JOINTS_${joints.length}`)) &&
+		(weightsAccessor = prim.getAttribute(`WEIGHTS_${weights.length}`))
+	) {
+		joints.push(jointsAccessor);
+		weights.push(weightsAccessor);
+	}
+
+	if (!joints.length) return;
+
+	const vertexCount = prim.getAttribute('POSITION')!.getCount();
+	const targets: (Primitive | PrimitiveTarget)[] = [prim, ...prim.listTargets()];
+
+	// Allocate float32 copies of transformed attributes.
+	for (const target of targets) {
+		for (const semantic of ['POSITION', 'NORMAL', 'TANGENT']) {
+			const srcAttribute = target.getAttribute(semantic);
+			if (!srcAttribute) continue;
+			const dstAttribute = srcAttribute
+				.clone()
+				.setArray(new Float32Array(vertexCount * srcAttribute.getElementSize()))
+				.setNormalized(false);
+			const el = [] as number[];
+			for (let i = 0; i < vertexCount; i++) {
+				dstAttribute.setElement(i, srcAttribute.getElement(i, el));
+			}
+			target.setAttribute(semantic, dstAttribute);
+		}
+	}
+
+	// Transform each vertex by its weighted joint matrices.
+	const skinMatrix = [] as unknown as mat4;
+	const linearMatrix = [0, 0, 0, 0, 0, 0, 0, 0, 0] as mat3;
+	const normalMatrix = [0, 0, 0, 0, 0, 0, 0, 0, 0] as mat3;
+	const jointsEl = [] as number[];
+	const weightsEl = [] as number[];
+	const el = [] as number[];
+
+	for (let i = 0; i < vertexCount; i++) {
+		for (let m = 0; m < 16; m++) skinMatrix[m] = 0;
+		for (let j = 0; j < joints.length; j++) {
+			joints[j].getElement(i, jointsEl);
+			weights[j].getElement(i, weightsEl);
+			for (let k = 0; k < 4; k++) {
+				if (weightsEl[k] === 0) continue;
+				const jointMatrix = jointMatrices[jointsEl[k]];
+				for (let m = 0; m < 16; m++) skinMatrix[m] += weightsEl[k] * jointMatrix[m];
+			}
+		}
+
+		fromMat4(linearMatrix, skinMatrix);
+		if (!normalFromMat4(normalMatrix, skinMatrix)) fromMat4(normalMatrix, skinMatrix);
+
+		for (const target of targets) {
+			const isBase = target === prim;
+
+			const position = target.getAttribute('POSITION');
+			if (position) {
+				position.getElement(i, el);
+				if (isBase) transformMat4(el as vec3, el as vec3, skinMatrix);
+				else transformMat3(el as vec3, el as vec3, linearMatrix);
+				position.setElement(i, el);
+			}
+
+			const normal = target.getAttribute('NORMAL');
+			if (normal) {
+				normal.getElement(i, el);
+				transformMat3(el as vec3, el as vec3, normalMatrix);
+				if (isBase) normalize(el as vec3, el as vec3);
+				normal.setElement(i, el);
+			}
+
+			// Transform xyz only, retaining handedness in w.
+			const tangent = target.getAttribute('TANGENT');
+			if (tangent) {
+				tangent.getElement(i, el);
+				const w = el[3];
+				transformMat3(el as vec3, el as vec3, linearMatrix);
+				if (isBase) normalize(el as vec3, el as vec3);
+				el[3] = w;
+				tangent.setElement(i, el);
+			}
+		}
+	}
+
+	for (let j = 0; j < joints.length; j++) {
+		prim.setAttribute(`JOINTS_${j}`, null).setAttribute(`WEIGHTS_${j}`, null);
+	}
+}
+
+function createIdentity(): mat4 {
+	return [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+}
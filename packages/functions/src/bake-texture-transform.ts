@@ -0,0 +1,258 @@
+import {
+	Accessor,
+	AnimationChannel,
+	Document,
+	Material,
+	Primitive,
+	PropertyType,
+	Texture,
+	TextureInfo,
+	Transform,
+} from '@gltf-transform/core';
+import { TextureTransform } from '@gltf-transform/extensions';
+import type { Transform as TextureTransformProperty } from '@gltf-transform/extensions';
+import { prune } from './prune';
+import { createTransform } from './utils';
+
+const NAME = 'bakeTextureTransform';
+
+/** Key of untransformed texture slots, see {@link createTransformKey}. */
+const IDENTITY_KEY = '';
+
+/** Options for the {@link bakeTextureTransform} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface BakeTextureTransformOptions {}
+
+const BAKE_TEXTURE_TRANSFORM_DEFAULTS: Required<BakeTextureTransformOptions> = {};
+
+/** @internal Texture slot and its (optional) transform, sampling a given texcoord set. */
+interface TextureRef {
+	textureInfo: TextureInfo;
+	transform: TextureTransformProperty | null;
+}
+
+/**
+ * Bakes `KHR_texture_transform` offset, rotation, scale, and texCoord overrides into the texture
+ * coordinates of each {@link Primitive}, and removes the extension. Useful for runtimes that do
+ * not support `KHR_texture_transform`, which would otherwise render textures misaligned.
+ *
+ * Texture coordinates are copied, rather than modified, where they are shared with other
+ * materials. When one texture coordinate set is used by several textures of a {@link Material}
+ * with different transforms, the set is split, and textures are assigned new texture coordinate
+ * sets as needed. Materials that cannot be baked — for example, when morph targets affect the
+ * texture coordinates or the transform is animated — are skipped with a warning, and the
+ * extension is kept for those materials.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { bakeTextureTransform } from '@gltf-transform/functions';
+ *
+ * await document.transform(bakeTextureTransform());
+ * ```
+ */
+export function bakeTextureTransform(
+	_options: BakeTextureTransformOptions = BAKE_TEXTURE_TRANSFORM_DEFAULTS
+): Transform {
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	const options = { ...BAKE_TEXTURE_TRANSFORM_DEFAULTS, ..._options } as Required<BakeTextureTransformOptions>;
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		const extensionsUsed = doc
+			.getRoot()
+			.listExtensionsUsed()
+			.map((ext) => ext.extensionName);
+		if (!extensionsUsed.includes('KHR_texture_transform')) {
+			logger.warn(`${NAME}: KHR_texture_transform not found on document.`);
+			return;
+		}
+
+		// Transformed texcoords are cached by source accessor and transform, and may be shared.
+		const texCoordCache = new Map<Accessor, Map<string, Accessor>>();
+		let bakedCount = 0;
+		let skippedCount = 0;
+
+		for (const material of doc.getRoot().listMaterials()) {
+			const refs = listTextureRefs(doc, material);
+			if (!refs.some(({ transform }) => transform)) continue;
+
+			const prims = material.listParents().filter((prim) => prim instanceof Primitive) as Primitive[];
+			const reason = getSkipReason(material, prims, refs);
+			if (reason) {
+				logger.warn(`${NAME}: Skipping material "${material.getName()}", ${reason}.`);
+				skippedCount++;
+				continue;
+			}
+
+			// Group texture slots by source texcoord set, then by transform.
+			const groups = new Map<number, Map<string, TextureRef[]>>();
+			for (const ref of refs) {
+				const texCoord = getSourceTexCoord(ref);
+				const transformGroups = groups.get(texCoord) || new Map<string, TextureRef[]>();
+				const key = createTransformKey(ref.transform);
+				transformGroups.set(key, [...(transformGroups.get(key) || []), ref]);
+				groups.set(texCoord, transformGroups);
+			}
+
+			// Source texcoords are read before any are replaced.
+			const srcTexCoords = new Map<Primitive, Map<number, Accessor>>();
+			for (const prim of prims) {
+				const primTexCoords = new Map<number, Accessor>();
+				for (const texCoord of Array.from(groups.keys())) {
+					primTexCoords.set(texCoord, prim.getAttribute(`TEXCOORD_${texCoord}`)!);
+				}
+				srcTexCoords.set(prim, primTexCoords);
+			}
+
+			// New texcoord sets, if any are needed, are added after existing sets.
+			let nextTexCoord = getNextTexCoord(prims);
+
+			for (const [texCoord, transformGroups] of Array.from(groups.entries())) {
+				// The untransformed group, if any, keeps the original texcoord set.
+				const keys = Array.from(transformGroups.keys());
+				keys.sort((a, b) => Number(b === IDENTITY_KEY) - Number(a === IDENTITY_KEY));
+				for (let i = 0; i < keys.length; i++) {
+					const dstTexCoord = i === 0 ? texCoord : nextTexCoord++;
+					const groupRefs = transformGroups.get(keys[i])!;
+					const transform = groupRefs[0].transform;
+
+					for (const prim of prims) {
+						const srcAccessor = srcTexCoords.get(prim)!.get(texCoord)!;
+						const dstAccessor = keys[i] === IDENTITY_KEY
+							? srcAccessor
+							: getTransformedTexCoord(srcAccessor, transform!, texCoordCache);
+						prim.setAttribute(`TEXCOORD_${dstTexCoord}`, dstAccessor);
+					}
+
+					for (const { textureInfo, transform } of groupRefs) {
+						textureInfo.setTexCoord(dstTexCoord);
+						if (transform) {
+							textureInfo.setExtension('KHR_texture_transform', null);
+							transform.dispose();
+						}
+					}
+				}
+			}
+
+			bakedCount++;
+		}
+
+		if (skippedCount === 0) {
+			doc.createExtension(TextureTransform).dispose();
+		}
+
+		// Clean up texcoords left unused.
+		await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+
+		logger.info(`${NAME}: Baked texture transforms for ${bakedCount} materials.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/** Lists textures used by the material, including material extensions, with their transforms. */
+function listTextureRefs(doc: Document, material: Material): TextureRef[] {
+	const graph = doc.getGraph();
+	const refs: TextureRef[] = [];
+	for (const property of [material, ...material.listExtensions()]) {
+		const edges = graph.listChildEdges(property);
+		const slots = new Set(edges.filter((edge) => edge.getChild() instanceof Texture).map((edge) => edge.getName()));
+		for (const edge of edges) {
+			const textureInfo = edge.getChild();
+			if (!(textureInfo instanceof TextureInfo)) continue;
+			// TextureInfo properties exist for every slot, but only slots with textures are used.
+			if (!slots.has(edge.getName().replace(/Info$/, ''))) continue;
+			const transform = textureInfo.getExtension<TextureTransformProperty>('KHR_texture_transform');
+			refs.push({ textureInfo, transform });
+		}
+	}
+	return refs;
+}
+
+/** Returns a reason the material's texture transforms cannot be baked, or null if they can. */
+function getSkipReason(material: Material, prims: Primitive[], refs: TextureRef[]): string | null {
+	if (!prims.length) return 'material is not used by any primitives';
+
+	const animated = material.listParents().some((parent) => {
+		if (!(parent instanceof AnimationChannel)) return false;
+		return (parent.getTargetPointer() || '').includes('/extensions/KHR_texture_transform/');
+	});
+	if (animated) return 'texture transform is animated';
+
+	for (const ref of refs) {
+		const semantic = `TEXCOORD_${getSourceTexCoord(ref)}`;
+		for (const prim of prims) {
+			if (!prim.getAttribute(semantic)) return `primitive is missing ${semantic}`;
+			if (prim.listTargets().some((target) => target.getAttribute(semantic))) {
+				return `morph targets affect ${semantic}`;
+			}
+		}
+	}
+
+	return null;
+}
+
+/** Returns the texcoord set sampled by the texture, before any transform is baked. */
+function getSourceTexCoord({ textureInfo, transform }: TextureRef): number {
+	const texCoord = transform ? transform.getTexCoord() : null;
+	return texCoord !== null ? texCoord : textureInfo.getTexCoord();
+}
+
+/** Returns a key identifying the transform's offset, rotation, and scale. Identity transforms have key ''. */
+function createTransformKey(transform: TextureTransformProperty | null): string {
+	if (!transform) return IDENTITY_KEY;
+	const offset = transform.getOffset();
+	const rotation = transform.getRotation();
+	const scale = transform.getScale();
+	if (offset[0] === 0 && offset[1] === 0 && rotation === 0 && scale[0] === 1 && scale[1] === 1) {
+		return IDENTITY_KEY;
+	}
+	return [...offset, rotation, ...scale].join(':');
+}
+
+/** Returns the lowest texcoord set index not used by any of the primitives. */
+function getNextTexCoord(prims: Primitive[]): number {
+	let next = 0;
+	for (const prim of prims) {
+		for (const semantic of prim.listSemantics()) {
+			const match = semantic.match(/^TEXCOORD_(\d+)$/);
+			if (match) next = Math.max(next, Number(match[1]) + 1);
+		}
+	}
+	return next;
+}
+
+/**
+ * Returns a float32 copy of the texcoord attribute with the transform applied, as
+ * `uv' = translation * rotation * scale * uv`, defined by KHR_texture_transform.
+ */
+function getTransformedTexCoord(
+	srcTexCoord: Accessor,
+	transform: TextureTransformProperty,
+	cache: Map<Accessor, Map<string, Accessor>>
+): Accessor {
+	const key = createTransformKey(transform);
+	const accessorCache = cache.get(srcTexCoord) || new Map<string, Accessor>();
+	cache.set(srcTexCoord, accessorCache);
+	if (accessorCache.has(key)) return accessorCache.get(key)!;
+
+	const [offsetX, offsetY] = transform.getOffset();
+	const [scaleX, scaleY] = transform.getScale();
+	const cos = Math.cos(transform.getRotation());
+	const sin = Math.sin(transform.getRotation());
+
+	const count = srcTexCoord.getCount();
+	const dstTexCoord = srcTexCoord.clone().setNormalized(false).setArray(new Float32Array(count * 2));
+	const el = [0, 0];
+	for (let i = 0; i < count; i++) {
+		srcTexCoord.getElement(i, el);
+		const [u, v] = el;
+		el[0] = cos * scaleX * u + sin * scaleY * v + offsetX;
+		el[1] = -sin * scaleX * u + cos * scaleY * v + offsetY;
+		dstTexCoord.setElement(i, el);
+	}
+
+	accessorCache.set(key, dstTexCoord);
+	return dstTexCoord;
+}
@@ -0,0 +1,134 @@
+import type { Document, Material, Mesh, Primitive } from '@gltf-transform/core';
+import { MaterialsVariants } from '@gltf-transform/extensions';
+import type { MappingList, Variant } from '@gltf-transform/extensions';
+import { prune } from './prune';
+
+const NAME = 'createVariants';
+
+/**
+ * Creates a {@link Document} with material variants, using the `KHR_materials_variants`
+ * extension, from several Documents with identical geometry and different materials — for
+ * example, one file exported for each colorway of a product. Documents are given as a map of
+ * variant names to Documents. The first Document provides the scene, geometry, and default
+ * materials of the result, and the {@link Material}s of each Document are mapped to the
+ * corresponding {@link Primitive}s as a {@link Variant}. Input Documents are not modified.
+ *
+ * Meshes and primitives are matched by their order in each Document, and must have the same
+ * vertex and index counts. Resources left unused are removed with {@link prune}, and materials
+ * shared by several variants may be deduplicated afterward with {@link dedup}.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { createVariants, dedup } from '@gltf-transform/functions';
+ *
+ * const document = await createVariants({
+ * 	'Midnight Blue': await io.read('blue.glb'),
+ * 	'Beach Sand': await io.read('sand.glb'),
+ * });
+ *
+ * await document.transform(dedup());
+ * ```
+ */
+export async function createVariants(documents: Record<string, Document>): Promise<Document> {
+	const names = Object.keys(documents);
+	if (!names.length) {
+		throw new Error(`${NAME}: Requires at least one document.`);
+	}
+
+	const doc = documents[names[0]].clone();
+	const root = doc.getRoot();
+	const logger = doc.getLogger();
+
+	const variantsExtension = doc.createExtension(MaterialsVariants);
+	const meshes = root.listMeshes();
+
+	for (const name of names) {
+		const variant = variantsExtension.createVariant(name);
+
+		// Merge the variant document, keeping only the materials of its primitives.
+		let variantMeshes = meshes;
+		if (name !== names[0]) {
+			const sceneCount = root.listScenes().length;
+			const nodeCount = root.listNodes().length;
+			const meshCount = root.listMeshes().length;
+			const skinCount = root.listSkins().length;
+			const cameraCount = root.listCameras().length;
+			const animationCount = root.listAnimations().length;
+
+			doc.merge(documents[name]);
+
+			variantMeshes = root.listMeshes().slice(meshCount);
+			root.listScenes().slice(sceneCount).forEach((scene) => scene.dispose());
+			root.listNodes().slice(nodeCount).forEach((node) => node.dispose());
+			root.listSkins().slice(skinCount).forEach((skin) => skin.dispose());
+			root.listCameras().slice(cameraCount).forEach((camera) => camera.dispose());
+			for (const animation of root.listAnimations().slice(animationCount)) {
+				animation.listChannels().forEach((channel) => channel.dispose());
+				animation.listSamplers().forEach((sampler) => sampler.dispose());
+				animation.dispose();
+			}
+		}
+
+		if (variantMeshes.length !== meshes.length) {
+			throw new Error(`${NAME}: Variant "${name}" has mismatched meshes.`);
+		}
+
+		meshes.forEach((mesh, meshIndex) => {
+			const prims = mesh.listPrimitives();
+			const variantPrims = getMatchingPrimitives(mesh, variantMeshes[meshIndex], name);
+			prims.forEach((prim, primIndex) => {
+				const material = variantPrims[primIndex].getMaterial();
+				if (material) addMapping(variantsExtension, prim, variant, material);
+			});
+		});
+
+		if (variantMeshes !== meshes) variantMeshes.forEach((mesh) => mesh.dispose());
+	}
+
+	// Clean up geometry and other resources merged from variant documents.
+	await doc.transform(prune());
+
+	logger.debug(`${NAME}: Created ${names.length} variants.`);
+
+	return doc;
+}
+
+/** Returns primitives of the variant mesh, after verifying that its geometry matches the base mesh. */
+function getMatchingPrimitives(mesh: Mesh, variantMesh: Mesh, name: string): Primitive[] {
+	const prims = mesh.listPrimitives();
+	const variantPrims = variantMesh.listPrimitives();
+	if (prims.length !== variantPrims.length) {
+		throw new Error(`${NAME}: Variant "${name}" has mismatched primitives in mesh "${mesh.getName()}".`);
+	}
+	for (let i = 0; i < prims.length; i++) {
+		if (getPrimitiveCounts(prims[i]) !== getPrimitiveCounts(variantPrims[i])) {
+			throw new Error(`${NAME}: Variant "${name}" has mismatched geometry in mesh "${mesh.getName()}".`);
+		}
+	}
+	return variantPrims;
+}
+
+/** Returns a key identifying the vertex count, index count, and mode of the primitive. */
+function getPrimitiveCounts(prim: Primitive): string {
+	const position = prim.getAttribute('POSITION');
+	const indices = prim.getIndices();
+	return [prim.getMode(), position ? position.getCount() : 0, indices ? indices.getCount() : 0].join(':');
+}
+
+/** Maps the variant to the material on the primitive, reusing any existing mapping to that material. */
+function addMapping(extension: MaterialsVariants, prim: Primitive, variant: Variant, material: Material): void {
+	let mappingList = prim.getExtension<MappingList>('KHR_materials_variants');
+	if (!mappingList) {
+		mappingList = extension.createMappingList();
+		prim.setExtension('KHR_materials_variants', mappingList);
+	}
+
+	let mapping = mappingList.listMappings().find((mapping) => mapping.getMaterial() === material);
+	if (!mapping) {
+		mapping = extension.createMapping().setMaterial(material);
+		mappingList.addMapping(mapping);
+	}
+
+	mapping.addVariant(variant);
+}
@@ -1,4 +1,6 @@
 import { Accessor, BufferUtils, Document, Logger, Material, Mesh, Primitive, PrimitiveTarget, PropertyType, Root, Texture, Transform } from '@gltf-transform/core';
+import type { NdArray } from 'ndarray';
+import { getTexturePixels } from './texture-pixels';
 import { createTransform } from './utils';
 
 const NAME = 'dedup';
@@ -6,6 +8,17 @@ const NAME = 'dedup';
 export interface DedupOptions {
 	/** List of {@link PropertyType} identifiers to be de-duplicated.*/
 	propertyTypes: string[];
+	/**
+	 * Whether to compare {@link Texture}s by decoded pixel values, rather than by encoded image
+	 * data. Textures with equal pixels may differ in format or compression, and the smallest
+	 * encoding is kept. Images are decoded with {@link getTexturePixels}. Default: false.
+	 */
+	texturePixels?: boolean;
+	/**
+	 * Maximum difference (0–255) in any channel for pixels to be considered equal, when
+	 * comparing textures by pixel values. Default: 0.
+	 */
+	textureTolerance?: number;
 }
 
 const DEDUP_DEFAULTS: Required<DedupOptions> = {
@@ -15,13 +28,21 @@ const DEDUP_DEFAULTS: Required<DedupOptions> = {
 		PropertyType.TEXTURE,
 		PropertyType.MATERIAL,
 	],
+	texturePixels: false,
+	textureTolerance: 0,
 };
 
+/** Attributes ignored when comparing materials. */
+const MATERIAL_SKIP = new Set(['name']);
+
 /**
  * Removes duplicate {@link Accessor}, {@link Mesh}, {@link Texture}, and {@link Material}
  * properties. Partially based on a
  * [gist by mattdesl](https://gist.github.com/mattdesl/aea40285e2d73916b6b9101b36d84da8). Only
- * accessors in mesh primitives, morph targets, and animation samplers are processed.
+ * accessors in mesh primitives, morph targets, and animation samplers are processed. Textures
+ * are compared by encoded image data, or optionally by decoded pixel values. Materials are
+ * compared by all factors, textures, texture settings, and extensions, but not by name. References
+ * to merged materials, including `KHR_materials_variants` mappings, are updated.
  *
  * Example:
  *
@@ -43,13 +64,20 @@ export const dedup = function (_options: DedupOptions = DEDUP_DEFAULTS): Transfo
 		}
 	}
 
-	return createTransform(NAME, (doc: Document): void =>  {
+	return createTransform(NAME, async (doc: Document): Promise<void> =>  {
 		const logger = doc.getLogger();
 
+		// Meshes are compared by reference to accessors and materials, so are processed last.
 		if (propertyTypes.has(PropertyType.ACCESSOR)) dedupAccessors(logger, doc);
-		if (propertyTypes.has(PropertyType.MESH)) dedupMeshes(logger, doc);
-		if (propertyTypes.has(PropertyType.TEXTURE)) dedupImages(logger, doc);
+		if (propertyTypes.has(PropertyType.TEXTURE)) {
+			if (options.texturePixels) {
+				await dedupImagePixels(logger, doc, options.textureTolerance);
+			} else {
+				dedupImages(logger, doc);
+			}
+		}
 		if (propertyTypes.has(PropertyType.MATERIAL)) dedupMaterials(logger, doc);
+		if (propertyTypes.has(PropertyType.MESH)) dedupMeshes(logger, doc);
 
 		logger.debug(`${NAME}: Complete.`);
 	});
@@ -247,6 +275,96 @@ function dedupImages(logger: Logger, doc: Document): void {
 	});
 }
 
+async function dedupImagePixels(logger: Logger, doc: Document, tolerance: number): Promise<void> {
+	const root = doc.getRoot();
+	const duplicates: Map<Texture, Texture> = new Map();
+
+	// Group textures by dimensions, read from image headers. Textures without an equally-sized
+	// counterpart cannot be duplicates, and are never decoded.
+	const sizeGroups = new Map<string, Texture[]>();
+	for (const texture of root.listTextures()) {
+		if (!texture.getImage()) continue;
+		const size = texture.getSize();
+		if (!size) {
+			logger.warn(`${NAME}: Skipping texture "${texture.getName()}": Unknown image size.`);
+			continue;
+		}
+		const key = size.join('x');
+		const sizeGroup = sizeGroups.get(key) || [];
+		sizeGroup.push(texture);
+		sizeGroups.set(key, sizeGroup);
+	}
+
+	// Decode one size group at a time, such that pixels of only one group are held in memory.
+	for (const sizeGroup of sizeGroups.values()) {
+		if (sizeGroup.length < 2) continue;
+
+		const textures: Texture[] = [];
+		const texturePixels = new Map<Texture, NdArray<Uint8Array>>();
+		for (const texture of sizeGroup) {
+			try {
+				texturePixels.set(texture, await getTexturePixels(texture));
+				textures.push(texture);
+			} catch (e) {
+				logger.warn(`${NAME}: Skipping texture "${texture.getName()}": ${(e as Error).message}`);
+			}
+		}
+
+		// Compare each texture to every other texture in the group — O(n²) — and group textures
+		// with equal pixels. Each group is replaced by its smallest encoding.
+		for (let i = 0; i < textures.length; i++) {
+			const a = textures[i];
+			const aPixels = texturePixels.get(a)!;
+
+			if (duplicates.has(a)) continue;
+
+			const group = [a];
+			for (let j = i + 1; j < textures.length; j++) {
+				const b = textures[j];
+				if (duplicates.has(b)) continue;
+				if (equalsPixels(aPixels, texturePixels.get(b)!, tolerance)) {
+					group.push(b);
+				}
+			}
+
+			if (group.length === 1) continue;
+
+			const dst = group.reduce((min, texture) => {
+				return texture.getImage()!.byteLength < min.getImage()!.byteLength ? texture : min;
+			});
+			for (const src of group) {
+				if (src !== dst) duplicates.set(src, dst);
+			}
+		}
+	}
+
+	logger.debug(
+		`${NAME}: Found ${duplicates.size} duplicates among ${root.listTextures().length} textures.`
+	);
+
+	Array.from(duplicates.entries()).forEach(([src, dst]) => {
+		src.listParents().forEach((property) => {
+			if (!(property instanceof Root)) property.swap(src, dst);
+		});
+		src.dispose();
+	});
+}
+
+/** Returns true if two images have equal dimensions, and pixels equal within the tolerance. */
+function equalsPixels(a: NdArray<Uint8Array>, b: NdArray<Uint8Array>, tolerance: number): boolean {
+	if (a.shape[0] !== b.shape[0] || a.shape[1] !== b.shape[1]) return false;
+
+	for (let i = 0; i < a.shape[0]; i++) {
+		for (let j = 0; j < a.shape[1]; j++) {
+			for (let k = 0; k < 4; k++) {
+				if (Math.abs(a.get(i, j, k) - b.get(i, j, k)) > tolerance) return false;
+			}
+		}
+	}
+
+	return true;
+}
+
 function dedupMaterials(logger: Logger, doc: Document): void {
 	const root = doc.getRoot();
 	const materials = root.listMaterials();
@@ -264,7 +382,7 @@ function dedupMaterials(logger: Logger, doc: Document): void {
 			if (a === b) continue;
 			if (duplicates.has(b)) continue;
 
-			if (a.equals(b)) {
+			if (a.equals(b, MATERIAL_SKIP)) {
 				duplicates.set(b, a);
 			}
 		}
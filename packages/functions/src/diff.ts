@@ -0,0 +1,409 @@
+import type {
+	Accessor,
+	Animation,
+	Document,
+	ExtensibleProperty,
+	Material,
+	Mesh,
+	Node,
+	Primitive,
+	Property,
+	Texture,
+	TextureInfo,
+} from '@gltf-transform/core';
+
+/** Options for the {@link diff} function. */
+export interface DiffOptions {
+	/**
+	 * Maximum absolute difference between corresponding {@link Accessor} elements for the
+	 * accessors to be considered equal. Default: 0.
+	 */
+	tolerance?: number;
+}
+
+const DIFF_DEFAULTS: Required<DiffOptions> = {
+	tolerance: 0,
+};
+
+/** @internal */
+interface DiffContext {
+	/** Keys identifying properties of either Document, by name or by index. */
+	keys: Map<Property, string>;
+	tolerance: number;
+}
+
+/**
+ * Compares two {@link Document}s, and reports {@link Node}s, {@link Mesh}es, {@link Material}s,
+ * {@link Texture}s, and {@link Animation}s that were added, removed, or changed in the second
+ * Document. Useful for reviewing changes to an asset without loading both versions in a viewer.
+ *
+ * Properties are matched by name, or by index when unnamed or when names are not unique.
+ * Accessor data is compared element by element, within the given tolerance, and texture images
+ * are compared by hashes of their contents. Changes are reported as paths to the attributes that
+ * differ, like `translation` or `primitives[0].attributes.POSITION`.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { diff } from '@gltf-transform/functions';
+ *
+ * const report = diff(documentA, documentB, { tolerance: 0.0001 });
+ *
+ * for (const { name, changes } of report.meshes.changed) {
+ * 	console.log(`${name}: ${changes.join(', ')}`);
+ * }
+ * ```
+ */
+export function diff(a: Document, b: Document, _options: DiffOptions = DIFF_DEFAULTS): DiffReport {
+	const options = { ...DIFF_DEFAULTS, ..._options } as Required<DiffOptions>;
+	const context: DiffContext = { keys: new Map(), tolerance: options.tolerance };
+
+	const rootA = a.getRoot();
+	const rootB = b.getRoot();
+	createKeys(rootA.listNodes(), rootB.listNodes(), context);
+	createKeys(rootA.listMeshes(), rootB.listMeshes(), context);
+	createKeys(rootA.listMaterials(), rootB.listMaterials(), context);
+	createKeys(rootA.listTextures(), rootB.listTextures(), context);
+	createKeys(rootA.listAnimations(), rootB.listAnimations(), context);
+	createKeys(rootA.listCameras(), rootB.listCameras(), context);
+	createKeys(rootA.listSkins(), rootB.listSkins(), context);
+
+	return {
+		nodes: diffProperties(rootA.listNodes(), rootB.listNodes(), context, diffNode),
+		meshes: diffProperties(rootA.listMeshes(), rootB.listMeshes(), context, diffMesh),
+		materials: diffProperties(rootA.listMaterials(), rootB.listMaterials(), context, diffMaterial),
+		textures: diffProperties(rootA.listTextures(), rootB.listTextures(), context, diffTexture),
+		animations: diffProperties(rootA.listAnimations(), rootB.listAnimations(), context, diffAnimation),
+	};
+}
+
+export interface DiffReport {
+	nodes: DiffPropertyReport;
+	meshes: DiffPropertyReport;
+	materials: DiffPropertyReport;
+	textures: DiffPropertyReport;
+	animations: DiffPropertyReport;
+}
+
+export interface DiffPropertyReport {
+	/** Properties found only in the second Document. */
+	added: string[];
+	/** Properties found only in the first Document. */
+	removed: string[];
+	/** Properties found in both Documents, with differences. */
+	changed: DiffChangeReport[];
+}
+
+export interface DiffChangeReport {
+	name: string;
+	/** Paths to the attributes that differ, like `translation` or `primitives[0].material`. */
+	changes: string[];
+}
+
+/**
+ * Assigns keys to properties of both Documents: the name, if unique in both Documents, or
+ * otherwise the name and its occurrence index. Unnamed properties are keyed by their index
+ * among unnamed properties.
+ */
+function createKeys(propertiesA: Property[], propertiesB: Property[], context: DiffContext): void {
+	const duplicateNames = new Set<string>();
+	for (const properties of [propertiesA, propertiesB]) {
+		const names = new Set<string>();
+		for (const property of properties) {
+			if (names.has(property.getName())) duplicateNames.add(property.getName());
+			names.add(property.getName());
+		}
+	}
+
+	for (const properties of [propertiesA, propertiesB]) {
+		const occurrences = new Map<string, number>();
+		for (const property of properties) {
+			const name = property.getName();
+			const occurrence = occurrences.get(name) || 0;
+			occurrences.set(name, occurrence + 1);
+			if (!name) {
+				context.keys.set(property, `#${occurrence}`);
+			} else if (duplicateNames.has(name)) {
+				context.keys.set(property, `${name} #${occurrence}`);
+			} else {
+				context.keys.set(property, name);
+			}
+		}
+	}
+}
+
+function diffProperties<T extends Property>(
+	propertiesA: T[],
+	propertiesB: T[],
+	context: DiffContext,
+	diffProperty: (a: T, b: T, context: DiffContext, changes: string[]) => void
+): DiffPropertyReport {
+	const keysA = new Set(propertiesA.map((property) => context.keys.get(property)!));
+	const propertiesByKeyB = new Map(propertiesB.map((property) => [context.keys.get(property)!, property]));
+
+	const report: DiffPropertyReport = { added: [], removed: [], changed: [] };
+
+	for (const a of propertiesA) {
+		const key = context.keys.get(a)!;
+		const b = propertiesByKeyB.get(key);
+		if (!b) {
+			report.removed.push(key);
+			continue;
+		}
+
+		const changes: string[] = [];
+		diffProperty(a, b, context, changes);
+		if (changes.length) report.changed.push({ name: key, changes });
+	}
+
+	for (const b of propertiesB) {
+		const key = context.keys.get(b)!;
+		if (!keysA.has(key)) report.added.push(key);
+	}
+
+	return report;
+}
+
+function diffNode(a: Node, b: Node, context: DiffContext, changes: string[]): void {
+	diffValue('translation', a.getTranslation(), b.getTranslation(), changes);
+	diffValue('rotation', a.getRotation(), b.getRotation(), changes);
+	diffValue('scale', a.getScale(), b.getScale(), changes);
+	diffValue('weights', a.getWeights(), b.getWeights(), changes);
+	diffValue('mesh', getKey(a.getMesh(), context), getKey(b.getMesh(), context), changes);
+	diffValue('camera', getKey(a.getCamera(), context), getKey(b.getCamera(), context), changes);
+	diffValue('skin', getKey(a.getSkin(), context), getKey(b.getSkin(), context), changes);
+	diffValue(
+		'children',
+		a.listChildren().map((child) => getKey(child, context)),
+		b.listChildren().map((child) => getKey(child, context)),
+		changes
+	);
+	diffExtensible('', a, b, changes);
+}
+
+function diffMesh(a: Mesh, b: Mesh, context: DiffContext, changes: string[]): void {
+	diffValue('weights', a.getWeights(), b.getWeights(), changes);
+	diffExtensible('', a, b, changes);
+
+	const primsA = a.listPrimitives();
+	const primsB = b.listPrimitives();
+	if (primsA.length !== primsB.length) {
+		changes.push('primitives');
+		return;
+	}
+
+	for (let i = 0; i < primsA.length; i++) {
+		diffPrimitive(`primitives[${i}]`, primsA[i], primsB[i], context, changes);
+	}
+}
+
+function diffPrimitive(path: string, a: Primitive, b: Primitive, context: DiffContext, changes: string[]): void {
+	diffValue(`${path}.mode`, a.getMode(), b.getMode(), changes);
+	diffValue(`${path}.material`, getKey(a.getMaterial(), context), getKey(b.getMaterial(), context), changes);
+	diffAccessor(`${path}.indices`, a.getIndices(), b.getIndices(), context, changes);
+
+	const semantics = new Set([...a.listSemantics(), ...b.listSemantics()]);
+	for (const semantic of Array.from(semantics).sort()) {
+		const attributeA = a.getAttribute(semantic);
+		const attributeB = b.getAttribute(semantic);
+		diffAccessor(`${path}.attributes.${semantic}`, attributeA, attributeB, context, changes);
+	}
+
+	const targetsA = a.listTargets();
+	const targetsB = b.listTargets();
+	if (targetsA.length !== targetsB.length) {
+		changes.push(`${path}.targets`);
+	} else {
+		for (let i = 0; i < targetsA.length; i++) {
+			const semantics = new Set([...targetsA[i].listSemantics(), ...targetsB[i].listSemantics()]);
+			for (const semantic of Array.from(semantics).sort()) {
+				const attributeA = targetsA[i].getAttribute(semantic);
+				const attributeB = targetsB[i].getAttribute(semantic);
+				diffAccessor(`${path}.targets[${i}].${semantic}`, attributeA, attributeB, context, changes);
+			}
+		}
+	}
+
+	diffExtensible(`${path}.`, a, b, changes);
+}
+
+function diffMaterial(a: Material, b: Material, context: DiffContext, changes: string[]): void {
+	diffValue('alphaMode', a.getAlphaMode(), b.getAlphaMode(), changes);
+	diffValue('alphaCutoff', a.getAlphaCutoff(), b.getAlphaCutoff(), changes);
+	diffValue('doubleSided', a.getDoubleSided(), b.getDoubleSided(), changes);
+	diffValue('baseColorFactor', a.getBaseColorFactor(), b.getBaseColorFactor(), changes);
+	diffValue('emissiveFactor', a.getEmissiveFactor(), b.getEmissiveFactor(), changes);
+	diffValue('metallicFactor', a.getMetallicFactor(), b.getMetallicFactor(), changes);
+	diffValue('roughnessFactor', a.getRoughnessFactor(), b.getRoughnessFactor(), changes);
+	diffValue('normalScale', a.getNormalScale(), b.getNormalScale(), changes);
+	diffValue('occlusionStrength', a.getOcclusionStrength(), b.getOcclusionStrength(), changes);
+
+	const slots: [string, Texture | null, Texture | null, TextureInfo | null, TextureInfo | null][] = [
+		[
+			'baseColorTexture',
+			a.getBaseColorTexture(),
+			b.getBaseColorTexture(),
+			a.getBaseColorTextureInfo(),
+			b.getBaseColorTextureInfo(),
+		],
+		[
+			'emissiveTexture',
+			a.getEmissiveTexture(),
+			b.getEmissiveTexture(),
+			a.getEmissiveTextureInfo(),
+			b.getEmissiveTextureInfo(),
+		],
+		[
+			'normalTexture',
+			a.getNormalTexture(),
+			b.getNormalTexture(),
+			a.getNormalTextureInfo(),
+			b.getNormalTextureInfo(),
+		],
+		[
+			'occlusionTexture',
+			a.getOcclusionTexture(),
+			b.getOcclusionTexture(),
+			a.getOcclusionTextureInfo(),
+			b.getOcclusionTextureInfo(),
+		],
+		[
+			'metallicRoughnessTexture',
+			a.getMetallicRoughnessTexture(),
+			b.getMetallicRoughnessTexture(),
+			a.getMetallicRoughnessTextureInfo(),
+			b.getMetallicRoughnessTextureInfo(),
+		],
+	];
+
+	for (const [slot, textureA, textureB, textureInfoA, textureInfoB] of slots) {
+		diffValue(slot, getKey(textureA, context), getKey(textureB, context), changes);
+		if (textureA && textureB && !textureInfoA!.equals(textureInfoB!)) {
+			changes.push(`${slot}Info`);
+		}
+	}
+
+	diffExtensible('', a, b, changes);
+}
+
+function diffTexture(a: Texture, b: Texture, _context: DiffContext, changes: string[]): void {
+	diffValue('mimeType', a.getMimeType(), b.getMimeType(), changes);
+	diffValue('uri', a.getURI(), b.getURI(), changes);
+	diffValue('image', hashBytes(a.getImage()), hashBytes(b.getImage()), changes);
+	diffExtensible('', a, b, changes);
+}
+
+function diffAnimation(a: Animation, b: Animation, context: DiffContext, changes: string[]): void {
+	diffExtensible('', a, b, changes);
+
+	const samplersA = a.listSamplers();
+	const samplersB = b.listSamplers();
+	if (samplersA.length !== samplersB.length) {
+		changes.push('samplers');
+	} else {
+		for (let i = 0; i < samplersA.length; i++) {
+			const path = `samplers[${i}]`;
+			const [samplerA, samplerB] = [samplersA[i], samplersB[i]];
+			diffValue(`${path}.interpolation`, samplerA.getInterpolation(), samplerB.getInterpolation(), changes);
+			diffAccessor(`${path}.input`, samplerA.getInput(), samplerB.getInput(), context, changes);
+			diffAccessor(`${path}.output`, samplerA.getOutput(), samplerB.getOutput(), context, changes);
+		}
+	}
+
+	const channelsA = a.listChannels();
+	const channelsB = b.listChannels();
+	if (channelsA.length !== channelsB.length) {
+		changes.push('channels');
+		return;
+	}
+
+	for (let i = 0; i < channelsA.length; i++) {
+		const path = `channels[${i}]`;
+		const [channelA, channelB] = [channelsA[i], channelsB[i]];
+		const samplerA = samplersA.indexOf(channelA.getSampler()!);
+		const samplerB = samplersB.indexOf(channelB.getSampler()!);
+		diffValue(`${path}.sampler`, samplerA, samplerB, changes);
+		diffValue(`${path}.targetPath`, channelA.getTargetPath(), channelB.getTargetPath(), changes);
+		diffValue(
+			`${path}.targetNode`,
+			getKey(channelA.getTargetNode(), context),
+			getKey(channelB.getTargetNode(), context),
+			changes
+		);
+		diffValue(
+			`${path}.targetProperty`,
+			getKey(channelA.getTargetProperty(), context),
+			getKey(channelB.getTargetProperty(), context),
+			changes
+		);
+		diffValue(`${path}.targetPointer`, channelA.getTargetPointer(), channelB.getTargetPointer(), changes);
+	}
+}
+
+/** Compares extras and extensions of two properties. */
+function diffExtensible(path: string, a: ExtensibleProperty, b: ExtensibleProperty, changes: string[]): void {
+	diffValue(`${path}extras`, a.getExtras(), b.getExtras(), changes);
+
+	const extensionNames = new Set([
+		...a.listExtensions().map((ext) => ext.extensionName),
+		...b.listExtensions().map((ext) => ext.extensionName),
+	]);
+	for (const extensionName of Array.from(extensionNames).sort()) {
+		const extensionA = a.getExtension(extensionName);
+		const extensionB = b.getExtension(extensionName);
+		if (!extensionA || !extensionB || !extensionA.equals(extensionB)) {
+			changes.push(`${path}extensions.${extensionName}`);
+		}
+	}
+}
+
+/** Compares JSON-serializable values: literals, arrays, and plain objects. */
+function diffValue(path: string, a: unknown, b: unknown, changes: string[]): void {
+	if (JSON.stringify(a) !== JSON.stringify(b)) changes.push(path);
+}
+
+/** Compares accessor types and elements, within the tolerance of the context. */
+function diffAccessor(
+	path: string,
+	a: Accessor | null,
+	b: Accessor | null,
+	context: DiffContext,
+	changes: string[]
+): void {
+	if (!a && !b) return;
+	if (!a || !b || !equalsAccessor(a, b, context.tolerance)) changes.push(path);
+}
+
+function equalsAccessor(a: Accessor, b: Accessor, tolerance: number): boolean {
+	if (a.getType() !== b.getType()) return false;
+	if (a.getComponentType() !== b.getComponentType()) return false;
+	if (a.getNormalized() !== b.getNormalized()) return false;
+	if (a.getCount() !== b.getCount()) return false;
+
+	const elementA: number[] = [];
+	const elementB: number[] = [];
+	for (let i = 0, il = a.getCount(); i < il; i++) {
+		a.getElement(i, elementA);
+		b.getElement(i, elementB);
+		for (let j = 0; j < elementA.length; j++) {
+			if (!(Math.abs(elementA[j] - elementB[j]) <= tolerance)) return false;
+		}
+	}
+	return true;
+}
+
+function getKey(property: Property | null, context: DiffContext): string | null {
+	if (!property) return null;
+	return context.keys.get(property) || property.getName();
+}
+
+/** Returns a 32-bit FNV-1a hash of the bytes, as a hex string. */
+function hashBytes(bytes: Uint8Array | null): string | null {
+	if (!bytes) return null;
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < bytes.byteLength; i++) {
+		hash ^= bytes[i];
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
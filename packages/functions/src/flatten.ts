@@ -0,0 +1,93 @@
+import { Document, Node, Scene, Transform } from '@gltf-transform/core';
+import { createTransform, getAnimatedTransformNode } from './utils';
+
+const NAME = 'flatten';
+
+/** Options for the {@link flatten} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface FlattenOptions {}
+
+const FLATTEN_DEFAULTS: Required<FlattenOptions> = {};
+
+/**
+ * Flattens the scene graph, leaving {@link Node Nodes} with
+ * {@link Mesh Meshes}, {@link Camera Cameras}, and other attachments
+ * as direct children of the {@link Scene}. Transforms of parent nodes are
+ * baked into each flattened node, such that world transforms are unchanged.
+ * Deep hierarchies exported from DCC tools can be costly to traverse and
+ * update every frame, and flattening may reduce that overhead.
+ *
+ * Nodes are left in place if they are animated (by translation, rotation, or
+ * scale), are descendants of an animated node, are skinned, or are joints in a
+ * {@link Skin}. Animated subtrees are therefore kept intact. Node transforms
+ * are decomposed after flattening, and so shear in the original hierarchy (if
+ * any) cannot be preserved.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { flatten } from '@gltf-transform/functions';
+ *
+ * await document.transform(flatten());
+ * ```
+ */
+export function flatten(_options: FlattenOptions = FLATTEN_DEFAULTS): Transform {
+	return createTransform(NAME, (doc: Document): void => {
+		const root = doc.getRoot();
+		const logger = doc.getLogger();
+
+		// (1) Mark joints.
+		const joints = new Set<Node>();
+		for (const skin of root.listSkins()) {
+			for (const joint of skin.listJoints()) joints.add(joint);
+		}
+
+		// (2) Mark nodes with TRS animation.
+		const animated = new Set<Node>();
+		for (const animation of root.listAnimations()) {
+			for (const channel of animation.listChannels()) {
+				const node = getAnimatedTransformNode(channel);
+				if (node) animated.add(node);
+			}
+		}
+
+		let flattenedCount = 0;
+
+		for (const scene of root.listScenes()) {
+			// (3) Mark descendants of animated nodes.
+			const hasAnimatedAncestor = new Set<Node>();
+			scene.traverse((node) => {
+				const parent = node.getParent();
+				if (parent instanceof Node && (animated.has(parent) || hasAnimatedAncestor.has(parent))) {
+					hasAnimatedAncestor.add(node);
+				}
+			});
+
+			// (4) For each affected node, in top-down order, bake parent transforms and reparent.
+			const nodes: Node[] = [];
+			scene.traverse((node) => nodes.push(node));
+
+			for (const node of nodes) {
+				if (!(node.getParent() instanceof Node)) continue;
+				if (joints.has(node) || node.getSkin()) continue;
+				if (animated.has(node) || hasAnimatedAncestor.has(node)) continue;
+
+				clearNodeParent(scene, node);
+				flattenedCount++;
+			}
+		}
+
+		logger.info(`${NAME}: Flattened ${flattenedCount} nodes.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Moves the node to the root of the scene, applying any inherited transforms
+ * to its local transform such that its world transform is unchanged.
+ */
+function clearNodeParent(scene: Scene, node: Node): void {
+	const worldMatrix = node.getWorldMatrix();
+	scene.addChild(node);
+	node.setMatrix(worldMatrix);
+}
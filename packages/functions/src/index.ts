@@ -38,24 +38,40 @@
  */
 
 export { bounds } from '@gltf-transform/core'; // backwards compatibility, remove in v0.12
+export * from './bake-skin';
+export * from './bake-texture-transform';
 export * from './center';
 export * from './colorspace';
+export * from './create-variants';
 export * from './dedup';
 export * from './dequantize';
+export * from './diff';
 export * from './draco';
+export * from './flatten';
 export * from './inspect';
 export * from './instance';
+export * from './join';
+export * from './limit-joint-influences';
+export * from './lod';
 export * from './meshopt';
 export * from './metal-rough';
 export * from './normals';
+export * from './orm-pack';
 export * from './partition';
 export * from './prune';
+export * from './prune-joints';
 export * from './quantize';
 export * from './resample';
 export * from './reorder';
+export * from './select-variant';
 export * from './sequence';
+export * from './simplify';
+export * from './sparse';
+export * from './spec-gloss';
 export * from './squoosh';
 export * from './tangents';
+export * from './texture-atlas';
+export * from './texture-pixels';
 export * from './texture-resize';
 export * from './unlit';
 export * from './unpartition';
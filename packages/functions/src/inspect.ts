@@ -3,22 +3,53 @@ import {
 	Document,
 	ExtensionProperty,
 	GLTF,
-	ImageUtils,
+	Node,
+	Primitive,
+	Scene,
 	Texture,
 	TypedArray,
 	bounds,
 	PropertyType,
+	bbox,
+	vec3,
 } from '@gltf-transform/core';
+import { transformMat4 } from 'gl-matrix/vec3';
+import type { LOD } from '@gltf-transform/extensions';
 import { getGLPrimitiveCount } from './utils';
 
+/** Options for the {@link inspect} function. */
+export interface InspectOptions {
+	/**
+	 * Whether to report vertex cache, overdraw, and vertex fetch efficiency for each mesh
+	 * primitive. Metrics are computed on the CPU, and may be slow for large meshes. Default: false.
+	 */
+	efficiency?: boolean;
+}
+
+const INSPECT_DEFAULTS: Required<InspectOptions> = {
+	efficiency: false,
+};
+
+/** Vertex cache size, in vertices, simulated for ACMR and ATVR. */
+const VERTEX_CACHE_SIZE = 16;
+
+/** Resolution of the orthographic views rasterized to estimate overdraw. */
+const OVERDRAW_VIEWPORT_SIZE = 256;
+
+/** Cache line and total size, in bytes, of the direct-mapped cache simulated for vertex fetch. */
+const VERTEX_FETCH_CACHE_LINE = 64;
+const VERTEX_FETCH_CACHE_SIZE = 128 * 1024;
+
 /** Inspects the contents of a glTF file and returns a JSON report. */
-export function inspect(doc: Document): InspectReport {
+export function inspect(doc: Document, _options: InspectOptions = INSPECT_DEFAULTS): InspectReport {
+	const options = { ...INSPECT_DEFAULTS, ..._options } as Required<InspectOptions>;
 	return {
 		scenes: listScenes(doc),
-		meshes: listMeshes(doc),
+		meshes: listMeshes(doc, options),
 		materials: listMaterials(doc),
 		textures: listTextures(doc),
 		animations: listAnimations(doc),
+		lods: listLODs(doc),
 	};
 }
 
@@ -29,7 +60,7 @@ function listScenes(doc: Document): InspectPropertyReport<InspectSceneReport> {
 		.listScenes()
 		.map((scene) => {
 			const root = scene.listChildren()[0];
-			const sceneBounds = bounds(scene);
+			const sceneBounds = getSceneBounds(scene);
 			return {
 				name: scene.getName(),
 				rootName: root ? root.getName() : '',
@@ -40,8 +71,68 @@ function listScenes(doc: Document): InspectPropertyReport<InspectSceneReport> {
 	return { properties: scenes };
 }
 
+/**
+ * Computes world-space bounds of a scene, like {@link bounds}. POSITION attributes with deferred
+ * vertex data (see {@link PlatformIO.readBinaryLazy}) are not read: instead, corners of their
+ * stored min/max bounds are transformed by the node's world matrix, and so bounds may be looser.
+ */
+function getSceneBounds(scene: Scene): bbox {
+	let hasLazyPosition = false;
+	scene.traverse((node) => {
+		const mesh = node.getMesh();
+		if (!mesh) return;
+		for (const prim of mesh.listPrimitives()) {
+			const position = prim.getAttribute('POSITION');
+			if (position && position.isLazy()) hasLazyPosition = true;
+		}
+	});
+
+	if (!hasLazyPosition) return bounds(scene);
+
+	const sceneBounds: bbox = { min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity] };
+	const min: number[] = [];
+	const max: number[] = [];
+	const point: vec3 = [0, 0, 0];
+	const expand = () => {
+		for (let j = 0; j < 3; j++) {
+			sceneBounds.min[j] = Math.min(sceneBounds.min[j], point[j]);
+			sceneBounds.max[j] = Math.max(sceneBounds.max[j], point[j]);
+		}
+	};
+
+	scene.traverse((node) => {
+		const mesh = node.getMesh();
+		if (!mesh) return;
+
+		const worldMatrix = node.getWorldMatrix();
+		for (const prim of mesh.listPrimitives()) {
+			const position = prim.getAttribute('POSITION');
+			if (!position) continue;
+
+			if (!position.isLazy()) {
+				for (let i = 0; i < position.getCount(); i++) {
+					transformMat4(point, position.getElement(i, point) as vec3, worldMatrix);
+					expand();
+				}
+				continue;
+			}
+
+			if (!position.getCount()) continue;
+			position.getMinNormalized(min);
+			position.getMaxNormalized(max);
+			for (let i = 0; i < 8; i++) {
+				for (let j = 0; j < 3; j++) point[j] = i & (1 << j) ? max[j] : min[j];
+				transformMat4(point, point, worldMatrix);
+				expand();
+			}
+		}
+	});
+
+	return sceneBounds;
+}
+
 /** List meshes. */
-function listMeshes(doc: Document): InspectPropertyReport<InspectMeshReport> {
+function listMeshes(doc: Document, options: Required<InspectOptions>): InspectPropertyReport<InspectMeshReport> {
 	const meshes: InspectMeshReport[] = doc
 		.getRoot()
 		.listMeshes()
@@ -56,7 +147,7 @@ function listMeshes(doc: Document): InspectPropertyReport<InspectMeshReport> {
 			mesh.listPrimitives().forEach((prim) => {
 				for (const semantic of prim.listSemantics()) {
 					const attr = prim.getAttribute(semantic)!;
-					semantics.add(semantic + ':' + arrayToType(attr.getArray()!));
+					semantics.add(semantic + ':' + accessorToType(attr));
 					meshAccessors.add(attr);
 				}
 				for (const targ of prim.listTargets()) {
@@ -64,7 +155,7 @@ function listMeshes(doc: Document): InspectPropertyReport<InspectMeshReport> {
 				}
 				const indices = prim.getIndices();
 				if (indices) {
-					meshIndices.add(arrayToType(indices.getArray()!));
+					meshIndices.add(accessorToType(indices));
 					meshAccessors.add(indices);
 				}
 				verts += prim.listAttributes()[0].getCount();
@@ -72,11 +163,11 @@ function listMeshes(doc: Document): InspectPropertyReport<InspectMeshReport> {
 			});
 
 			let size = 0;
-			Array.from(meshAccessors).forEach((a) => (size += a.getArray()!.byteLength));
+			Array.from(meshAccessors).forEach((a) => (size += a.getByteLength()));
 
 			const modes = mesh.listPrimitives().map((prim) => MeshPrimitiveModeLabels[prim.getMode()]);
 
-			return {
+			const report: InspectMeshReport = {
 				name: mesh.getName(),
 				mode: Array.from(new Set(modes)),
 				primitives: mesh.listPrimitives().length,
@@ -87,6 +178,16 @@ function listMeshes(doc: Document): InspectPropertyReport<InspectMeshReport> {
 				instances: instances,
 				size: size,
 			};
+
+			if (options.efficiency) {
+				const efficiency = mesh.listPrimitives().map((prim) => getPrimitiveEfficiency(prim));
+				report.acmr = efficiency.map((metrics) => (metrics ? metrics.acmr : null));
+				report.atvr = efficiency.map((metrics) => (metrics ? metrics.atvr : null));
+				report.overdraw = efficiency.map((metrics) => (metrics ? metrics.overdraw : null));
+				report.overfetch = efficiency.map((metrics) => (metrics ? metrics.overfetch : null));
+			}
+
+			return report;
 		});
 
 	return { properties: meshes };
@@ -148,7 +249,7 @@ function listTextures(doc: Document): InspectPropertyReport<InspectTextureReport
 				.filter((edge) => edge.getParent().propertyType !== PropertyType.ROOT)
 				.map((edge) => edge.getName());
 
-			const resolution = ImageUtils.getSize(texture.getImage()!, texture.getMimeType());
+			const resolution = texture.getSize();
 
 			return {
 				name: texture.getName(),
@@ -157,8 +258,8 @@ function listTextures(doc: Document): InspectPropertyReport<InspectTextureReport
 				instances,
 				mimeType: texture.getMimeType(),
 				resolution: resolution ? resolution.join('x') : '',
-				size: texture.getImage()!.byteLength,
-				gpuSize: ImageUtils.getMemSize(texture.getImage()!, texture.getMimeType()),
+				size: texture.getByteLength(),
+				gpuSize: texture.getMemSize(),
 			};
 		});
 
@@ -193,7 +294,7 @@ function listAnimations(doc: Document): InspectPropertyReport<InspectAnimationRe
 				accessors.add(output);
 			});
 			Array.from(accessors).forEach((accessor) => {
-				size += accessor.getArray()!.byteLength;
+				size += accessor.getByteLength();
 			});
 
 			return {
@@ -209,12 +310,36 @@ function listAnimations(doc: Document): InspectPropertyReport<InspectAnimationRe
 	return { properties: animations };
 }
 
+/** List nodes with levels of detail (MSFT_lod). */
+function listLODs(doc: Document): InspectPropertyReport<InspectLODReport> {
+	const lods: InspectLODReport[] = [];
+	for (const node of doc.getRoot().listNodes()) {
+		const lod = node.getExtension<LOD>('MSFT_lod');
+		if (!lod) continue;
+
+		const levels = [node, ...lod.listLevels()];
+		const extras = node.getExtras() as { MSFT_screencoverage?: number[] };
+		lods.push({
+			name: node.getName(),
+			levels: levels.length,
+			glPrimitives: levels.map((level) => {
+				const mesh = level instanceof Node ? level.getMesh() : null;
+				if (!mesh) return 0;
+				return mesh.listPrimitives().reduce((count, prim) => count + getGLPrimitiveCount(prim), 0);
+			}),
+			coverages: extras.MSFT_screencoverage || [],
+		});
+	}
+	return { properties: lods };
+}
+
 export interface InspectReport {
 	scenes: InspectPropertyReport<InspectSceneReport>;
 	meshes: InspectPropertyReport<InspectMeshReport>;
 	materials: InspectPropertyReport<InspectMaterialReport>;
 	textures: InspectPropertyReport<InspectTextureReport>;
 	animations: InspectPropertyReport<InspectAnimationReport>;
+	lods: InspectPropertyReport<InspectLODReport>;
 }
 
 export interface InspectPropertyReport<T> {
@@ -240,6 +365,28 @@ export interface InspectMeshReport {
 	attributes: string[];
 	instances: number;
 	size: number;
+	/**
+	 * Average cache miss ratio: vertex shader invocations per triangle, with a simulated FIFO
+	 * vertex cache. Lower is better; optimal values approach 0.5. One value per {@link Primitive},
+	 * or null for non-triangle primitives. Reported only with the `efficiency` option.
+	 */
+	acmr?: (number | null)[];
+	/**
+	 * Average transformed vertex ratio: vertex shader invocations per unique vertex. Lower is
+	 * better; 1 is optimal. Reported only with the `efficiency` option.
+	 */
+	atvr?: (number | null)[];
+	/**
+	 * Overdraw estimate: fragments shaded per pixel covered, over six axis-aligned orthographic views.
+	 * Lower is better; 1 is optimal. Reported only with the `efficiency` option.
+	 */
+	overdraw?: (number | null)[];
+	/**
+	 * Vertex fetch efficiency, as bytes fetched from vertex attributes per byte of unique vertex
+	 * data, with a simulated memory cache. Lower is better; 1 is optimal. Reported only with the
+	 * `efficiency` option.
+	 */
+	overfetch?: (number | null)[];
 }
 
 export interface InspectMaterialReport {
@@ -270,6 +417,16 @@ export interface InspectAnimationReport {
 	size: number;
 }
 
+export interface InspectLODReport {
+	name: string;
+	/** Number of levels of detail, including the original node. */
+	levels: number;
+	/** GL primitives (e.g. triangles) drawn for each level of detail, from highest to lowest detail. */
+	glPrimitives: number[];
+	/** Screen coverage thresholds for each level of detail, from `MSFT_screencoverage` extras. */
+	coverages: number[];
+}
+
 const MeshPrimitiveModeLabels = [
 	'POINTS',
 	'LINES',
@@ -280,6 +437,15 @@ const MeshPrimitiveModeLabels = [
 	'TRIANGLE_FAN',
 ];
 
+const ComponentTypeLabels: Record<number, string> = {
+	[Accessor.ComponentType.BYTE]: 'int8',
+	[Accessor.ComponentType.UNSIGNED_BYTE]: 'uint8',
+	[Accessor.ComponentType.SHORT]: 'int16',
+	[Accessor.ComponentType.UNSIGNED_SHORT]: 'uint16',
+	[Accessor.ComponentType.UNSIGNED_INT]: 'uint32',
+	[Accessor.ComponentType.FLOAT]: 'float32',
+};
+
 /** Maps values in a vector to a finite precision. */
 function toPrecision(v: number[]): number[] {
 	for (let i = 0; i < v.length; i++) {
@@ -288,6 +454,166 @@ function toPrecision(v: number[]): number[] {
 	return v;
 }
 
-function arrayToType(array: TypedArray): string {
-	return array.constructor.name.replace('Array', '').toLowerCase();
+/** Returns the component type of an accessor ('float32', 'uint16', ...), without reading its data. */
+function accessorToType(accessor: Accessor): string {
+	return ComponentTypeLabels[accessor.getComponentType()];
+}
+
+interface PrimitiveEfficiency {
+	acmr: number;
+	atvr: number;
+	overdraw: number;
+	overfetch: number;
+}
+
+/**
+ * Computes vertex cache, overdraw, and vertex fetch efficiency of a triangle list primitive,
+ * or returns null for other primitive modes.
+ */
+function getPrimitiveEfficiency(prim: Primitive): PrimitiveEfficiency | null {
+	const position = prim.getAttribute('POSITION');
+	if (prim.getMode() !== Primitive.Mode.TRIANGLES || !position) return null;
+
+	const vertexCount = position.getCount();
+	const indicesAccessor = prim.getIndices();
+	const indices = indicesAccessor ? indicesAccessor.getArray()! : createSequence(vertexCount);
+	const triangleCount = Math.floor(indices.length / 3);
+	if (!triangleCount) return null;
+
+	// Vertex cache: FIFO cache, where each miss is a vertex shader invocation.
+	const timestamps = new Uint32Array(vertexCount);
+	const seen = new Uint8Array(vertexCount);
+	let time = VERTEX_CACHE_SIZE + 1;
+	let misses = 0;
+	let uniqueCount = 0;
+	for (let i = 0; i < triangleCount * 3; i++) {
+		const index = indices[i];
+		if (time - timestamps[index] > VERTEX_CACHE_SIZE) {
+			timestamps[index] = time++;
+			misses++;
+		}
+		if (!seen[index]) {
+			seen[index] = 1;
+			uniqueCount++;
+		}
+	}
+
+	// Vertex fetch: direct-mapped cache over interleaved vertex attributes.
+	let vertexSize = 0;
+	for (const attribute of prim.listAttributes()) {
+		vertexSize += attribute.getElementSize() * attribute.getComponentSize();
+	}
+	const cacheLines = new Int32Array(VERTEX_FETCH_CACHE_SIZE / VERTEX_FETCH_CACHE_LINE).fill(-1);
+	let bytesFetched = 0;
+	for (let i = 0; i < triangleCount * 3; i++) {
+		const start = indices[i] * vertexSize;
+		const firstLine = Math.floor(start / VERTEX_FETCH_CACHE_LINE);
+		const lastLine = Math.floor((start + vertexSize - 1) / VERTEX_FETCH_CACHE_LINE);
+		for (let line = firstLine; line <= lastLine; line++) {
+			const slot = line % cacheLines.length;
+			if (cacheLines[slot] !== line) {
+				cacheLines[slot] = line;
+				bytesFetched += VERTEX_FETCH_CACHE_LINE;
+			}
+		}
+	}
+
+	return {
+		acmr: toFixed(misses / triangleCount),
+		atvr: toFixed(misses / uniqueCount),
+		overdraw: toFixed(getOverdraw(prim, indices, triangleCount)),
+		overfetch: toFixed(bytesFetched / (uniqueCount * vertexSize)),
+	};
+}
+
+/**
+ * Estimates overdraw by rasterizing back-face culled triangles, in submission order and with a
+ * depth test, from six axis-aligned orthographic views. Returns the ratio of fragments shaded to
+ * pixels covered.
+ */
+function getOverdraw(prim: Primitive, indices: TypedArray | number[], triangleCount: number): number {
+	const position = prim.getAttribute('POSITION')!;
+	const positions = new Float32Array(position.getCount() * 3);
+	const min = [Infinity, Infinity, Infinity];
+	const max = [-Infinity, -Infinity, -Infinity];
+	const el = [0, 0, 0];
+	for (let i = 0; i < position.getCount(); i++) {
+		position.getElement(i, el);
+		for (let j = 0; j < 3; j++) {
+			positions[i * 3 + j] = el[j];
+			min[j] = Math.min(min[j], el[j]);
+			max[j] = Math.max(max[j], el[j]);
+		}
+	}
+
+	const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+	if (!(extent > 0)) return 0;
+	const scale = OVERDRAW_VIEWPORT_SIZE / extent;
+
+	const depth = new Float32Array(OVERDRAW_VIEWPORT_SIZE * OVERDRAW_VIEWPORT_SIZE);
+	const x = [0, 0, 0];
+	const y = [0, 0, 0];
+	const z = [0, 0, 0];
+	let shaded = 0;
+	let covered = 0;
+
+	for (let axis = 0; axis < 3; axis++) {
+		const u = (axis + 1) % 3;
+		const v = (axis + 2) % 3;
+		for (const direction of [1, -1]) {
+			depth.fill(Infinity);
+
+			for (let t = 0; t < triangleCount; t++) {
+				for (let k = 0; k < 3; k++) {
+					const index = indices[t * 3 + k];
+					x[k] = (positions[index * 3 + u] - min[u]) * scale;
+					y[k] = (positions[index * 3 + v] - min[v]) * scale;
+					z[k] = positions[index * 3 + axis] * direction;
+				}
+
+				const area = (x[1] - x[0]) * (y[2] - y[0]) - (x[2] - x[0]) * (y[1] - y[0]);
+				if (area * direction <= 0) continue;
+
+				const xMin = Math.max(0, Math.floor(Math.min(x[0], x[1], x[2])));
+				const xMax = Math.min(OVERDRAW_VIEWPORT_SIZE - 1, Math.ceil(Math.max(x[0], x[1], x[2])));
+				const yMin = Math.max(0, Math.floor(Math.min(y[0], y[1], y[2])));
+				const yMax = Math.min(OVERDRAW_VIEWPORT_SIZE - 1, Math.ceil(Math.max(y[0], y[1], y[2])));
+
+				for (let py = yMin; py <= yMax; py++) {
+					for (let px = xMin; px <= xMax; px++) {
+						// Barycentric coordinates of the pixel center.
+						const cx = px + 0.5;
+						const cy = py + 0.5;
+						const w0 = ((x[2] - x[1]) * (cy - y[1]) - (y[2] - y[1]) * (cx - x[1])) / area;
+						const w1 = ((x[0] - x[2]) * (cy - y[2]) - (y[0] - y[2]) * (cx - x[2])) / area;
+						const w2 = 1 - w0 - w1;
+						if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+						const pixel = py * OVERDRAW_VIEWPORT_SIZE + px;
+						const fragmentDepth = w0 * z[0] + w1 * z[1] + w2 * z[2];
+						if (fragmentDepth < depth[pixel]) {
+							depth[pixel] = fragmentDepth;
+							shaded++;
+						}
+					}
+				}
+			}
+
+			for (let i = 0; i < depth.length; i++) {
+				if (depth[i] !== Infinity) covered++;
+			}
+		}
+	}
+
+	return covered ? shaded / covered : 0;
+}
+
+function createSequence(count: number): Uint32Array {
+	const sequence = new Uint32Array(count);
+	for (let i = 0; i < count; i++) sequence[i] = i;
+	return sequence;
+}
+
+function toFixed(value: number): number {
+	return Math.round(value * 1000) / 1000;
 }
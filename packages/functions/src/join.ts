@@ -0,0 +1,307 @@
+import {
+	Document,
+	mat3,
+	mat4,
+	Material,
+	Mesh,
+	Node,
+	Primitive,
+	PropertyType,
+	Transform,
+	vec3,
+} from '@gltf-transform/core';
+import { determinant } from 'gl-matrix/mat4';
+import { fromMat4, normalFromMat4 } from 'gl-matrix/mat3';
+import { normalize, transformMat3, transformMat4 } from 'gl-matrix/vec3';
+import { prune } from './prune';
+import { createTransform, getAnimatedTransformNode } from './utils';
+
+const NAME = 'join';
+
+const JOINABLE_MODES = new Set([Primitive.Mode.POINTS, Primitive.Mode.LINES, Primitive.Mode.TRIANGLES]);
+
+/** Options for the {@link join} function. */
+export interface JoinOptions {
+	/** Whether to keep Meshes of named {@link Node Nodes} separate. Default: false. */
+	keepNamed?: boolean;
+	/**
+	 * Maximum number of vertices in a joined {@link Primitive}. Default: 65534, such that joined
+	 * primitives can use Uint16 indices.
+	 */
+	vertexLimit?: number;
+}
+
+export const JOIN_DEFAULTS: Required<JoinOptions> = {
+	keepNamed: false,
+	vertexLimit: 65534,
+};
+
+/** @internal Primitive instantiated by a Node, in the Node's world space. */
+interface PrimitiveInstance {
+	node: Node;
+	prim: Primitive;
+	vertexCount: number;
+}
+
+/**
+ * Joins compatible {@link Primitive Primitives} across {@link Mesh Meshes} and
+ * {@link Node Nodes} in each {@link Scene}, reducing the number of draw calls.
+ * Primitives are compatible if they share a {@link Material}, draw mode, and
+ * vertex attribute layout. Vertices are transformed into the common space of
+ * the Scene, and joined primitives are attached to a new Node at the Scene root.
+ *
+ * Nodes that are animated (by translation, rotation, or scale) or have animated
+ * ancestors, skinned Nodes, and instanced Nodes are not joined, nor are
+ * Primitives with morph targets or extensions. Materials are compared by
+ * reference, so applying {@link dedup} first may allow more primitives to be
+ * joined. For repeated meshes, consider {@link instance} instead.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { dedup, join } from '@gltf-transform/functions';
+ *
+ * await document.transform(
+ * 	dedup({ propertyTypes: [PropertyType.MATERIAL] }),
+ * 	join({ keepNamed: false })
+ * );
+ * ```
+ */
+export function join(_options: JoinOptions = JOIN_DEFAULTS): Transform {
+	const options = { ...JOIN_DEFAULTS, ..._options } as Required<JoinOptions>;
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const root = doc.getRoot();
+		const logger = doc.getLogger();
+
+		// Mark nodes with TRS animation.
+		const animated = new Set<Node>();
+		for (const animation of root.listAnimations()) {
+			for (const channel of animation.listChannels()) {
+				const node = getAnimatedTransformNode(channel);
+				if (node) animated.add(node);
+			}
+		}
+
+		// Materials are compared by reference.
+		const materialIndices = new Map<Material, number>();
+		root.listMaterials().forEach((material, index) => materialIndices.set(material, index));
+
+		let srcCount = 0;
+		let dstCount = 0;
+
+		for (const scene of root.listScenes()) {
+			// (1) Group compatible primitive instances, skipping nodes that cannot be joined.
+			const groups = new Map<string, PrimitiveInstance[]>();
+			const hasAnimatedAncestor = new Set<Node>();
+
+			scene.traverse((node) => {
+				const parent = node.getParent();
+				if (animated.has(node) || (parent instanceof Node && hasAnimatedAncestor.has(parent))) {
+					hasAnimatedAncestor.add(node);
+					return;
+				}
+
+				const mesh = node.getMesh();
+				if (!mesh || node.getSkin()) return;
+				if (node.getExtension('EXT_mesh_gpu_instancing')) return;
+				if (options.keepNamed && node.getName()) return;
+
+				for (const prim of mesh.listPrimitives()) {
+					const key = createPrimitiveKey(prim, materialIndices);
+					if (!key) continue;
+
+					const instance = { node, prim, vertexCount: prim.getAttribute('POSITION')!.getCount() };
+					if (instance.vertexCount > options.vertexLimit) continue;
+
+					const group = groups.get(key) || [];
+					group.push(instance);
+					groups.set(key, group);
+				}
+			});
+
+			// (2) Split groups into batches within the vertex limit.
+			const batches: PrimitiveInstance[][] = [];
+			for (const group of Array.from(groups.values())) {
+				let batch: PrimitiveInstance[] = [];
+				let batchVertexCount = 0;
+				for (const instance of group) {
+					if (batchVertexCount + instance.vertexCount > options.vertexLimit) {
+						batches.push(batch);
+						batch = [];
+						batchVertexCount = 0;
+					}
+					batch.push(instance);
+					batchVertexCount += instance.vertexCount;
+				}
+				batches.push(batch);
+			}
+
+			// (3) Join each batch into a new primitive, attached to a new mesh and node.
+			const joinedInstances = new Map<Node, Set<Primitive>>();
+			let joinedMesh: Mesh | null = null;
+
+			for (const batch of batches) {
+				if (batch.length < 2) continue;
+
+				if (!joinedMesh) {
+					joinedMesh = doc.createMesh();
+					scene.addChild(doc.createNode().setMesh(joinedMesh));
+				}
+
+				joinedMesh.addPrimitive(joinPrimitives(doc, batch));
+
+				for (const { node, prim } of batch) {
+					const prims = joinedInstances.get(node) || new Set<Primitive>();
+					joinedInstances.set(node, prims.add(prim));
+				}
+
+				srcCount += batch.length;
+				dstCount++;
+			}
+
+			// (4) Detach joined primitives from their original nodes. Meshes may be shared by
+			// other nodes, and so are cloned rather than modified.
+			for (const [node, prims] of Array.from(joinedInstances.entries())) {
+				const mesh = node.getMesh()!.clone();
+				for (const prim of Array.from(prims)) mesh.removePrimitive(prim);
+
+				if (mesh.listPrimitives().length) {
+					node.setMesh(mesh);
+				} else {
+					node.setMesh(null);
+					mesh.dispose();
+				}
+			}
+		}
+
+		// Clean up meshes, primitives, and accessors left unused.
+		await doc.transform(
+			prune({
+				propertyTypes: [PropertyType.MESH, PropertyType.PRIMITIVE, PropertyType.ACCESSOR],
+			})
+		);
+
+		logger.info(`${NAME}: Joined ${srcCount} primitives into ${dstCount}.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Returns a key identifying the material, mode, and vertex attribute layout of the primitive.
+ * Primitives with equal keys may be joined. Returns null if the primitive cannot be joined.
+ */
+function createPrimitiveKey(prim: Primitive, materialIndices: Map<Material, number>): string | null {
+	if (!JOINABLE_MODES.has(prim.getMode())) return null;
+	if (prim.listTargets().length > 0) return null;
+	if (prim.listExtensions().length > 0) return null;
+	if (!prim.getAttribute('POSITION')) return null;
+
+	const material = prim.getMaterial();
+	const materialIndex = material ? materialIndices.get(material) : -1;
+
+	const attributeKeys = prim
+		.listSemantics()
+		.sort()
+		.map((semantic) => {
+			const attribute = prim.getAttribute(semantic)!;
+			if (isTransformedSemantic(semantic)) {
+				return `${semantic}:${attribute.getType()}`;
+			}
+			return [
+				semantic,
+				attribute.getType(),
+				attribute.getComponentType(),
+				attribute.getNormalized(),
+			].join(':');
+		});
+
+	return [materialIndex, prim.getMode(), ...attributeKeys].join('|');
+}
+
+/** Positions, normals, and tangents are transformed into world space, written as float32. */
+function isTransformedSemantic(semantic: string): boolean {
+	return semantic === 'POSITION' || semantic === 'NORMAL' || semantic === 'TANGENT';
+}
+
+/** Joins primitives into a single, indexed primitive in world space. */
+function joinPrimitives(doc: Document, batch: PrimitiveInstance[]): Primitive {
+	const template = batch[0].prim;
+	const buffer = template.getAttribute('POSITION')!.getBuffer();
+	const vertexCount = batch.reduce((count, { vertexCount }) => count + vertexCount, 0);
+	const indexCount = batch.reduce((count, { prim, vertexCount }) => {
+		const indices = prim.getIndices();
+		return count + (indices ? indices.getCount() : vertexCount);
+	}, 0);
+
+	// Allocate attributes and indices.
+	const dstPrim = doc.createPrimitive().setMode(template.getMode()).setMaterial(template.getMaterial());
+
+	for (const semantic of template.listSemantics()) {
+		const srcAttribute = template.getAttribute(semantic)!;
+		const elementSize = srcAttribute.getElementSize();
+		const dstAttribute = doc.createAccessor().setType(srcAttribute.getType()).setBuffer(buffer);
+		if (isTransformedSemantic(semantic)) {
+			dstAttribute.setArray(new Float32Array(vertexCount * elementSize));
+		} else {
+			const ArrayConstructor = srcAttribute.getArray()!.constructor as Float32ArrayConstructor;
+			dstAttribute.setArray(new ArrayConstructor(vertexCount * elementSize));
+			dstAttribute.setNormalized(srcAttribute.getNormalized());
+		}
+		dstPrim.setAttribute(semantic, dstAttribute);
+	}
+
+	const dstIndicesArray = vertexCount <= 65534 ? new Uint16Array(indexCount) : new Uint32Array(indexCount);
+	const dstIndices = doc.createAccessor().setBuffer(buffer).setArray(dstIndicesArray);
+	dstPrim.setIndices(dstIndices);
+
+	// Write vertices, transformed into world space.
+	let vertexOffset = 0;
+	let indexOffset = 0;
+	const el = [] as number[];
+	const normalMatrix = [0, 0, 0, 0, 0, 0, 0, 0, 0] as mat3;
+	const tangentMatrix = [0, 0, 0, 0, 0, 0, 0, 0, 0] as mat3;
+
+	for (const { node, prim, vertexCount } of batch) {
+		const worldMatrix = node.getWorldMatrix();
+		const isMirrored = determinant(worldMatrix as mat4) < 0;
+		normalFromMat4(normalMatrix, worldMatrix);
+		fromMat4(tangentMatrix, worldMatrix);
+
+		for (const semantic of prim.listSemantics()) {
+			const srcAttribute = prim.getAttribute(semantic)!;
+			const dstAttribute = dstPrim.getAttribute(semantic)!;
+			for (let i = 0; i < vertexCount; i++) {
+				srcAttribute.getElement(i, el);
+				if (semantic === 'POSITION') {
+					transformMat4(el as vec3, el as vec3, worldMatrix);
+				} else if (semantic === 'NORMAL') {
+					normalize(el as vec3, transformMat3(el as vec3, el as vec3, normalMatrix));
+				} else if (semantic === 'TANGENT') {
+					// Transform xyz only. Handedness in w flips if the world matrix is mirrored.
+					const w = el[3];
+					normalize(el as vec3, transformMat3(el as vec3, el as vec3, tangentMatrix));
+					el[3] = isMirrored ? -w : w;
+				}
+				dstAttribute.setElement(vertexOffset + i, el);
+			}
+		}
+
+		// Write indices, reversing winding order if the world matrix flips handedness.
+		const srcIndices = prim.getIndices();
+		const srcIndexCount = srcIndices ? srcIndices.getCount() : vertexCount;
+		const flipWinding = prim.getMode() === Primitive.Mode.TRIANGLES && isMirrored;
+		for (let i = 0; i < srcIndexCount; i++) {
+			let j = i;
+			if (flipWinding && i % 3 === 1) j = i + 1;
+			if (flipWinding && i % 3 === 2) j = i - 1;
+			const index = srcIndices ? srcIndices.getScalar(j) : j;
+			dstIndicesArray[indexOffset + i] = vertexOffset + index;
+		}
+
+		vertexOffset += vertexCount;
+		indexOffset += srcIndexCount;
+	}
+
+	return dstPrim;
+}
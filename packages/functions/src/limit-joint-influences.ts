@@ -0,0 +1,134 @@
+import { Accessor, Document, Primitive, PropertyType, Transform } from '@gltf-transform/core';
+import { prune } from './prune';
+import { createTransform } from './utils';
+
+const NAME = 'limitJointInfluences';
+
+/** Options for the {@link limitJointInfluences} function. */
+export interface LimitJointInfluencesOptions {
+	/** Maximum number of joints influencing each vertex. Default: 4. */
+	max?: number;
+}
+
+export const LIMIT_JOINT_INFLUENCES_DEFAULTS: Required<LimitJointInfluencesOptions> = {
+	max: 4,
+};
+
+/**
+ * Limits the number of joints influencing each vertex of skinned {@link Primitive Primitives}.
+ * For each vertex, joints with the largest weights are kept, and the remaining weights are
+ * renormalized to sum to 1. Excess `JOINTS_n` and `WEIGHTS_n` attribute sets are removed, such
+ * that each primitive has at most `Math.ceil(max / 4)` sets. Many engines support no more than
+ * four influences per vertex.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { limitJointInfluences } from '@gltf-transform/functions';
+ *
+ * await document.transform(limitJointInfluences({ max: 4 }));
+ * ```
+ */
+export function limitJointInfluences(
+	_options: LimitJointInfluencesOptions = LIMIT_JOINT_INFLUENCES_DEFAULTS
+): Transform {
+	const options = { ...LIMIT_JOINT_INFLUENCES_DEFAULTS, ..._options } as Required<LimitJointInfluencesOptions>;
+
+	if (!(options.max >= 1) || !Number.isInteger(options.max)) {
+		throw new Error(`${NAME}: Expected "max" to be a positive integer.`);
+	}
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+		let limitedCount = 0;
+
+		for (const mesh of doc.getRoot().listMeshes()) {
+			for (const prim of mesh.listPrimitives()) {
+				if (limitPrimitive(prim, options.max)) limitedCount++;
+			}
+		}
+
+		if (limitedCount > 0) {
+			await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+		}
+
+		logger.debug(`${NAME}: Limited joint influences for ${limitedCount} primitives.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Rewrites joints and weights of the primitive with at most `max` influences per vertex,
+ * returning false if the primitive is unskinned or already within the limit.
+ */
+function limitPrimitive(prim: Primitive, max: number): boolean {
+	const srcJoints: Accessor[] = [];
+	const srcWeights: Accessor[] = [];
+	let joints: Accessor | null;
+	let weights: Accessor | null;
+	while (
+		(joints = prim.getAttribute(`JOINTS_${srcJoints.length}`)) &&
+		(weights = prim.getAttribute(`WEIGHTS_${srcWeights.length}`))
+	) {
+		srcJoints.push(joints);
+		srcWeights.push(weights);
+	}
+
+	if (srcJoints.length * 4 <= max) return false;
+
+	const vertexCount = srcJoints[0].getCount();
+	const dstSetCount = Math.ceil(max / 4);
+
+	// Collect influences for every vertex, and return early if none exceed the limit.
+	const influences: [number, number][][] = [];
+	const jointsEl: number[] = [];
+	const weightsEl: number[] = [];
+	let needsUpdate = srcJoints.length > dstSetCount;
+	for (let i = 0; i < vertexCount; i++) {
+		const vertexInfluences: [number, number][] = [];
+		for (let j = 0; j < srcJoints.length; j++) {
+			srcJoints[j].getElement(i, jointsEl);
+			srcWeights[j].getElement(i, weightsEl);
+			for (let k = 0; k < 4; k++) {
+				if (weightsEl[k] > 0) vertexInfluences.push([jointsEl[k], weightsEl[k]]);
+			}
+		}
+		if (vertexInfluences.length > max) needsUpdate = true;
+		influences.push(vertexInfluences);
+	}
+
+	if (!needsUpdate) return false;
+
+	// Write the strongest influences into new attributes, renormalized. Joint indices may move
+	// between sets, so each set uses the largest joint component type of any source set.
+	const JointArray = srcJoints
+		.map((accessor) => accessor.getArray()!.constructor as Uint16ArrayConstructor)
+		.reduce((a, b) => (b.BYTES_PER_ELEMENT > a.BYTES_PER_ELEMENT ? b : a));
+	const dstJoints: Accessor[] = [];
+	const dstWeights: Accessor[] = [];
+	for (let j = 0; j < dstSetCount; j++) {
+		dstJoints.push(srcJoints[j].clone().setArray(new JointArray(vertexCount * 4)));
+		dstWeights.push(srcWeights[j].clone());
+	}
+
+	for (let i = 0; i < vertexCount; i++) {
+		const vertexInfluences = influences[i].sort((a, b) => b[1] - a[1]).slice(0, max);
+		const sum = vertexInfluences.reduce((sum, [_, weight]) => sum + weight, 0);
+		for (let j = 0; j < dstSetCount; j++) {
+			for (let k = 0; k < 4; k++) {
+				const influence = vertexInfluences[j * 4 + k];
+				jointsEl[k] = influence ? influence[0] : 0;
+				weightsEl[k] = influence ? influence[1] / sum : 0;
+			}
+			dstJoints[j].setElement(i, jointsEl);
+			dstWeights[j].setElement(i, weightsEl);
+		}
+	}
+
+	for (let j = 0; j < srcJoints.length; j++) {
+		prim.setAttribute(`JOINTS_${j}`, j < dstSetCount ? dstJoints[j] : null);
+		prim.setAttribute(`WEIGHTS_${j}`, j < dstSetCount ? dstWeights[j] : null);
+	}
+
+	return true;
+}
@@ -0,0 +1,155 @@
+import { Document, Mesh, Node, Primitive, PropertyType, Transform } from '@gltf-transform/core';
+import { LevelOfDetail, LOD } from '@gltf-transform/extensions';
+import type { MeshoptSimplifier } from 'meshoptimizer';
+import { prune } from './prune';
+import { simplifyPrimitive } from './simplify';
+import { createTransform, getGLPrimitiveCount } from './utils';
+import { weld } from './weld';
+
+const NAME = 'lod';
+
+/** Options for the {@link lod} function. */
+export interface LODOptions {
+	/** MeshoptSimplifier instance. */
+	simplifier: unknown;
+	/**
+	 * Target ratios (0–1) of triangles to keep for each lower level of detail, from highest to
+	 * lowest detail. Default: [0.5, 0.25].
+	 */
+	ratios?: number[];
+	/**
+	 * Screen coverage (0–1) above which each level is displayed, including the original mesh,
+	 * from highest to lowest detail. One additional value may be given, below which nothing is
+	 * displayed. Default: [0.5, 0.25, 0.1].
+	 */
+	coverages?: number[];
+	/** Limit on error for each level, as a fraction of mesh radius. Default: 0.1 (10%). */
+	error?: number;
+}
+
+export const LOD_DEFAULTS: Required<Omit<LODOptions, 'simplifier'>> = {
+	ratios: [0.5, 0.25],
+	coverages: [0.5, 0.25, 0.1],
+	error: 0.1,
+};
+
+/**
+ * Generates lower levels of detail (LODs) for each {@link Node} with a {@link Mesh}, using the
+ * `MSFT_lod` extension. Each level is a simplified copy of the original mesh, attached to a new
+ * Node linked from the original Node, with screen coverage thresholds written to the original
+ * Node's `MSFT_screencoverage` extras. Viewers that do not support `MSFT_lod` display the
+ * original meshes. See {@link LevelOfDetail}.
+ *
+ * Simplification is based on meshoptimizer, as in {@link simplify}. Nodes sharing a mesh share
+ * its LOD meshes, and nodes that already have LODs are skipped.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { lod } from '@gltf-transform/functions';
+ * import { MeshoptSimplifier } from 'meshoptimizer';
+ *
+ * await document.transform(
+ * 	lod({ simplifier: MeshoptSimplifier, ratios: [0.5, 0.1], coverages: [0.5, 0.2, 0.05] })
+ * );
+ * ```
+ */
+export function lod(_options: LODOptions): Transform {
+	const options = { ...LOD_DEFAULTS, ..._options } as Required<LODOptions>;
+	const simplifier = options.simplifier as typeof MeshoptSimplifier | undefined;
+
+	if (!simplifier) {
+		throw new Error(`${NAME}: simplifier dependency required — install "meshoptimizer".`);
+	}
+
+	const levelCount = options.ratios.length + 1;
+	if (options.coverages.length !== levelCount && options.coverages.length !== levelCount + 1) {
+		throw new Error(`${NAME}: Expected ${levelCount} or ${levelCount + 1} coverages, one for each level.`);
+	}
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		await simplifier.ready;
+		await doc.transform(weld({ tolerance: 0.0001 }));
+
+		const meshLODs = new Map<Mesh, Mesh[]>();
+		let lodExtension: LevelOfDetail | null = null;
+		let nodeCount = 0;
+
+		for (const node of doc.getRoot().listNodes()) {
+			const mesh = node.getMesh();
+			if (!mesh || node.getExtension('MSFT_lod') || isLODLevel(node)) continue;
+
+			let lodMeshes = meshLODs.get(mesh);
+			if (!lodMeshes) {
+				lodMeshes = options.ratios.map((ratio, index) => createLODMesh(doc, mesh, index + 1, ratio, options));
+				meshLODs.set(mesh, lodMeshes);
+			}
+
+			lodExtension = lodExtension || doc.createExtension(LevelOfDetail);
+			const lod = lodExtension.createLOD();
+			lodMeshes.forEach((lodMesh, index) => {
+				const name = node.getName() ? `${node.getName()}_LOD${index + 1}` : '';
+				const lodNode = doc
+					.createNode(name)
+					.setMesh(lodMesh)
+					.setSkin(node.getSkin())
+					.setWeights(node.getWeights())
+					.setTranslation(node.getTranslation())
+					.setRotation(node.getRotation())
+					.setScale(node.getScale());
+				lod.addLevel(lodNode);
+			});
+
+			node.setExtension('MSFT_lod', lod).setExtras({
+				...node.getExtras(),
+				MSFT_screencoverage: options.coverages.slice(),
+			});
+			nodeCount++;
+		}
+
+		// Clean up any attributes left unused by simplification.
+		await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+
+		logger.info(`${NAME}: Created ${options.ratios.length} LODs for ${nodeCount} nodes.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/** Returns true if the node is a lower level of detail for another node. */
+function isLODLevel(node: Node): boolean {
+	return node.listParents().some((parent) => parent instanceof LOD);
+}
+
+/** Creates a simplified copy of the mesh, for the given level of detail. */
+function createLODMesh(doc: Document, mesh: Mesh, level: number, ratio: number, options: Required<LODOptions>): Mesh {
+	const logger = doc.getLogger();
+	const name = mesh.getName() ? `${mesh.getName()}_LOD${level}` : '';
+	const lodMesh = doc.createMesh(name).setWeights(mesh.getWeights());
+
+	let srcCount = 0;
+	let dstCount = 0;
+
+	for (const prim of mesh.listPrimitives()) {
+		const lodPrim = prim.clone();
+
+		if (prim.getMode() === Primitive.Mode.TRIANGLES && prim.getIndices()) {
+			srcCount += getGLPrimitiveCount(prim);
+			simplifyPrimitive(lodPrim, { simplifier: options.simplifier, ratio, error: options.error });
+			dstCount += getGLPrimitiveCount(lodPrim);
+		} else {
+			logger.warn(`${NAME}: Skipping primitive of mesh "${mesh.getName()}": Requires TRIANGLES mode.`);
+		}
+
+		if (getGLPrimitiveCount(lodPrim) > 0) {
+			lodMesh.addPrimitive(lodPrim);
+		} else {
+			lodPrim.dispose();
+		}
+	}
+
+	logger.debug(`${NAME}: Mesh "${mesh.getName()}", LOD${level}: ${srcCount} → ${dstCount} triangles.`);
+
+	return lodMesh;
+}
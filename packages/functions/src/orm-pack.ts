@@ -0,0 +1,153 @@
+import ndarray from 'ndarray';
+import { lanczos3 } from 'ndarray-lanczos';
+import type { NdArray } from 'ndarray';
+import { Document, ImageUtils, Material, Texture, TextureChannel, Transform } from '@gltf-transform/core';
+import { getTextureChannelMask } from './list-texture-channels';
+import { getTexturePixels, setTexturePixels } from './texture-pixels';
+import { createTransform, hasEqualTexCoords } from './utils';
+
+const NAME = 'ormPack';
+
+const { R, G, B } = TextureChannel;
+
+/** Options for the {@link ormPack} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface OrmPackOptions {}
+
+const ORM_PACK_DEFAULTS: Required<OrmPackOptions> = {};
+
+/**
+ * Packs separate occlusion and metal/rough textures of each {@link Material} into a single
+ * "ORM" texture, with occlusion in the red channel, roughness in the green channel, and
+ * metalness in the blue channel. Both the `occlusionTexture` and `metallicRoughnessTexture`
+ * of the material are updated to use the packed texture, reducing texture bindings and,
+ * typically, file size.
+ *
+ * Textures are packed only if both are PNG or JPEG images (or have a codec registered with
+ * {@link ImageUtils.registerCodec}) sampled with the same texture coordinates. Textures of
+ * different sizes are resized, with Lanczos3 filtering, to the larger of the two. Materials
+ * sharing the same occlusion and metal/rough textures share the packed texture.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { ormPack } from '@gltf-transform/functions';
+ *
+ * await document.transform(ormPack());
+ * ```
+ */
+export function ormPack(_options: OrmPackOptions = ORM_PACK_DEFAULTS): Transform {
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	const options = { ...ORM_PACK_DEFAULTS, ..._options } as Required<OrmPackOptions>;
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		const packedTextures = new Map<Texture, Map<Texture, Texture>>();
+		const inputTextures = new Set<Texture>();
+		let packedCount = 0;
+
+		for (const material of doc.getRoot().listMaterials()) {
+			const occlusionTexture = material.getOcclusionTexture();
+			const metalRoughTexture = material.getMetallicRoughnessTexture();
+			if (!occlusionTexture || !metalRoughTexture || occlusionTexture === metalRoughTexture) continue;
+
+			if (!isPackable(doc, material, occlusionTexture, metalRoughTexture)) continue;
+
+			const cache = packedTextures.get(occlusionTexture) || new Map<Texture, Texture>();
+			packedTextures.set(occlusionTexture, cache);
+
+			let ormTexture = cache.get(metalRoughTexture);
+			if (!ormTexture) {
+				ormTexture = await packTextures(doc, occlusionTexture, metalRoughTexture);
+				cache.set(metalRoughTexture, ormTexture);
+				packedCount++;
+			}
+
+			material.setOcclusionTexture(ormTexture).setMetallicRoughnessTexture(ormTexture);
+			inputTextures.add(occlusionTexture).add(metalRoughTexture);
+		}
+
+		// Clean up unused textures.
+		for (const texture of Array.from(inputTextures)) {
+			if (texture.listParents().length === 1) texture.dispose();
+		}
+
+		logger.info(`${NAME}: Created ${packedCount} ORM textures.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Returns true if the material's occlusion and metal/rough textures can be packed. Packed
+ * textures must be sampled with the same texture coordinates, and the channels to be combined
+ * must not overlap.
+ */
+function isPackable(doc: Document, material: Material, occlusionTexture: Texture, metalRoughTexture: Texture) {
+	const logger = doc.getLogger();
+	const name = material.getName();
+
+	for (const texture of [occlusionTexture, metalRoughTexture]) {
+		const mimeType = texture.getMimeType();
+		if (mimeType !== 'image/png' && mimeType !== 'image/jpeg' && !ImageUtils.getCodec(mimeType)) {
+			logger.debug(`${NAME}: Skipping material "${name}", unsupported texture type "${mimeType}".`);
+			return false;
+		}
+	}
+
+	// Occlusion is read from red, and roughness/metalness from green/blue. Textures already
+	// combining other roles (e.g. as both occlusion and metal/rough elsewhere) are left alone.
+	const occlusionMask = getTextureChannelMask(doc, occlusionTexture);
+	const metalRoughMask = getTextureChannelMask(doc, metalRoughTexture);
+	if (occlusionMask & (G | B) || metalRoughMask & R) {
+		logger.debug(`${NAME}: Skipping material "${name}", textures already use overlapping channels.`);
+		return false;
+	}
+
+	const occlusionInfo = material.getOcclusionTextureInfo()!;
+	const metalRoughInfo = material.getMetallicRoughnessTextureInfo()!;
+	if (!hasEqualTexCoords(occlusionInfo, metalRoughInfo)) {
+		logger.debug(`${NAME}: Skipping material "${name}", textures use different texture coordinates.`);
+		return false;
+	}
+
+	return true;
+}
+
+/** Creates a texture combining occlusion (R) with roughness (G) and metalness (B). */
+async function packTextures(doc: Document, occlusionTexture: Texture, metalRoughTexture: Texture): Promise<Texture> {
+	const [occlusionWidth, occlusionHeight] = occlusionTexture.getSize()!;
+	const [metalRoughWidth, metalRoughHeight] = metalRoughTexture.getSize()!;
+	const width = Math.max(occlusionWidth, metalRoughWidth);
+	const height = Math.max(occlusionHeight, metalRoughHeight);
+
+	const occlusionPixels = resizePixels(await getTexturePixels(occlusionTexture), width, height);
+	const metalRoughPixels = resizePixels(await getTexturePixels(metalRoughTexture), width, height);
+	const ormPixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+
+	for (let i = 0; i < width; i++) {
+		for (let j = 0; j < height; j++) {
+			ormPixels.set(i, j, 0, occlusionPixels.get(i, j, 0));
+			ormPixels.set(i, j, 1, metalRoughPixels.get(i, j, 1));
+			ormPixels.set(i, j, 2, metalRoughPixels.get(i, j, 2));
+			ormPixels.set(i, j, 3, 255);
+		}
+	}
+
+	const mimeType =
+		occlusionTexture.getMimeType() === 'image/jpeg' && metalRoughTexture.getMimeType() === 'image/jpeg'
+			? 'image/jpeg'
+			: 'image/png';
+
+	const name = metalRoughTexture.getName() || occlusionTexture.getName();
+	const ormTexture = doc.createTexture(name ? `${name}_orm` : '');
+	return setTexturePixels(ormTexture, ormPixels, mimeType);
+}
+
+/** Returns pixels resized to the given dimensions, or the original pixels if already that size. */
+function resizePixels(srcPixels: NdArray<Uint8Array>, width: number, height: number): NdArray<Uint8Array> {
+	if (srcPixels.shape[0] === width && srcPixels.shape[1] === height) return srcPixels;
+	const dstPixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+	lanczos3(srcPixels, dstPixels);
+	return dstPixels;
+}
@@ -0,0 +1,150 @@
+import { Accessor, Document, Node, Primitive, PropertyType, Skin, Transform } from '@gltf-transform/core';
+import { prune } from './prune';
+import { createTransform } from './utils';
+
+const NAME = 'pruneJoints';
+
+/** Options for the {@link pruneJoints} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface PruneJointsOptions {}
+
+const PRUNE_JOINTS_DEFAULTS: Required<PruneJointsOptions> = {};
+
+/**
+ * Removes joints from each {@link Skin} that do not influence any vertex of the skinned
+ * {@link Mesh Meshes}, rewriting the `JOINTS_n` attributes and inverse bind matrices of the
+ * skin accordingly. Joint {@link Node Nodes} are not removed from the scene, and may still be
+ * used as ancestors of other joints or for attachments.
+ *
+ * Skins are left unchanged if their meshes are shared with nodes using a different skin.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { pruneJoints } from '@gltf-transform/functions';
+ *
+ * await document.transform(pruneJoints());
+ * ```
+ */
+export function pruneJoints(_options: PruneJointsOptions = PRUNE_JOINTS_DEFAULTS): Transform {
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+		let prunedCount = 0;
+
+		for (const skin of doc.getRoot().listSkins()) {
+			const prims = listSkinnedPrimitives(skin);
+			if (!prims) {
+				logger.warn(`${NAME}: Skipping skin "${skin.getName()}", with meshes shared by other skins.`);
+				continue;
+			}
+
+			// (1) Find joints with non-zero weights.
+			const joints = skin.listJoints();
+			const usedJoints = new Set<number>();
+			for (const prim of prims) {
+				forEachInfluence(prim, (joint, weight) => {
+					if (weight > 0) usedJoints.add(joint);
+				});
+			}
+
+			if (usedJoints.size === 0 || usedJoints.size === joints.length) continue;
+
+			// (2) Map old joint indices to new joint indices.
+			const jointMap = new Map<number, number>();
+			for (let i = 0; i < joints.length; i++) {
+				if (usedJoints.has(i)) jointMap.set(i, jointMap.size);
+			}
+
+			// (3) Rewrite JOINTS_n attributes. Source accessors are left for other skins, if any.
+			const dstAttributes = new Map<Accessor, Accessor>();
+			for (const prim of prims) {
+				for (const semantic of prim.listSemantics()) {
+					if (!semantic.startsWith('JOINTS_')) continue;
+					const srcJoints = prim.getAttribute(semantic)!;
+					const srcWeights = prim.getAttribute(semantic.replace('JOINTS_', 'WEIGHTS_'));
+					if (!dstAttributes.has(srcJoints)) {
+						dstAttributes.set(srcJoints, remapJoints(srcJoints, srcWeights, jointMap));
+					}
+					prim.setAttribute(semantic, dstAttributes.get(srcJoints)!);
+				}
+			}
+
+			// (4) Rewrite joints and inverse bind matrices.
+			const srcInverseBindMatrices = skin.getInverseBindMatrices();
+			if (srcInverseBindMatrices) {
+				const dstInverseBindMatrices = srcInverseBindMatrices
+					.clone()
+					.setArray(new Float32Array(jointMap.size * 16));
+				const el: number[] = [];
+				for (const [srcIndex, dstIndex] of jointMap) {
+					dstInverseBindMatrices.setElement(dstIndex, srcInverseBindMatrices.getElement(srcIndex, el));
+				}
+				skin.setInverseBindMatrices(dstInverseBindMatrices);
+			}
+
+			for (const joint of joints) skin.removeJoint(joint);
+			for (const srcIndex of jointMap.keys()) skin.addJoint(joints[srcIndex]);
+
+			logger.debug(`${NAME}: Pruned ${joints.length - jointMap.size} joints from skin "${skin.getName()}".`);
+			prunedCount++;
+		}
+
+		if (prunedCount > 0) {
+			await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+		}
+
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Lists primitives of meshes skinned by the given skin, or returns null if any of those meshes
+ * are also instantiated without the skin.
+ */
+function listSkinnedPrimitives(skin: Skin): Set<Primitive> | null {
+	const prims = new Set<Primitive>();
+	for (const node of skin.listParents()) {
+		if (!(node instanceof Node) || node.getSkin() !== skin) continue;
+		const mesh = node.getMesh();
+		if (!mesh) continue;
+		for (const parent of mesh.listParents()) {
+			if (parent instanceof Node && parent.getSkin() !== skin) return null;
+		}
+		for (const prim of mesh.listPrimitives()) prims.add(prim);
+	}
+	return prims;
+}
+
+/** Calls the callback for each (joint, weight) influence of each vertex in the primitive. */
+function forEachInfluence(prim: Primitive, callback: (joint: number, weight: number) => void): void {
+	const jointsEl: number[] = [];
+	const weightsEl: number[] = [];
+	let joints: Accessor | null;
+	let weights: Accessor | null;
+	let setIndex = 0;
+	while ((joints = prim.getAttribute(`JOINTS_${setIndex}`)) && (weights = prim.getAttribute(`WEIGHTS_${setIndex}`))) {
+		for (let i = 0, il = joints.getCount(); i < il; i++) {
+			joints.getElement(i, jointsEl);
+			weights.getElement(i, weightsEl);
+			for (let j = 0; j < jointsEl.length; j++) callback(jointsEl[j], weightsEl[j]);
+		}
+		setIndex++;
+	}
+}
+
+/** Returns a copy of the `JOINTS_n` accessor, with joint indices remapped. Unweighted joints are set to 0. */
+function remapJoints(srcJoints: Accessor, srcWeights: Accessor | null, jointMap: Map<number, number>): Accessor {
+	const dstJoints = srcJoints.clone();
+	const jointsEl: number[] = [];
+	const weightsEl: number[] = [];
+	for (let i = 0, il = srcJoints.getCount(); i < il; i++) {
+		srcJoints.getElement(i, jointsEl);
+		if (srcWeights) srcWeights.getElement(i, weightsEl);
+		for (let j = 0; j < jointsEl.length; j++) {
+			const weight = srcWeights ? weightsEl[j] : 0;
+			jointsEl[j] = weight > 0 ? jointMap.get(jointsEl[j])! : 0;
+		}
+		dstJoints.setElement(i, jointsEl);
+	}
+	return dstJoints;
+}
@@ -67,14 +67,17 @@ export const prune = function (_options: PruneOptions = PRUNE_DEFAULTS): Transfo
 			indirectTreeShake(graph, PropertyType.PRIMITIVE_TARGET);
 		}
 
+		if (propertyTypes.includes(PropertyType.MATERIAL)) root.listMaterials().forEach(treeShake);
+		if (propertyTypes.includes(PropertyType.TEXTURE)) root.listTextures().forEach(treeShake);
+
 		// Pruning animations is a bit more complicated:
-		// (1) Remove channels without target nodes.
+		// (1) Remove channels without target nodes or properties.
 		// (2) Remove animations without channels.
 		// (3) Remove samplers orphaned in the process.
 		if (propertyTypes.includes(PropertyType.ANIMATION)) {
 			for (const anim of root.listAnimations()) {
 				for (const channel of anim.listChannels()) {
-					if (!channel.getTargetNode()) {
+					if (!channel.getTargetNode() && !channel.getTargetProperty()) {
 						channel.dispose();
 						markDisposed(channel);
 					}
@@ -89,8 +92,6 @@ export const prune = function (_options: PruneOptions = PRUNE_DEFAULTS): Transfo
 			}
 		}
 
-		if (propertyTypes.includes(PropertyType.MATERIAL)) root.listMaterials().forEach(treeShake);
-		if (propertyTypes.includes(PropertyType.TEXTURE)) root.listTextures().forEach(treeShake);
 		if (propertyTypes.includes(PropertyType.ACCESSOR)) root.listAccessors().forEach(treeShake);
 		if (propertyTypes.includes(PropertyType.BUFFER)) root.listBuffers().forEach(treeShake);
 
@@ -12,6 +12,13 @@ const RESAMPLE_DEFAULTS: Required<ResampleOptions> =  {tolerance: 1e-4};
  * keyframes are commonly present in animation 'baked' by the authoring software to apply IK
  * constraints or other software-specific features. Based on THREE.KeyframeTrack.optimize().
  *
+ * CUBICSPLINE keyframes are removed only where the spline joining the adjacent keyframes
+ * reproduces the keyframe's value and in/out tangents, within the tolerance, such that the
+ * curve is unchanged.
+ *
+ * Morph target ('weights') samplers are resampled with all weights of each keyframe treated as
+ * a single element, and the tolerance applied to each weight.
+ *
  * Example: (0,0,0,0,1,1,1,0,0,0,0,0,0,0) --> (0,0,1,1,0,0)
  */
 export const resample = (_options: ResampleOptions = RESAMPLE_DEFAULTS): Transform => {
@@ -23,24 +30,11 @@ export const resample = (_options: ResampleOptions = RESAMPLE_DEFAULTS): Transfo
 		const accessorsCountPrev = doc.getRoot().listAccessors().length;
 		const logger = doc.getLogger();
 
-		let didSkipMorphTargets = false;
-
 		for (const animation of doc.getRoot().listAnimations()) {
-			// Skip morph targets, see https://github.com/donmccurdy/glTF-Transform/issues/290.
-			const morphTargetSamplers = new Set<AnimationSampler>();
-			for (const channel of animation.listChannels()) {
-				if (channel.getSampler() && channel.getTargetPath() === 'weights') {
-					morphTargetSamplers.add(channel.getSampler()!);
-				}
-			}
-
 			for (const sampler of animation.listSamplers()) {
-				if (morphTargetSamplers.has(sampler)) {
-					didSkipMorphTargets = true;
-					continue;
-				}
 				if (sampler.getInterpolation() === 'STEP'
-					|| sampler.getInterpolation() === 'LINEAR') {
+					|| sampler.getInterpolation() === 'LINEAR'
+					|| sampler.getInterpolation() === 'CUBICSPLINE') {
 					accessorsVisited.add(sampler.getInput()!);
 					accessorsVisited.add(sampler.getOutput()!);
 					optimize(sampler, options);
@@ -60,10 +54,6 @@ export const resample = (_options: ResampleOptions = RESAMPLE_DEFAULTS): Transfo
 			);
 		}
 
-		if (didSkipMorphTargets) {
-			logger.warn(`${NAME}: Skipped optimizing morph target keyframes, not yet supported.`);
-		}
-
 		logger.debug(`${NAME}: Complete.`);
 	});
 
@@ -72,12 +62,20 @@ export const resample = (_options: ResampleOptions = RESAMPLE_DEFAULTS): Transfo
 function optimize (sampler: AnimationSampler, options: ResampleOptions): void {
 	const input = sampler.getInput()!.clone();
 	const output = sampler.getOutput()!.clone();
+	const interpolation = sampler.getInterpolation();
 
 	const tolerance = options.tolerance as number;
 
 	const lastIndex = input.getCount() - 1;
 	const tmp: number[] = [];
 
+	// Output elements per keyframe. Morph target samplers output one element per target, and
+	// CUBICSPLINE samplers output an in-tangent, value, and out-tangent for each.
+	const keyframeSize = output.getCount() / input.getCount();
+	const targetCount = interpolation === 'CUBICSPLINE' ? keyframeSize / 3 : keyframeSize;
+	const valueOffset = interpolation === 'CUBICSPLINE' ? targetCount : 0;
+	const valueSize = targetCount * output.getElementSize();
+
 	let writeIndex = 1;
 
 	for (let i = 1; i < lastIndex; ++ i) {
@@ -90,23 +88,40 @@ function optimize (sampler: AnimationSampler, options: ResampleOptions): void {
 
 		// Remove unnecessary adjacent keyframes.
 		if (time !== timeNext && (i !== 1 || time !== input.getScalar(0))) {
-			for (let j = 0; j < output.getElementSize(); j++) {
-				const value = output.getElement(i, tmp)[j];
-				const valuePrev = output.getElement(i - 1, tmp)[j];
-				const valueNext = output.getElement(i + 1, tmp)[j];
+			for (let j = 0; j < valueSize; j++) {
+				const value = getValue(output, i * keyframeSize + valueOffset, j, tmp);
+				const valuePrev = getValue(output, (i - 1) * keyframeSize + valueOffset, j, tmp);
+				const valueNext = getValue(output, (i + 1) * keyframeSize + valueOffset, j, tmp);
 
-				if (sampler.getInterpolation() === 'LINEAR') {
+				if (interpolation === 'LINEAR') {
 					// Prune keyframes that are colinear with prev/next keyframes.
 					if (Math.abs(value - lerp(valuePrev, valueNext, timeMix)) > tolerance) {
 						keep = true;
 						break;
 					}
-				} else if (sampler.getInterpolation() === 'STEP') {
+				} else if (interpolation === 'STEP') {
 					// Prune keyframes that are identical to prev/next keyframes.
 					if (value !== valuePrev || value !== valueNext) {
 						keep = true;
 						break;
 					}
+				} else if (interpolation === 'CUBICSPLINE') {
+					// Prune keyframes that lie on the single cubic segment joining prev/next
+					// keyframes, with matching value and in/out tangents.
+					const tangentIn = getValue(output, i * keyframeSize, j, tmp);
+					const tangentOut = getValue(output, i * keyframeSize + 2 * targetCount, j, tmp);
+					const tangentPrev = getValue(output, (i - 1) * keyframeSize + 2 * targetCount, j, tmp);
+					const tangentNext = getValue(output, (i + 1) * keyframeSize, j, tmp);
+					const deltaTime = timeNext - timePrev;
+					const [splineValue, splineTangent] = hermite(
+						valuePrev, tangentPrev, valueNext, tangentNext, deltaTime, timeMix
+					);
+					if (Math.abs(value - splineValue) > tolerance
+						|| Math.abs(tangentIn - splineTangent) > tolerance
+						|| Math.abs(tangentOut - splineTangent) > tolerance) {
+						keep = true;
+						break;
+					}
 				}
 			}
 		}
@@ -115,7 +130,7 @@ function optimize (sampler: AnimationSampler, options: ResampleOptions): void {
 		if (keep) {
 			if (i !== writeIndex) {
 				input.setScalar(writeIndex, input.getScalar(i));
-				output.setElement(writeIndex, output.getElement(i, tmp));
+				copyKeyframe(output, i, writeIndex, keyframeSize, tmp);
 			}
 			writeIndex++;
 		}
@@ -125,14 +140,14 @@ function optimize (sampler: AnimationSampler, options: ResampleOptions): void {
 	// Flush last keyframe (compaction looks ahead).
 	if (lastIndex > 0) {
 		input.setScalar(writeIndex, input.getScalar(lastIndex));
-		output.setElement(writeIndex, output.getElement(lastIndex, tmp));
+		copyKeyframe(output, lastIndex, writeIndex, keyframeSize, tmp);
 		writeIndex++;
 	}
 
 	// If the sampler was optimized, truncate and save the results. If not, clean up.
 	if (writeIndex !== input.getCount()) {
 		input.setArray(input.getArray()!.slice(0, writeIndex));
-		output.setArray(output.getArray()!.slice(0, writeIndex * output.getElementSize()));
+		output.setArray(output.getArray()!.slice(0, writeIndex * keyframeSize * output.getElementSize()));
 		sampler.setInput(input);
 		sampler.setOutput(output);
 	} else {
@@ -141,6 +156,38 @@ function optimize (sampler: AnimationSampler, options: ResampleOptions): void {
 	}
 }
 
+/** Returns component `j` of the value beginning at output element `index`. */
+function getValue (output: Accessor, index: number, j: number, tmp: number[]): number {
+	const elementSize = output.getElementSize();
+	return output.getElement(index + Math.floor(j / elementSize), tmp)[j % elementSize];
+}
+
+function copyKeyframe (output: Accessor, srcIndex: number, dstIndex: number, size: number, tmp: number[]): void {
+	for (let k = 0; k < size; k++) {
+		output.setElement(dstIndex * size + k, output.getElement(srcIndex * size + k, tmp));
+	}
+}
+
+/**
+ * Evaluates a cubic Hermite spline segment and its derivative at normalized time `t`, using
+ * tangents in units per second as defined by the glTF CUBICSPLINE interpolation.
+ */
+function hermite (
+	v0: number, tangent0: number, v1: number, tangent1: number, deltaTime: number, t: number
+): [number, number] {
+	const t2 = t * t;
+	const t3 = t2 * t;
+	const value = (2 * t3 - 3 * t2 + 1) * v0
+		+ (t3 - 2 * t2 + t) * deltaTime * tangent0
+		+ (-2 * t3 + 3 * t2) * v1
+		+ (t3 - t2) * deltaTime * tangent1;
+	const tangent = ((6 * t2 - 6 * t) * v0
+		+ (3 * t2 - 4 * t + 1) * deltaTime * tangent0
+		+ (-6 * t2 + 6 * t) * v1
+		+ (3 * t2 - 2 * t) * deltaTime * tangent1) / deltaTime;
+	return [value, tangent];
+}
+
 function lerp (v0: number, v1: number, t: number): number {
     return v0 * (1 - t) + v1 * t;
 }
@@ -0,0 +1,71 @@
+import { Document, PropertyType, Transform } from '@gltf-transform/core';
+import { MappingList, MaterialsVariants } from '@gltf-transform/extensions';
+import { prune } from './prune';
+import { createTransform } from './utils';
+
+const NAME = 'selectVariant';
+
+/** Options for the {@link selectVariant} function. */
+export interface SelectVariantOptions {
+	/** Name of the {@link Variant} to select. */
+	variant: string;
+}
+
+/**
+ * Selects a single material variant from the `KHR_materials_variants` extension, assigning the
+ * variant's {@link Material} to every {@link Primitive} it maps. Primitives without a mapping for
+ * the variant keep their default material. The extension is then removed, along with any
+ * materials and textures no longer in use.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { selectVariant } from '@gltf-transform/functions';
+ *
+ * await document.transform(selectVariant({ variant: 'Midnight Blue' }));
+ * ```
+ */
+export function selectVariant(options: SelectVariantOptions): Transform {
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		const extensionsUsed = doc
+			.getRoot()
+			.listExtensionsUsed()
+			.map((ext) => ext.extensionName);
+		if (!extensionsUsed.includes('KHR_materials_variants')) {
+			logger.warn(`${NAME}: KHR_materials_variants not found on document.`);
+			return;
+		}
+
+		const variantsExtension = doc.createExtension(MaterialsVariants);
+		const variant = variantsExtension.listVariants().find((variant) => variant.getName() === options.variant);
+		if (!variant) {
+			throw new Error(`${NAME}: Variant "${options.variant}" not found.`);
+		}
+
+		let primCount = 0;
+
+		for (const mesh of doc.getRoot().listMeshes()) {
+			for (const prim of mesh.listPrimitives()) {
+				const mappingList = prim.getExtension<MappingList>('KHR_materials_variants');
+				if (!mappingList) continue;
+
+				// The first mapping containing the variant is selected, as in viewers.
+				const mapping = mappingList.listMappings().find((mapping) => mapping.listVariants().includes(variant));
+				if (mapping) {
+					prim.setMaterial(mapping.getMaterial());
+					primCount++;
+				}
+			}
+		}
+
+		variantsExtension.dispose();
+
+		// Clean up materials and textures used only by other variants.
+		await doc.transform(prune({ propertyTypes: [PropertyType.MATERIAL, PropertyType.TEXTURE] }));
+
+		logger.info(`${NAME}: Assigned variant "${options.variant}" to ${primCount} primitives.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
@@ -0,0 +1,177 @@
+import { Accessor, Document, Primitive, PropertyType, Transform } from '@gltf-transform/core';
+import { prune } from './prune';
+import { createTransform, getGLPrimitiveCount } from './utils';
+import { weld } from './weld';
+import type { MeshoptSimplifier } from 'meshoptimizer';
+
+const NAME = 'simplify';
+
+/** Options for the {@link simplify} function. */
+export interface SimplifyOptions {
+	/** MeshoptSimplifier instance. */
+	simplifier: unknown;
+	/** Target ratio (0–1) of triangles (as indices) to keep. Default: 0.5 (50%). */
+	ratio?: number;
+	/** Limit on error, as a fraction of mesh radius. Default: 0.01 (1%). */
+	error?: number;
+	/**
+	 * Whether to lock topological borders of the mesh. May be necessary when
+	 * adjacent 'chunks' of a large mesh (e.g. terrain) share a border, helping
+	 * to ensure no seams appear.
+	 */
+	lockBorder?: boolean;
+}
+
+export const SIMPLIFY_DEFAULTS: Required<Omit<SimplifyOptions, 'simplifier'>> = {
+	ratio: 0.5,
+	error: 0.01,
+	lockBorder: false,
+};
+
+/**
+ * Simplification algorithm, based on meshoptimizer, producing meshes with fewer
+ * triangles and vertices. Simplification is lossy, but the algorithm aims to
+ * preserve visual quality as much as possible for given parameters. Vertex
+ * attributes (UVs, normals, skin weights, morph targets, etc.) are retained on
+ * the vertices that remain after simplification.
+ *
+ * The algorithm aims to reach the target 'ratio', while minimizing error. If
+ * error exceeds the specified 'error' threshold, the algorithm will quit
+ * before reaching the target ratio. Examples:
+ *
+ * - ratio=0.5, error=0.001: Aims for 50% simplification, constrained to 0.1% error.
+ * - ratio=0.5, error=1: Aims for 50% simplification, unconstrained by error.
+ * - ratio=0.0, error=0.01: Aims for maximum simplification, constrained to 1% error.
+ *
+ * Topology, particularly split vertices, will also limit the simplifier. A
+ * {@link weld} operation is applied before simplification, so that vertices
+ * differing only by small amounts may be merged.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { simplify } from '@gltf-transform/functions';
+ * import { MeshoptSimplifier } from 'meshoptimizer';
+ *
+ * await document.transform(
+ * 	simplify({ simplifier: MeshoptSimplifier, ratio: 0.75, error: 0.001 })
+ * );
+ * ```
+ */
+export function simplify(_options: SimplifyOptions): Transform {
+	const options = { ...SIMPLIFY_DEFAULTS, ..._options } as Required<SimplifyOptions>;
+	const simplifier = options.simplifier as typeof MeshoptSimplifier | undefined;
+
+	if (!simplifier) {
+		throw new Error(`${NAME}: simplifier dependency required — install "meshoptimizer".`);
+	}
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		await simplifier.ready;
+		await doc.transform(weld({ tolerance: 0.0001 }));
+
+		for (const mesh of doc.getRoot().listMeshes()) {
+			let srcCount = 0;
+			let dstCount = 0;
+
+			for (const prim of mesh.listPrimitives()) {
+				if (prim.getMode() !== Primitive.Mode.TRIANGLES) {
+					logger.warn(`${NAME}: Skipping primitive of mesh "${mesh.getName()}": Requires TRIANGLES mode.`);
+					continue;
+				}
+
+				srcCount += getGLPrimitiveCount(prim);
+				simplifyPrimitive(prim, options);
+				const count = getGLPrimitiveCount(prim);
+				dstCount += count;
+
+				if (count === 0) prim.dispose();
+			}
+
+			if (srcCount > 0) {
+				logger.info(`${NAME}: Mesh "${mesh.getName()}": ${srcCount} → ${dstCount} triangles.`);
+			}
+
+			if (mesh.listPrimitives().length === 0) mesh.dispose();
+		}
+
+		// Clean up any attributes left unused by earlier cloning.
+		await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Simplifies a single indexed, triangle list {@link Primitive}, replacing its indices and vertex
+ * attributes. Unlike {@link simplify}, vertices are not welded first, and the simplifier must
+ * already be initialized (`await MeshoptSimplifier.ready`).
+ */
+export function simplifyPrimitive(prim: Primitive, _options: SimplifyOptions): Primitive {
+	const options = { ...SIMPLIFY_DEFAULTS, ..._options } as Required<SimplifyOptions>;
+	const simplifier = options.simplifier as typeof MeshoptSimplifier;
+
+	const position = prim.getAttribute('POSITION')!;
+	const srcIndices = prim.getIndices()!;
+	const srcVertexCount = position.getCount();
+
+	// Simplifier requires float32 positions; dequantize if necessary.
+	const positionArray = new Float32Array(srcVertexCount * 3);
+	const el = [0, 0, 0];
+	for (let i = 0; i < srcVertexCount; i++) {
+		positionArray.set(position.getElement(i, el), i * 3);
+	}
+
+	const srcIndicesArray = new Uint32Array(srcIndices.getArray()!);
+	const targetCount = Math.floor((options.ratio * srcIndicesArray.length) / 3) * 3;
+	const flags = options.lockBorder ? ['LockBorder' as const] : [];
+
+	const [dstIndicesArray] = simplifier.simplify(
+		srcIndicesArray,
+		positionArray,
+		3,
+		targetCount,
+		options.error,
+		flags
+	);
+
+	// Remove vertices no longer referenced by the simplified index list.
+	const [remap, dstVertexCount] = simplifier.compactMesh(dstIndicesArray);
+
+	const dstIndices = srcIndices.clone();
+	dstIndices.setArray(dstVertexCount <= 65534 ? new Uint16Array(dstIndicesArray) : dstIndicesArray);
+	prim.swap(srcIndices, dstIndices);
+
+	for (const srcAttribute of prim.listAttributes()) {
+		const dstAttribute = compactAttribute(srcAttribute, remap, dstVertexCount);
+		prim.swap(srcAttribute, dstAttribute);
+	}
+	for (const target of prim.listTargets()) {
+		for (const srcAttribute of target.listAttributes()) {
+			const dstAttribute = compactAttribute(srcAttribute, remap, dstVertexCount);
+			target.swap(srcAttribute, dstAttribute);
+		}
+	}
+
+	return prim;
+}
+
+/** Returns a copy of the attribute, containing only vertices retained by the remap. */
+function compactAttribute(srcAttribute: Accessor, remap: Uint32Array, dstCount: number): Accessor {
+	const elementSize = srcAttribute.getElementSize();
+	const srcArray = srcAttribute.getArray()!;
+	const dstArray = srcArray.slice(0, dstCount * elementSize);
+	const remapCount = Math.min(remap.length, srcAttribute.getCount());
+
+	for (let i = 0; i < remapCount; i++) {
+		const dstIndex = remap[i];
+		if (dstIndex === 0xffffffff) continue;
+		for (let j = 0; j < elementSize; j++) {
+			dstArray[dstIndex * elementSize + j] = srcArray[i * elementSize + j];
+		}
+	}
+
+	return srcAttribute.clone().setArray(dstArray);
+}
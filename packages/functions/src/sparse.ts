@@ -0,0 +1,140 @@
+import { Accessor, Document, Primitive, PrimitiveTarget, Transform } from '@gltf-transform/core';
+import { createTransform } from './utils';
+
+const NAME = 'sparse';
+
+/** Options for the {@link sparse} function. */
+export interface SparseOptions {
+	/**
+	 * Threshold ratio used to determine when an accessor should be sparse. Accessors with fewer
+	 * than `ratio * count` elements differing from zero, or from a base accessor, are written
+	 * with sparse storage. Default: 1/3.
+	 */
+	ratio?: number;
+}
+
+export const SPARSE_DEFAULTS: Required<SparseOptions> = {
+	ratio: 1 / 3,
+};
+
+/**
+ * Scans all {@link Accessor Accessors} in the Document, detecting whether each Accessor would
+ * benefit from sparse data storage. Sparse data storage is used when few values (< ratio)
+ * differ from zero, or from a base accessor. Particularly for assets using morph target
+ * ("shape key") animation, sparse data storage may significantly reduce file sizes: morph
+ * target attributes store displacements from the base mesh, and vertices left unchanged by a
+ * target are zero.
+ *
+ * Base accessors are chosen among attributes of the same semantic in the same
+ * {@link Primitive} and its morph targets — for example, a morph target attribute that differs
+ * from another target's attribute in only a few vertices. Sparse accessors with a base are
+ * written against the base accessor's buffer view. See {@link Accessor.getSparseBase}.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { sparse } from '@gltf-transform/functions';
+ *
+ * accessor.getArray(); // → [ 0, 0, 0, 0, 0, 25.0, 0, 0, ... ]
+ * accessor.getSparse(); // → false
+ *
+ * await document.transform(sparse({ratio: 1 / 10}));
+ *
+ * accessor.getSparse(); // → true
+ * ```
+ */
+export function sparse(_options: SparseOptions = SPARSE_DEFAULTS): Transform {
+	const options = { ...SPARSE_DEFAULTS, ..._options } as Required<SparseOptions>;
+
+	const ratio = options.ratio;
+	if (ratio < 0 || ratio > 1) {
+		throw new Error(`${NAME}: Ratio must be between 0 and 1.`);
+	}
+
+	return createTransform(NAME, (doc: Document): void => {
+		const root = doc.getRoot();
+		const logger = doc.getLogger();
+
+		// Accessors used as a base may not themselves be sparse.
+		const bases = new Set<Accessor>();
+		let modifiedCount = 0;
+
+		for (const accessor of root.listAccessors()) {
+			const count = accessor.getCount();
+			const array = accessor.getArray();
+			if (!array || !count) continue;
+
+			let base: Accessor | null = null;
+			let storedCount = countStoredElements(accessor, null);
+			for (const candidate of listBaseCandidates(accessor)) {
+				if (candidate.getSparse()) continue;
+				const candidateCount = countStoredElements(accessor, candidate);
+				if (candidateCount < storedCount) {
+					base = candidate;
+					storedCount = candidateCount;
+				}
+			}
+
+			const isSparse = !bases.has(accessor) && storedCount / count < ratio;
+			if (!isSparse) base = null;
+			if (base) bases.add(base);
+
+			if (isSparse !== accessor.getSparse() || base !== accessor.getSparseBase()) {
+				accessor.setSparse(isSparse).setSparseBase(base);
+				modifiedCount++;
+			}
+		}
+
+		logger.debug(`${NAME}: Updated sparse storage for ${modifiedCount} accessors.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/** Counts elements of the accessor that differ from the base accessor, or from zero. */
+function countStoredElements(accessor: Accessor, base: Accessor | null): number {
+	const count = accessor.getCount();
+	const elementSize = accessor.getElementSize();
+	const array = accessor.getArray()!;
+	const baseArray = base ? base.getArray()! : null;
+
+	let storedCount = 0;
+	for (let i = 0; i < count; i++) {
+		for (let j = 0; j < elementSize; j++) {
+			const k = i * elementSize + j;
+			if (array[k] !== (baseArray ? baseArray[k] : 0)) {
+				storedCount++;
+				break;
+			}
+		}
+	}
+	return storedCount;
+}
+
+/**
+ * Lists accessors compatible with the given accessor as a sparse base: attributes of the same
+ * semantic, in the same primitive and its morph targets, with identical layout.
+ */
+function listBaseCandidates(accessor: Accessor): Accessor[] {
+	const candidates = new Set<Accessor>();
+	for (const parent of accessor.listParents()) {
+		if (!(parent instanceof Primitive || parent instanceof PrimitiveTarget)) continue;
+		const prims = parent instanceof Primitive ? [parent] : parent.listParents();
+		for (const semantic of parent.listSemantics()) {
+			if (parent.getAttribute(semantic) !== accessor) continue;
+			for (const prim of prims) {
+				if (!(prim instanceof Primitive)) continue;
+				for (const target of [prim, ...prim.listTargets()]) {
+					const candidate = target.getAttribute(semantic);
+					if (candidate && candidate !== accessor) candidates.add(candidate);
+				}
+			}
+		}
+	}
+	return Array.from(candidates).filter(
+		(candidate) =>
+			candidate.getType() === accessor.getType() &&
+			candidate.getComponentType() === accessor.getComponentType() &&
+			candidate.getNormalized() === accessor.getNormalized() &&
+			candidate.getCount() === accessor.getCount()
+	);
+}
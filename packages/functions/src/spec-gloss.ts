@@ -0,0 +1,226 @@
+import ndarray from 'ndarray';
+import type { NdArray } from 'ndarray';
+import { ColorUtils, Document, ImageUtils, Material, Texture, Transform, vec3, vec4 } from '@gltf-transform/core';
+import { MaterialsPBRSpecularGlossiness } from '@gltf-transform/extensions';
+import { getTexturePixels, setTexturePixels } from './texture-pixels';
+import { createTransform, hasEqualTexCoords } from './utils';
+
+const NAME = 'specGloss';
+
+/** Specular reflectance (F0) of dielectric materials, assumed by the metal/rough workflow. */
+const DIELECTRIC_SPECULAR = 0.04;
+
+/** Options for the {@link specGloss} function. */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface SpecGlossOptions {}
+
+const SPECGLOSS_DEFAULTS: Required<SpecGlossOptions> = {};
+
+/**
+ * Converts {@link Material}s from metal/rough PBR workflow to spec/gloss PBR workflow, adding
+ * `KHR_materials_pbrSpecularGlossiness` for legacy viewers that require it. This is the inverse
+ * of {@link metalRough}. Diffuse and specular/glossiness textures are computed per pixel from
+ * the base color and metal/rough textures, and metal/rough properties are kept as a fallback
+ * for viewers that do not support the extension.
+ *
+ * Unlit materials, materials that already use `KHR_materials_pbrSpecularGlossiness`, and
+ * materials whose base color and metal/rough textures use different texture coordinates are
+ * skipped. Other PBR extensions, like `KHR_materials_specular`, are not considered.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { specGloss } from '@gltf-transform/functions';
+ *
+ * await document.transform(specGloss());
+ * ```
+ */
+export function specGloss(_options: SpecGlossOptions = SPECGLOSS_DEFAULTS): Transform {
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	const options = { ...SPECGLOSS_DEFAULTS, ..._options } as Required<SpecGlossOptions>;
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+		const specGlossExtension = doc.createExtension(MaterialsPBRSpecularGlossiness);
+
+		// Converted textures are cached by source textures and factors.
+		const textureCache = new Map<string, [Texture, Texture]>();
+		let convertedCount = 0;
+
+		for (const material of doc.getRoot().listMaterials()) {
+			if (material.getExtension('KHR_materials_pbrSpecularGlossiness')) continue;
+			if (material.getExtension('KHR_materials_unlit')) continue;
+
+			const baseColorFactor = material.getBaseColorFactor();
+			const metallicFactor = material.getMetallicFactor();
+			const roughnessFactor = material.getRoughnessFactor();
+			const baseColorTexture = material.getBaseColorTexture();
+			const metalRoughTexture = material.getMetallicRoughnessTexture();
+
+			const specGloss = specGlossExtension.createPBRSpecularGlossiness();
+
+			if (!metalRoughTexture && (!baseColorTexture || metallicFactor === 0)) {
+				// Uniform metalness: diffuse is a scaled base color, and specular/glossiness are
+				// constant, so no new textures are needed.
+				const diffuseScale = (1 - DIELECTRIC_SPECULAR) * (1 - metallicFactor);
+				specGloss
+					.setDiffuseFactor([
+						baseColorFactor[0] * diffuseScale,
+						baseColorFactor[1] * diffuseScale,
+						baseColorFactor[2] * diffuseScale,
+						baseColorFactor[3],
+					])
+					.setSpecularFactor([
+						lerp(DIELECTRIC_SPECULAR, baseColorFactor[0], metallicFactor),
+						lerp(DIELECTRIC_SPECULAR, baseColorFactor[1], metallicFactor),
+						lerp(DIELECTRIC_SPECULAR, baseColorFactor[2], metallicFactor),
+					])
+					.setGlossinessFactor(1 - roughnessFactor);
+
+				if (baseColorTexture) {
+					specGloss.setDiffuseTexture(baseColorTexture);
+					specGloss.getDiffuseTextureInfo()!.copy(material.getBaseColorTextureInfo()!);
+				}
+			} else {
+				const baseColorInfo = material.getBaseColorTextureInfo()!;
+				const metalRoughInfo = material.getMetallicRoughnessTextureInfo()!;
+				if (baseColorTexture && !hasEqualTexCoords(baseColorInfo, metalRoughInfo)) {
+					logger.warn(`${NAME}: Skipping material "${material.getName()}", textures use different UVs.`);
+					specGloss.dispose();
+					continue;
+				}
+
+				const unsupportedTexture = [baseColorTexture, metalRoughTexture].find(
+					(texture) => texture && !isSupportedTexture(texture)
+				);
+				if (unsupportedTexture) {
+					const mimeType = unsupportedTexture.getMimeType();
+					logger.warn(
+						`${NAME}: Skipping material "${material.getName()}", unsupported texture type "${mimeType}".`
+					);
+					specGloss.dispose();
+					continue;
+				}
+
+				const key = [
+					doc.getRoot().listTextures().indexOf(baseColorTexture!),
+					doc.getRoot().listTextures().indexOf(metalRoughTexture!),
+					...baseColorFactor,
+					metallicFactor,
+					roughnessFactor,
+				].join(':');
+
+				let textures = textureCache.get(key);
+				if (!textures) {
+					textures = await convertTextures(doc, material);
+					textureCache.set(key, textures);
+				}
+
+				// Factors are baked into the textures, except the diffuse factor, which multiplies
+				// the diffuse texture linearly.
+				const textureInfo = baseColorTexture ? baseColorInfo : metalRoughInfo;
+				specGloss
+					.setDiffuseFactor(baseColorFactor)
+					.setDiffuseTexture(textures[0])
+					.setSpecularFactor([1, 1, 1])
+					.setGlossinessFactor(1)
+					.setSpecularGlossinessTexture(textures[1]);
+				specGloss.getDiffuseTextureInfo()!.copy(textureInfo);
+				specGloss.getSpecularGlossinessTextureInfo()!.copy(textureInfo);
+			}
+
+			material.setExtension('KHR_materials_pbrSpecularGlossiness', specGloss);
+			convertedCount++;
+		}
+
+		if (!convertedCount) specGlossExtension.dispose();
+
+		logger.info(`${NAME}: Converted ${convertedCount} materials.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/** Returns true if the texture's pixels can be read with {@link getTexturePixels}. */
+function isSupportedTexture(texture: Texture): boolean {
+	const mimeType = texture.getMimeType();
+	return mimeType === 'image/png' || mimeType === 'image/jpeg' || !!ImageUtils.getCodec(mimeType);
+}
+
+/**
+ * Creates diffuse and specular/glossiness textures for the material, from its base color and
+ * metal/rough textures and factors. Textures of different sizes are sampled at the larger size.
+ */
+async function convertTextures(doc: Document, material: Material): Promise<[Texture, Texture]> {
+	const baseColorTexture = material.getBaseColorTexture();
+	const metalRoughTexture = material.getMetallicRoughnessTexture();
+	const baseColorPixels = baseColorTexture ? await getTexturePixels(baseColorTexture) : null;
+	const metalRoughPixels = metalRoughTexture ? await getTexturePixels(metalRoughTexture) : null;
+
+	const sources = [baseColorPixels, metalRoughPixels].filter((pixels) => !!pixels) as NdArray<Uint8Array>[];
+	const width = Math.max(...sources.map((pixels) => pixels.shape[0]));
+	const height = Math.max(...sources.map((pixels) => pixels.shape[1]));
+
+	const diffusePixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+	const specGlossPixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+
+	const baseColorFactor = material.getBaseColorFactor();
+	const metallicFactor = material.getMetallicFactor();
+	const roughnessFactor = material.getRoughnessFactor();
+
+	const baseColor = [0, 0, 0, 0] as vec4;
+	const diffuse = [0, 0, 0] as vec3;
+	const specular = [0, 0, 0] as vec3;
+
+	for (let i = 0; i < width; i++) {
+		for (let j = 0; j < height; j++) {
+			// Base color, in linear space, excluding the diffuse factor applied later.
+			if (baseColorPixels) {
+				for (let k = 0; k < 4; k++) baseColor[k] = sample(baseColorPixels, i, j, k, width, height) / 255;
+				ColorUtils.convertSRGBToLinear(baseColor, baseColor);
+			} else {
+				baseColor.fill(1);
+			}
+
+			let metallic = metallicFactor;
+			let roughness = roughnessFactor;
+			if (metalRoughPixels) {
+				roughness *= sample(metalRoughPixels, i, j, 1, width, height) / 255;
+				metallic *= sample(metalRoughPixels, i, j, 2, width, height) / 255;
+			}
+
+			for (let k = 0; k < 3; k++) {
+				diffuse[k] = baseColor[k] * (1 - DIELECTRIC_SPECULAR) * (1 - metallic);
+				specular[k] = lerp(DIELECTRIC_SPECULAR, baseColor[k] * baseColorFactor[k], metallic);
+			}
+
+			ColorUtils.convertLinearToSRGB(diffuse, diffuse);
+			ColorUtils.convertLinearToSRGB(specular, specular);
+
+			for (let k = 0; k < 3; k++) {
+				diffusePixels.set(i, j, k, Math.round(diffuse[k] * 255));
+				specGlossPixels.set(i, j, k, Math.round(specular[k] * 255));
+			}
+			diffusePixels.set(i, j, 3, Math.round(baseColor[3] * 255));
+			specGlossPixels.set(i, j, 3, Math.round((1 - roughness) * 255));
+		}
+	}
+
+	const name = material.getName();
+	const diffuseTexture = doc.createTexture(name ? `${name}_diffuse` : '');
+	const specGlossTexture = doc.createTexture(name ? `${name}_specularGlossiness` : '');
+	return [
+		await setTexturePixels(diffuseTexture, diffusePixels, 'image/png'),
+		await setTexturePixels(specGlossTexture, specGlossPixels, 'image/png'),
+	];
+}
+
+/** Samples the pixel nearest to (i, j) in a texture of the given output size. */
+function sample(pixels: NdArray<Uint8Array>, i: number, j: number, k: number, width: number, height: number): number {
+	const x = Math.floor((i * pixels.shape[0]) / width);
+	const y = Math.floor((j * pixels.shape[1]) / height);
+	return pixels.get(x, y, k);
+}
+
+function lerp(a: number, b: number, t: number): number {
+	return a + (b - a) * t;
+}
@@ -1,17 +1,19 @@
 import { Document, TextureChannel, Transform } from '@gltf-transform/core';
-import { TextureWebP } from '@gltf-transform/extensions';
+import { TextureAVIF, TextureWebP } from '@gltf-transform/extensions';
 import { getTextureChannelMask } from './list-texture-channels';
 import { listTextureSlots } from './list-texture-slots';
 import type { SquooshLib } from './types/squoosh-lib';
 import { formatBytes } from './utils';
 
 enum Codec {
+	AVIF = 'avif',
 	OXIPNG = 'oxipng',
 	MOZJPEG = 'mozjpeg',
 	WEBP = 'webp',
 }
 
 const CODEC_TO_MIME_TYPE: Record<Codec, string> = {
+	[Codec.AVIF]: 'image/avif',
 	[Codec.OXIPNG]: 'image/png',
 	[Codec.MOZJPEG]: 'image/jpeg',
 	[Codec.WEBP]: 'image/webp',
@@ -41,6 +43,10 @@ const SQUOOSH_DEFAULTS: Required<Omit<Omit<SquooshInternalOptions, 'codec'>, 'sq
 	auto: false,
 };
 
+const AVIF_DEFAULTS: Omit<SquooshInternalOptions, 'squoosh'> = {
+	...SQUOOSH_DEFAULTS,
+	codec: Codec.AVIF,
+};
 const WEBP_DEFAULTS: Omit<SquooshInternalOptions, 'squoosh'> = {
 	...SQUOOSH_DEFAULTS,
 	codec: Codec.WEBP,
@@ -56,7 +62,7 @@ const OXIPNG_DEFAULTS: Omit<SquooshInternalOptions, 'squoosh'> = {
 	formats: /^image\/png$/,
 };
 
-const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
 
 let pool: SquooshLib.ImagePool | null = null;
 let poolUsers = 0;
@@ -77,7 +83,7 @@ const releaseImagePool = (): void => {
 	}
 };
 
-/** @internal Shared base for {@link webp()}, {@link mozjpeg()}, and {@link oxipng()}. */
+/** @internal Shared base for {@link avif()}, {@link webp()}, {@link mozjpeg()}, and {@link oxipng()}. */
 export const squoosh = function (_options: SquooshInternalOptions): Transform {
 	const options = { ...SQUOOSH_DEFAULTS, ..._options } as Required<SquooshInternalOptions>;
 	const squoosh = options.squoosh as typeof SquooshLib | null;
@@ -144,6 +150,38 @@ export const squoosh = function (_options: SquooshInternalOptions): Transform {
 	};
 };
 
+/**
+ * Converts images to AVIF, using the {@link TextureAVIF} extension.
+ *
+ * Requires `@squoosh/lib`, and currently works only in Node.js
+ * environments. Support for encoding in web browsers may be available pending
+ * [GoogleChromeLabs/squoosh#1084](https://github.com/GoogleChromeLabs/squoosh/issues/1084).
+ *
+ * Example:
+ *
+ * ```javascript
+ * import { cpus } from 'os';
+ * import * as squoosh from '@squoosh/lib';
+ * import { avif } from '@gltf-transform/functions';
+ *
+ * await document.transform(
+ * 	avif({ squoosh, jobs: cpus().length })
+ * );
+ * ```
+ */
+export const avif = function (options: SquooshOptions): Transform {
+	const _options = { ...AVIF_DEFAULTS, ...options } as SquooshInternalOptions;
+	return async (document: Document): Promise<void> => {
+		await squoosh(_options)(document);
+
+		// Attach EXT_texture_avif if needed.
+		const textures = document.getRoot().listTextures();
+		if (textures.some((texture) => texture.getMimeType() === CODEC_TO_MIME_TYPE[Codec.AVIF])) {
+			document.createExtension(TextureAVIF).setRequired(true);
+		}
+	};
+};
+
 /**
  * Converts images to WebP, using the {@link TextureWebP} extension.
  *
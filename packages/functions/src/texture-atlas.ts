@@ -0,0 +1,381 @@
+import ndarray from 'ndarray';
+import {
+	Accessor,
+	Document,
+	Material,
+	Primitive,
+	Property,
+	PropertyType,
+	Texture,
+	TextureInfo,
+	Transform,
+} from '@gltf-transform/core';
+import { TextureTransform } from '@gltf-transform/extensions';
+import { listTextureSlots } from './list-texture-slots';
+import { prune } from './prune';
+import { getTexturePixels, setTexturePixels } from './texture-pixels';
+import { createTransform } from './utils';
+
+const NAME = 'textureAtlas';
+
+const EPSILON = 0.0001;
+
+/** Options for the {@link textureAtlas} function. */
+export interface TextureAtlasOptions {
+	/** Pattern to match slots usage for packing. */
+	slots?: RegExp | null;
+	/** Maximum width/height of textures to be packed into an atlas. Default: 512. */
+	limit?: number;
+	/** Maximum width/height of each atlas. Default: 2048. */
+	size?: number;
+	/** Padding, in pixels, around each texture in an atlas. Default: 2. */
+	padding?: number;
+}
+
+export const TEXTURE_ATLAS_DEFAULTS: Required<TextureAtlasOptions> = {
+	slots: null,
+	limit: 512,
+	size: 2048,
+	padding: 2,
+};
+
+/** @internal Reference from a material (or material extension) to a candidate texture. */
+interface TextureRef {
+	parent: Property;
+	material: Material;
+	textureInfo: TextureInfo;
+}
+
+/** @internal Candidate texture, and its placement within an atlas. */
+interface AtlasRegion {
+	texture: Texture;
+	refs: TextureRef[];
+	width: number;
+	height: number;
+	x: number;
+	y: number;
+}
+
+/**
+ * Packs small PNG or JPEG {@link Texture Textures} sharing a material slot (baseColorTexture,
+ * normalTexture, etc.) into larger atlas images, reducing the number of texture bindings and
+ * draw calls required to render a scene. Texture coordinates of affected {@link Primitive
+ * Primitives} are remapped into the atlas where possible. Where a texture coordinate set is
+ * shared with other textures on the same {@link Material}, a `KHR_texture_transform` offset
+ * and scale are applied instead.
+ *
+ * Textures are packed only if they are used in a single slot, have no existing texture
+ * transform, and are sampled with texture coordinates within the [0, 1] range. Repeating
+ * (tiled) textures cannot be represented in an atlas, and are left unchanged.
+ *
+ * Example:
+ *
+ * ```ts
+ * import { textureAtlas } from '@gltf-transform/functions';
+ *
+ * await document.transform(
+ * 	textureAtlas({ slots: /^baseColor/, limit: 256, size: 2048 })
+ * );
+ * ```
+ */
+export function textureAtlas(_options: TextureAtlasOptions = TEXTURE_ATLAS_DEFAULTS): Transform {
+	const options = { ...TEXTURE_ATLAS_DEFAULTS, ..._options } as Required<TextureAtlasOptions>;
+
+	return createTransform(NAME, async (doc: Document): Promise<void> => {
+		const logger = doc.getLogger();
+
+		// (1) Group candidate textures by slot.
+		const candidates = new Map<string, AtlasRegion[]>();
+		for (const texture of doc.getRoot().listTextures()) {
+			const slots = listTextureSlots(doc, texture);
+			if (slots.length !== 1) continue;
+
+			const slot = slots[0];
+			if (options.slots && !options.slots.test(slot)) continue;
+
+			const region = createRegion(doc, texture, slot, options);
+			if (!region) continue;
+
+			const regions = candidates.get(slot) || [];
+			regions.push(region);
+			candidates.set(slot, regions);
+		}
+
+		let srcCount = 0;
+		let dstCount = 0;
+
+		for (const [slot, regions] of Array.from(candidates.entries())) {
+			// (2) Pack regions into one or more atlases.
+			for (const atlas of packRegions(regions, options)) {
+				logger.debug(`${NAME}: Packing ${atlas.regions.length} "${slot}" textures into atlas.`);
+
+				// (3) Draw the atlas image, and remap texture references.
+				const texture = await createAtlasTexture(doc, atlas, options.padding);
+				texture.setName(`${slot}_atlas_${dstCount}`);
+				remapRegions(doc, texture, atlas);
+
+				srcCount += atlas.regions.length;
+				dstCount++;
+			}
+		}
+
+		// Clean up texcoords left unused by remapping.
+		await doc.transform(prune({ propertyTypes: [PropertyType.ACCESSOR] }));
+
+		logger.info(`${NAME}: Packed ${srcCount} textures into ${dstCount} atlases.`);
+		logger.debug(`${NAME}: Complete.`);
+	});
+}
+
+/**
+ * Returns a region for the texture, if the texture can be packed into an atlas, or null otherwise.
+ */
+function createRegion(
+	doc: Document,
+	texture: Texture,
+	slot: string,
+	options: Required<TextureAtlasOptions>
+): AtlasRegion | null {
+	const mimeType = texture.getMimeType();
+	if (mimeType !== 'image/png' && mimeType !== 'image/jpeg') return null;
+
+	const size = texture.getSize();
+	if (!size || size[0] > options.limit || size[1] > options.limit) return null;
+
+	const graph = doc.getGraph();
+	const refs: TextureRef[] = [];
+
+	for (const edge of graph.listParentEdges(texture)) {
+		const parent = edge.getParent() as Property;
+		if (parent.propertyType === PropertyType.ROOT) continue;
+
+		// TextureInfo edges are named after their texture slots, e.g. 'baseColorTextureInfo'.
+		const infoEdge = graph.listChildEdges(parent).find((edge) => edge.getName() === `${slot}Info`);
+		const textureInfo = infoEdge ? (infoEdge.getChild() as TextureInfo) : null;
+		if (!textureInfo || textureInfo.getExtension('KHR_texture_transform')) return null;
+
+		// Textures may be referenced by the material itself, or by a material extension.
+		const material = (
+			parent instanceof Material ? parent : graph.listParents(parent).find((p) => p instanceof Material)
+		) as Material | undefined;
+		if (!material || !hasUnitTexCoords(material, textureInfo.getTexCoord())) return null;
+
+		refs.push({ parent, material, textureInfo });
+	}
+
+	return { texture, refs, width: size[0], height: size[1], x: 0, y: 0 };
+}
+
+/**
+ * Returns true if all primitives using the material have texture coordinates within [0, 1] in the
+ * given set. Materials referenced by properties other than primitives cannot be checked.
+ */
+function hasUnitTexCoords(material: Material, texCoord: number): boolean {
+	for (const parent of material.listParents()) {
+		if (parent.propertyType === PropertyType.ROOT) continue;
+		if (!(parent instanceof Primitive)) return false;
+
+		const attribute = parent.getAttribute(`TEXCOORD_${texCoord}`);
+		if (!attribute) return false;
+
+		const el = [0, 0];
+		for (let i = 0, il = attribute.getCount(); i < il; i++) {
+			attribute.getElement(i, el);
+			if (el[0] < -EPSILON || el[0] > 1 + EPSILON || el[1] < -EPSILON || el[1] > 1 + EPSILON) {
+				return false;
+			}
+		}
+	}
+	return true;
+}
+
+/** @internal Atlas dimensions, and regions placed within it. */
+interface Atlas {
+	width: number;
+	height: number;
+	regions: AtlasRegion[];
+}
+
+/**
+ * Packs regions into power-of-two atlases no larger than `options.size`, using a simple shelf
+ * packing algorithm. Regions that do not fit, or would be alone in an atlas, are omitted.
+ */
+function packRegions(regions: AtlasRegion[], options: Required<TextureAtlasOptions>): Atlas[] {
+	const { size, padding } = options;
+	const atlases: Atlas[] = [];
+
+	let remaining = regions
+		.filter((region) => region.width + 2 * padding <= size && region.height + 2 * padding <= size)
+		.sort((a, b) => b.height - a.height || b.width - a.width);
+
+	while (remaining.length >= 2) {
+		let area = 0;
+		let maxWidth = 0;
+		for (const region of remaining) {
+			area += (region.width + 2 * padding) * (region.height + 2 * padding);
+			maxWidth = Math.max(maxWidth, region.width + 2 * padding);
+		}
+
+		let width = Math.min(size, Math.max(ceilPowerOfTwo(Math.sqrt(area)), ceilPowerOfTwo(maxWidth)));
+		let height = Math.min(size, ceilPowerOfTwo(area / width));
+		let placed = packShelves(remaining, width, height, padding);
+
+		while (placed.length < remaining.length && (width < size || height < size)) {
+			if (width <= height && width < size) {
+				width = Math.min(size, width * 2);
+			} else {
+				height = Math.min(size, height * 2);
+			}
+			placed = packShelves(remaining, width, height, padding);
+		}
+
+		if (placed.length < 2) break;
+
+		atlases.push({ width, height, regions: placed });
+		remaining = remaining.filter((region) => !placed.includes(region));
+	}
+
+	return atlases;
+}
+
+/** Places regions in rows ("shelves"), returning the regions that fit in the given dimensions. */
+function packShelves(regions: AtlasRegion[], width: number, height: number, padding: number): AtlasRegion[] {
+	const placed: AtlasRegion[] = [];
+	let x = 0;
+	let y = 0;
+	let shelfHeight = 0;
+
+	for (const region of regions) {
+		const cellWidth = region.width + 2 * padding;
+		const cellHeight = region.height + 2 * padding;
+
+		if (x + cellWidth > width) {
+			x = 0;
+			y += shelfHeight;
+			shelfHeight = 0;
+		}
+
+		if (y + cellHeight > height) continue;
+
+		region.x = x + padding;
+		region.y = y + padding;
+		placed.push(region);
+
+		x += cellWidth;
+		shelfHeight = Math.max(shelfHeight, cellHeight);
+	}
+
+	return placed;
+}
+
+/**
+ * Creates a texture containing all regions of the atlas. Padding around each region is filled by
+ * extending its edge pixels, to limit bleeding between regions when the atlas is filtered.
+ */
+async function createAtlasTexture(doc: Document, atlas: Atlas, padding: number): Promise<Texture> {
+	const { width, height } = atlas;
+	const dstPixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+	const mimeType = atlas.regions.every((region) => region.texture.getMimeType() === 'image/jpeg')
+		? 'image/jpeg'
+		: 'image/png';
+
+	for (const region of atlas.regions) {
+		const srcPixels = await getTexturePixels(region.texture);
+		for (let i = -padding; i < region.width + padding; i++) {
+			for (let j = -padding; j < region.height + padding; j++) {
+				const srcX = Math.min(Math.max(i, 0), region.width - 1);
+				const srcY = Math.min(Math.max(j, 0), region.height - 1);
+				for (let k = 0; k < 4; k++) {
+					dstPixels.set(region.x + i, region.y + j, k, srcPixels.get(srcX, srcY, k));
+				}
+			}
+		}
+	}
+
+	return setTexturePixels(doc.createTexture(), dstPixels, mimeType);
+}
+
+/**
+ * Replaces references to each region's texture with the atlas, remapping texture coordinates
+ * into the region. If the texture coordinate set is also used by other textures on the same
+ * material, a KHR_texture_transform offset and scale are applied instead.
+ */
+function remapRegions(doc: Document, atlasTexture: Texture, atlas: Atlas): void {
+	// Texcoords are cloned once per material, and may be shared by that material's primitives.
+	const texCoordCache = new Map<Material, Map<Accessor, Accessor>>();
+
+	for (const region of atlas.regions) {
+		const offset = [region.x / atlas.width, region.y / atlas.height] as [number, number];
+		const scale = [region.width / atlas.width, region.height / atlas.height] as [number, number];
+
+		for (const { parent, material, textureInfo } of region.refs) {
+			parent.swap(region.texture, atlasTexture);
+			textureInfo.setWrapS(TextureInfo.WrapMode.CLAMP_TO_EDGE).setWrapT(TextureInfo.WrapMode.CLAMP_TO_EDGE);
+
+			const texCoord = textureInfo.getTexCoord();
+			if (countTexCoordUsage(doc, material, texCoord) > 1 || hasTexCoordTargets(material, texCoord)) {
+				const transform = doc.createExtension(TextureTransform).createTransform();
+				textureInfo.setExtension('KHR_texture_transform', transform.setOffset(offset).setScale(scale));
+				continue;
+			}
+
+			const cache = texCoordCache.get(material) || new Map<Accessor, Accessor>();
+			texCoordCache.set(material, cache);
+
+			for (const prim of material.listParents()) {
+				if (!(prim instanceof Primitive)) continue;
+
+				const semantic = `TEXCOORD_${texCoord}`;
+				const srcTexCoord = prim.getAttribute(semantic)!;
+				const dstTexCoord = cache.get(srcTexCoord) || remapTexCoord(srcTexCoord, offset, scale);
+				cache.set(srcTexCoord, dstTexCoord);
+				prim.setAttribute(semantic, dstTexCoord);
+			}
+		}
+
+		region.texture.dispose();
+	}
+}
+
+/** Returns a float32 copy of the texcoord attribute, with `uv' = offset + uv * scale`. */
+function remapTexCoord(srcTexCoord: Accessor, offset: [number, number], scale: [number, number]): Accessor {
+	const count = srcTexCoord.getCount();
+	const dstTexCoord = srcTexCoord.clone().setNormalized(false).setArray(new Float32Array(count * 2));
+	const el = [0, 0];
+	for (let i = 0; i < count; i++) {
+		srcTexCoord.getElement(i, el);
+		el[0] = offset[0] + el[0] * scale[0];
+		el[1] = offset[1] + el[1] * scale[1];
+		dstTexCoord.setElement(i, el);
+	}
+	return dstTexCoord;
+}
+
+/** Counts textures on the material, including material extensions, using the texcoord set. */
+function countTexCoordUsage(doc: Document, material: Material, texCoord: number): number {
+	const graph = doc.getGraph();
+	let count = 0;
+	for (const property of [material, ...material.listExtensions()]) {
+		const edges = graph.listChildEdges(property);
+		const slots = new Set(edges.filter((edge) => edge.getChild() instanceof Texture).map((edge) => edge.getName()));
+		for (const edge of edges) {
+			const child = edge.getChild();
+			if (!(child instanceof TextureInfo) || child.getTexCoord() !== texCoord) continue;
+			// TextureInfo properties exist for every slot, but only count slots with textures.
+			if (slots.has(edge.getName().replace(/Info$/, ''))) count++;
+		}
+	}
+	return count;
+}
+
+/** Returns true if any primitive using the material has morph targets affecting the texcoord set. */
+function hasTexCoordTargets(material: Material, texCoord: number): boolean {
+	return material.listParents().some((prim) => {
+		if (!(prim instanceof Primitive)) return false;
+		return prim.listTargets().some((target) => !!target.getAttribute(`TEXCOORD_${texCoord}`));
+	});
+}
+
+function ceilPowerOfTwo(value: number): number {
+	return Math.pow(2, Math.ceil(Math.log(value) / Math.LN2));
+}
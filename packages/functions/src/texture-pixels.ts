@@ -0,0 +1,87 @@
+import ndarray from 'ndarray';
+import type { NdArray } from 'ndarray';
+import { getPixels, savePixels } from 'ndarray-pixels';
+import { ImageUtils, ImageUtilsCodec, Texture } from '@gltf-transform/core';
+
+/** PNG and JPEG codec, provided by the ndarray-pixels package. */
+const NDARRAY_PIXELS_CODEC: ImageUtilsCodec = {
+	decode: (buffer: Uint8Array, mimeType: string) => getPixels(buffer, mimeType),
+	encode: (pixels, mimeType: string) => savePixels(pixels as NdArray<Uint8Array>, mimeType),
+};
+
+/**
+ * Registers the default PNG and JPEG codecs with {@link ImageUtils}, unless codecs for those
+ * formats have already been registered.
+ */
+function registerDefaultCodecs(): void {
+	for (const mimeType of ['image/png', 'image/jpeg']) {
+		if (!ImageUtils.getCodec(mimeType)) {
+			ImageUtils.registerCodec(mimeType, NDARRAY_PIXELS_CODEC);
+		}
+	}
+}
+
+/**
+ * Decodes the texture's image to RGBA pixel data, as an {@link https://github.com/scijs/ndarray ndarray}
+ * with shape `[width, height, 4]`. PNG and JPEG images are supported by default, and codecs for
+ * other formats may be registered with {@link ImageUtils.registerCodec}.
+ *
+ * Example:
+ *
+ * ```js
+ * const pixels = await getTexturePixels(texture);
+ * const [width, height] = pixels.shape;
+ * const alpha = pixels.get(0, 0, 3);
+ * ```
+ */
+export async function getTexturePixels(texture: Texture): Promise<NdArray<Uint8Array>> {
+	const image = texture.getImage();
+	if (!image) throw new Error(`Texture "${texture.getName()}" has no image data.`);
+
+	registerDefaultCodecs();
+	const pixels = (await ImageUtils.decodePixels(image, texture.getMimeType())) as NdArray<Uint8Array>;
+	return toRGBA(pixels);
+}
+
+/**
+ * Encodes RGBA pixel data, with shape `[width, height, 4]`, as the texture's image. The image is
+ * encoded with the texture's current MIME type, unless another MIME type is given.
+ *
+ * Example:
+ *
+ * ```js
+ * const pixels = await getTexturePixels(texture);
+ * // ... modify pixels ...
+ * await setTexturePixels(texture, pixels, 'image/png');
+ * ```
+ */
+export async function setTexturePixels(
+	texture: Texture,
+	pixels: NdArray<Uint8Array>,
+	mimeType = texture.getMimeType()
+): Promise<Texture> {
+	registerDefaultCodecs();
+	const image = await ImageUtils.encodePixels(pixels, mimeType);
+	return texture.setImage(image).setMimeType(mimeType);
+}
+
+/**
+ * Expands grayscale, grayscale-alpha, and RGB pixel data to RGBA. Codecs may decode images
+ * without alpha channels with fewer than four components.
+ */
+function toRGBA(pixels: NdArray<Uint8Array>): NdArray<Uint8Array> {
+	const [width, height, channels = 1] = pixels.shape;
+	if (channels === 4) return pixels;
+
+	const get = pixels.shape.length > 2 ? pixels.get.bind(pixels) : (i: number, j: number) => pixels.get(i, j);
+	const dst = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+	for (let i = 0; i < width; i++) {
+		for (let j = 0; j < height; j++) {
+			for (let k = 0; k < 3; k++) {
+				dst.set(i, j, k, get(i, j, channels < 3 ? 0 : k));
+			}
+			dst.set(i, j, 3, channels === 2 ? get(i, j, 1) : 255);
+		}
+	}
+	return dst;
+}
@@ -1,8 +1,8 @@
 import ndarray from 'ndarray';
 import { lanczos2, lanczos3 } from 'ndarray-lanczos';
-import { getPixels, savePixels } from 'ndarray-pixels';
-import type { Document, Transform, vec2 } from '@gltf-transform/core';
+import { Document, ImageUtils, Transform, vec2 } from '@gltf-transform/core';
 import { listTextureSlots } from './list-texture-slots';
+import { getTexturePixels, setTexturePixels } from './texture-pixels';
 import { createTransform } from './utils';
 
 const NAME = 'textureResize';
@@ -41,6 +41,7 @@ export const TEXTURE_RESIZE_DEFAULTS: TextureResizeOptions = {
 /**
  * Resize PNG or JPEG {@link Texture Textures}, with {@link https://en.wikipedia.org/wiki/Lanczos_algorithm Lanczos filtering}.
  * Implementation provided by {@link https://github.com/donmccurdy/ndarray-lanczos ndarray-lanczos} package.
+ * Other image formats may be resized if a codec is registered with {@link ImageUtils.registerCodec}.
  */
 export function textureResize(_options: TextureResizeOptions = TEXTURE_RESIZE_DEFAULTS): Transform {
 	const options = { ...TEXTURE_RESIZE_DEFAULTS, ..._options } as Required<TextureResizeOptions>;
@@ -54,8 +55,9 @@ export function textureResize(_options: TextureResizeOptions = TEXTURE_RESIZE_DE
 			const match = !options.pattern || options.pattern.test(name) || options.pattern.test(uri);
 			if (!match) continue;
 
-			if (texture.getMimeType() !== 'image/png' && texture.getMimeType() !== 'image/jpeg') {
-				logger.warn(`Skipping unsupported texture type, "${texture.getMimeType()}".`);
+			const mimeType = texture.getMimeType();
+			if (mimeType !== 'image/png' && mimeType !== 'image/jpeg' && !ImageUtils.getCodec(mimeType)) {
+				logger.warn(`Skipping unsupported texture type, "${mimeType}".`);
 				continue;
 			}
 
@@ -87,8 +89,7 @@ export function textureResize(_options: TextureResizeOptions = TEXTURE_RESIZE_DE
 				dstHeight = maxHeight;
 			}
 
-			const srcImage = texture.getImage()!;
-			const srcPixels = await getPixels(srcImage, texture.getMimeType());
+			const srcPixels = await getTexturePixels(texture);
 			const dstPixels = ndarray(new Uint8Array(dstWidth * dstHeight * 4), [dstWidth, dstHeight, 4]);
 
 			logger.debug(`${NAME}: Resizing "${uri || name}", ${srcPixels.shape} → ${dstPixels.shape}...`);
@@ -105,7 +106,7 @@ export function textureResize(_options: TextureResizeOptions = TEXTURE_RESIZE_DE
 				throw e;
 			}
 
-			texture.setImage(await savePixels(dstPixels, texture.getMimeType()));
+			await setTexturePixels(texture, dstPixels);
 		}
 
 		logger.debug(`${NAME}: Complete.`);
@@ -4,6 +4,7 @@
 // https://github.com/GoogleChromeLabs/squoosh/issues/1223
 export declare module SquooshLib {
 	enum Codec {
+		AVIF = 'avif',
 		OXIPNG = 'oxipng',
 		MOZJPEG = 'mozjpeg',
 		WEBP = 'webp',
@@ -1,6 +1,14 @@
 import type { NdArray } from 'ndarray';
-import { getPixels, savePixels } from 'ndarray-pixels';
-import { Primitive, Texture, Transform, TransformContext } from '@gltf-transform/core';
+import {
+	AnimationChannel,
+	Node,
+	Primitive,
+	Texture,
+	TextureInfo,
+	Transform,
+	TransformContext,
+} from '@gltf-transform/core';
+import { getTexturePixels, setTexturePixels } from './texture-pixels';
 
 /**
  * Prepares a function used in an {@link Document.transform} pipeline. Use of this wrapper is
@@ -27,10 +35,9 @@ export async function rewriteTexture(
 ): Promise<Texture | null> {
 	if (!source) return null;
 
-	const srcImage = source.getImage();
-	if (!srcImage) return null;
+	if (!source.getImage()) return null;
 
-	const pixels = await getPixels(srcImage, source.getMimeType());
+	const pixels = await getTexturePixels(source);
 
 	for (let i = 0; i < pixels.shape[0]; ++i) {
 		for (let j = 0; j < pixels.shape[1]; ++j) {
@@ -38,8 +45,7 @@ export async function rewriteTexture(
 		}
 	}
 
-	const dstImage = await savePixels(pixels, 'image/png');
-	return target.setImage(dstImage).setMimeType('image/png');
+	return setTexturePixels(target, pixels, 'image/png');
 }
 
 export function getGLPrimitiveCount(prim: Primitive): number {
@@ -102,3 +108,30 @@ export function formatBytes(bytes: number, decimals = 2): string {
 
 	return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
+
+/** Returns true if both TextureInfos use the same texture coordinates and texture transforms. */
+export function hasEqualTexCoords(a: TextureInfo, b: TextureInfo): boolean {
+	if (a.getTexCoord() !== b.getTexCoord()) return false;
+
+	const transformA = a.getExtension('KHR_texture_transform');
+	const transformB = b.getExtension('KHR_texture_transform');
+	if (!transformA || !transformB) return transformA === transformB;
+	return transformA.equals(transformB);
+}
+
+const TRS_PATHS: string[] = ['translation', 'rotation', 'scale'];
+const TRS_POINTER_RE = /^\/(translation|rotation|scale|matrix)$/;
+
+/**
+ * Returns the {@link Node} whose local transform is animated by the channel, or null. Includes
+ * TRS channels, and `pointer` channels targeting a node's translation, rotation, scale, or matrix.
+ */
+export function getAnimatedTransformNode(channel: AnimationChannel): Node | null {
+	const node = channel.getTargetNode();
+	if (node && TRS_PATHS.includes(channel.getTargetPath()!)) return node;
+
+	const property = channel.getTargetProperty();
+	if (property instanceof Node && TRS_POINTER_RE.test(channel.getTargetPointer() || '')) return property;
+
+	return null;
+}
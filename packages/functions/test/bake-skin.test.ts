@@ -0,0 +1,107 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger } from '@gltf-transform/core';
+import { bakeSkin } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::bakeSkin', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const { node, prim, skin } = createSkinnedNode(doc);
+
+	await doc.transform(bakeSkin());
+
+	t.equals(node.getSkin(), null, 'removes skin from node');
+	t.ok(skin.isDisposed(), 'prunes skin');
+	t.deepEquals(prim.listSemantics(), ['POSITION', 'NORMAL'], 'removes joints and weights');
+	t.deepEquals(
+		Array.from(prim.getAttribute('POSITION')!.getArray()!),
+		[-5, 1, 0, -4, 1.5, 0],
+		'bakes positions in node space'
+	);
+	t.deepEquals(roundAll(Array.from(prim.getAttribute('NORMAL')!.getArray()!)), [0, 0, 1, 0, 0, 1], 'bakes normals');
+	t.deepEquals(
+		Array.from(prim.listTargets()[0].getAttribute('POSITION')!.getArray()!),
+		[0, 1, 0, 0, 1, 0],
+		'bakes morph targets'
+	);
+	t.end();
+});
+
+test('@gltf-transform/functions::bakeSkin | shared mesh', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const { node, prim, mesh } = createSkinnedNode(doc);
+	const staticNode = doc.createNode('Static').setMesh(mesh);
+
+	await doc.transform(bakeSkin());
+
+	t.notEqual(node.getMesh(), mesh, 'clones mesh');
+	t.equals(staticNode.getMesh(), mesh, 'keeps original mesh');
+	t.ok(prim.getAttribute('JOINTS_0'), 'keeps original primitive');
+	t.deepEquals(
+		Array.from(node.getMesh()!.listPrimitives()[0].getAttribute('POSITION')!.getArray()!),
+		[-5, 1, 0, -4, 1.5, 0],
+		'bakes cloned mesh'
+	);
+	t.end();
+});
+
+/* UTILITIES */
+
+function createSkinnedNode(doc: Document) {
+	const buffer = doc.createBuffer();
+	const jointA = doc.createNode('A').setTranslation([0, 3, 0]);
+	const jointB = doc.createNode('B').setTranslation([0, 4, 0]);
+	const inverseBindMatrices = doc
+		.createAccessor()
+		.setType(Accessor.Type.MAT4)
+		.setArray(
+			new Float32Array([
+				...[1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -2, 0, 1],
+				...[1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -2, 0, 1],
+			])
+		)
+		.setBuffer(buffer);
+	const skin = doc.createSkin().addJoint(jointA).addJoint(jointB).setInverseBindMatrices(inverseBindMatrices);
+	const position = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0]))
+		.setBuffer(buffer);
+	const normal = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1]))
+		.setBuffer(buffer);
+	const joints = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([0, 0, 0, 0, 0, 1, 0, 0]))
+		.setBuffer(buffer);
+	const weights = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([1, 0, 0, 0, 0.5, 0.5, 0, 0]))
+		.setBuffer(buffer);
+	const targetPosition = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 1, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('NORMAL', normal)
+		.setAttribute('JOINTS_0', joints)
+		.setAttribute('WEIGHTS_0', weights)
+		.addTarget(doc.createPrimitiveTarget().setAttribute('POSITION', targetPosition));
+	const mesh = doc.createMesh().addPrimitive(prim);
+	const node = doc.createNode('Skinned').setTranslation([5, 0, 0]).setMesh(mesh).setSkin(skin);
+	doc.createScene().addChild(jointA).addChild(jointB).addChild(node);
+	return { node, prim, mesh, skin };
+}
+
+function roundAll(values: number[]): number[] {
+	return values.map((value) => Math.round(value * 1000) / 1000 || 0);
+}
@@ -0,0 +1,98 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger, Primitive } from '@gltf-transform/core';
+import { TextureTransform } from '@gltf-transform/extensions';
+import { bakeTextureTransform } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::bakeTextureTransform', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const transformExtension = doc.createExtension(TextureTransform);
+	const material = doc.createMaterial().setBaseColorTexture(doc.createTexture());
+	material
+		.getBaseColorTextureInfo()
+		.setExtension(
+			'KHR_texture_transform',
+			transformExtension.createTransform().setOffset([0.5, 0]).setScale([2, 2]).setRotation(Math.PI / 2)
+		);
+	const prim = createPrimitive(doc).setMaterial(material);
+	const texcoord = prim.getAttribute('TEXCOORD_0');
+	const otherPrim = createPrimitive(doc).setAttribute('TEXCOORD_0', texcoord);
+
+	await doc.transform(bakeTextureTransform());
+
+	t.deepEquals(round(prim.getAttribute('TEXCOORD_0').getArray()), [0.5, 0, 0.5, -2, 2.5, 0], 'bakes transform');
+	t.equals(otherPrim.getAttribute('TEXCOORD_0'), texcoord, 'shared texcoords unchanged');
+	t.equals(material.getBaseColorTextureInfo().getExtension('KHR_texture_transform'), null, 'removes transform');
+	t.deepEquals(doc.getRoot().listExtensionsUsed(), [], 'removes extension');
+	t.end();
+});
+
+test('@gltf-transform/functions::bakeTextureTransform | split', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const transformExtension = doc.createExtension(TextureTransform);
+	const material = doc
+		.createMaterial()
+		.setBaseColorTexture(doc.createTexture())
+		.setEmissiveTexture(doc.createTexture())
+		.setNormalTexture(doc.createTexture());
+	material
+		.getEmissiveTextureInfo()
+		.setExtension('KHR_texture_transform', transformExtension.createTransform().setScale([2, 2]));
+	material
+		.getNormalTextureInfo()
+		.setExtension('KHR_texture_transform', transformExtension.createTransform().setOffset([1, 1]));
+	const prim = createPrimitive(doc).setMaterial(material);
+	const texcoord = prim.getAttribute('TEXCOORD_0');
+
+	await doc.transform(bakeTextureTransform());
+
+	t.equals(material.getBaseColorTextureInfo().getTexCoord(), 0, 'baseColor texCoord');
+	t.equals(material.getEmissiveTextureInfo().getTexCoord(), 1, 'emissive texCoord');
+	t.equals(material.getNormalTextureInfo().getTexCoord(), 2, 'normal texCoord');
+	t.equals(prim.getAttribute('TEXCOORD_0'), texcoord, 'TEXCOORD_0 unchanged');
+	t.deepEquals(round(prim.getAttribute('TEXCOORD_1').getArray()), [0, 0, 2, 0, 0, 2], 'TEXCOORD_1');
+	t.deepEquals(round(prim.getAttribute('TEXCOORD_2').getArray()), [1, 1, 2, 1, 1, 2], 'TEXCOORD_2');
+	t.end();
+});
+
+test('@gltf-transform/functions::bakeTextureTransform | skip', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const transformExtension = doc.createExtension(TextureTransform);
+	const material = doc.createMaterial().setBaseColorTexture(doc.createTexture());
+	const transform = transformExtension.createTransform().setScale([2, 2]);
+	material.getBaseColorTextureInfo().setExtension('KHR_texture_transform', transform);
+	const prim = createPrimitive(doc).setMaterial(material);
+	const texcoord = prim.getAttribute('TEXCOORD_0');
+	prim.addTarget(doc.createPrimitiveTarget().setAttribute('TEXCOORD_0', texcoord.clone()));
+
+	await doc.transform(bakeTextureTransform());
+
+	t.equals(prim.getAttribute('TEXCOORD_0'), texcoord, 'texcoords unchanged');
+	t.equals(material.getBaseColorTextureInfo().getExtension('KHR_texture_transform'), transform, 'keeps transform');
+	t.equals(doc.getRoot().listExtensionsUsed().length, 1, 'keeps extension');
+	t.end();
+});
+
+/* UTILITIES */
+
+/** Creates a triangle primitive with texture coordinates. */
+function createPrimitive(doc: Document): Primitive {
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const texcoord = doc
+		.createAccessor()
+		.setType('VEC2')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1]));
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setAttribute('TEXCOORD_0', texcoord);
+	doc.createMesh().addPrimitive(prim);
+	return prim;
+}
+
+function round(array: ArrayLike<number>): number[] {
+	return Array.from(array).map((v) => Math.round(v * 1e6) / 1e6 + 0);
+}
@@ -0,0 +1,74 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger, Primitive } from '@gltf-transform/core';
+import type { MappingList } from '@gltf-transform/extensions';
+import { createVariants } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::createVariants', async (t) => {
+	const red = createDocument(['Red', 'Chrome']);
+	const blue = createDocument(['Blue', 'Chrome']);
+
+	const doc = await createVariants({ Red: red, Blue: blue });
+	const root = doc.getRoot();
+	const [primA, primB] = root.listMeshes()[0].listPrimitives();
+
+	t.equals(root.listMeshes().length, 1, 'meshes merged');
+	t.equals(root.listNodes().length, 1, 'nodes merged');
+	t.equals(root.listAccessors().length, 2, 'accessors merged');
+	t.equals(root.listBuffers().length, 1, 'buffers merged');
+	t.equals(primA.getMaterial().getName(), 'Red', 'default material');
+	t.deepEquals(listMappings(primA), [['Red', 'Red'], ['Blue', 'Blue']], 'mappings for primitive A');
+	t.deepEquals(listMappings(primB), [['Chrome', 'Red'], ['Chrome', 'Blue']], 'mappings for primitive B');
+	t.equals(red.getRoot().listExtensionsUsed().length, 0, 'input unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::createVariants | mismatched geometry', async (t) => {
+	const red = createDocument(['Red', 'Chrome']);
+	const blue = createDocument(['Blue']);
+
+	try {
+		await createVariants({ Red: red, Blue: blue });
+		t.fail('expected error');
+	} catch (e) {
+		t.match((e as Error).message, /mismatched primitives/, 'throws for mismatched geometry');
+	}
+	t.end();
+});
+
+/** Creates a document with one mesh, and one primitive for each given material name. */
+function createDocument(materialNames: string[]): Document {
+	const doc = new Document().setLogger(logger);
+	const buffer = doc.createBuffer();
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const indices = doc
+		.createAccessor()
+		.setArray(new Uint16Array([0, 1, 2]))
+		.setBuffer(buffer);
+	const mesh = doc.createMesh();
+	for (const name of materialNames) {
+		const prim = doc
+			.createPrimitive()
+			.setAttribute('POSITION', position)
+			.setIndices(indices)
+			.setMaterial(doc.createMaterial(name));
+		mesh.addPrimitive(prim);
+	}
+	doc.createScene().addChild(doc.createNode().setMesh(mesh));
+	return doc;
+}
+
+/** Lists [material, variant] pairs mapped to the primitive. */
+function listMappings(prim: Primitive): string[][] {
+	const mappingList = prim.getExtension('KHR_materials_variants') as MappingList;
+	return mappingList.listMappings().flatMap((mapping) => {
+		return mapping.listVariants().map((variant) => [mapping.getMaterial().getName(), variant.getName()]);
+	});
+}
@@ -1,11 +1,12 @@
 require('source-map-support').install();
 
 import path from 'path';
+import ndarray from 'ndarray';
 import { createCanvas } from 'canvas';
 import test from 'tape';
-import { Document, NodeIO, PropertyType } from '@gltf-transform/core';
-import { dedup } from '../';
-import { MaterialsTransmission } from '@gltf-transform/extensions';
+import { Document, Logger, NodeIO, PropertyType } from '@gltf-transform/core';
+import { dedup, setTexturePixels } from '../';
+import { Clearcoat, MaterialsClearcoat, MaterialsTransmission, MaterialsVariants } from '@gltf-transform/extensions';
 
 test('@gltf-transform/functions::dedup | accessors', async (t) => {
 	const io = new NodeIO();
@@ -73,6 +74,42 @@ test('@gltf-transform/functions::dedup | materials', (t) => {
 	t.end();
 });
 
+test('@gltf-transform/functions::dedup | materials with extensions', async (t) => {
+	const doc = new Document();
+	const root = doc.getRoot();
+	const clearcoatExt = doc.createExtension(MaterialsClearcoat);
+	const variantsExt = doc.createExtension(MaterialsVariants);
+
+	const texture = doc
+		.createTexture()
+		.setImage(new Uint8Array([1, 2, 3]))
+		.setMimeType('image/png');
+	const createMaterial = (name: string) => {
+		const clearcoat = clearcoatExt.createClearcoat().setClearcoatFactor(0.5).setClearcoatTexture(texture);
+		return doc.createMaterial(name).setBaseColorTexture(texture).setExtension('KHR_materials_clearcoat', clearcoat);
+	};
+
+	const mat1 = createMaterial('Mat1');
+	const mat2 = createMaterial('Mat2');
+	const mat3 = createMaterial('Mat3');
+	const mat4 = createMaterial('Mat4');
+	mat3.getBaseColorTextureInfo()!.setTexCoord(1);
+	mat4.getExtension<Clearcoat>('KHR_materials_clearcoat')!.setClearcoatFactor(1.0);
+
+	const mapping = variantsExt.createMapping().addVariant(variantsExt.createVariant('Alt')).setMaterial(mat2);
+	const prim = doc
+		.createPrimitive()
+		.setMaterial(mat1)
+		.setExtension('KHR_materials_variants', variantsExt.createMappingList().addMapping(mapping));
+
+	await doc.transform(dedup({ propertyTypes: [PropertyType.MATERIAL] }));
+
+	t.deepEqual(root.listMaterials(), [mat1, mat3, mat4], 'merges equal materials, ignoring names');
+	t.equal(prim.getMaterial(), mat1, 'retains primitive material');
+	t.equal(mapping.getMaterial(), mat1, 'updates variant mapping');
+	t.end();
+});
+
 test('@gltf-transform/functions::dedup | meshes', async (t) => {
 	const io = new NodeIO();
 	const doc = await io.read(path.join(__dirname, 'in/many-cubes.gltf'));
@@ -84,8 +121,8 @@ test('@gltf-transform/functions::dedup | meshes', async (t) => {
 	t.equal(root.listMeshes().length, 501, 'has no effect when disabled');
 
 	// Put unique materials on two meshes to prevent merging.
-	root.listMeshes()[0].listPrimitives()[0].setMaterial(doc.createMaterial('A'));
-	root.listMeshes()[1].listPrimitives()[0].setMaterial(doc.createMaterial('B'));
+	root.listMeshes()[0].listPrimitives()[0].setMaterial(doc.createMaterial('A').setRoughnessFactor(0.25));
+	root.listMeshes()[1].listPrimitives()[0].setMaterial(doc.createMaterial('B').setRoughnessFactor(0.75));
 
 	dedup()(doc);
 
@@ -121,3 +158,65 @@ test('@gltf-transform/functions::dedup | textures', (t) => {
 	t.equal(transmission.getTransmissionTexture(), tex1, 'retains transmissionTexture');
 	t.end();
 });
+
+test('@gltf-transform/functions::dedup | texture pixels', async (t) => {
+	const doc = new Document();
+
+	const createPixels = (r: number, g: number, b: number) => {
+		const pixels = ndarray(new Uint8Array(16 * 16 * 4), [16, 16, 4]);
+		for (let i = 0; i < 16; i++) {
+			for (let j = 0; j < 16; j++) {
+				pixels.set(i, j, 0, r);
+				pixels.set(i, j, 1, g);
+				pixels.set(i, j, 2, b);
+				pixels.set(i, j, 3, 255);
+			}
+		}
+		return pixels;
+	};
+
+	const png = await setTexturePixels(doc.createTexture('png'), createPixels(255, 0, 0), 'image/png');
+	const jpeg = await setTexturePixels(doc.createTexture('jpeg'), createPixels(255, 0, 0), 'image/jpeg');
+	const other = await setTexturePixels(doc.createTexture('other'), createPixels(0, 0, 255), 'image/png');
+	const material = doc.createMaterial().setBaseColorTexture(jpeg).setEmissiveTexture(png);
+
+	await doc.transform(dedup({ propertyTypes: [PropertyType.TEXTURE] }));
+
+	t.equal(doc.getRoot().listTextures().length, 3, 'ignores pixels by default');
+
+	await doc.transform(dedup({ propertyTypes: [PropertyType.TEXTURE], texturePixels: true, textureTolerance: 8 }));
+
+	const [kept] = png.getImage()!.byteLength < jpeg.getImage()!.byteLength ? [png, jpeg] : [jpeg, png];
+	t.deepEqual(doc.getRoot().listTextures(), [kept, other], 'merges equal pixels, keeping smaller encoding');
+	t.equal(material.getBaseColorTexture(), kept, 'retains baseColorTexture');
+	t.equal(material.getEmissiveTexture(), kept, 'retains emissiveTexture');
+	t.end();
+});
+
+test('@gltf-transform/functions::dedup | texture pixels, sizes', async (t) => {
+	const warnings: string[] = [];
+	const logger = new Logger(Logger.Verbosity.WARN);
+	logger.warn = (text: string) => void warnings.push(text);
+
+	const doc = new Document().setLogger(logger);
+
+	// PNG signature and IHDR header only, without pixel data, which would fail to decode.
+	const createHeader = (width: number, height: number) => {
+		const header = new Uint8Array(24);
+		header.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+		const view = new DataView(header.buffer);
+		view.setUint32(16, width);
+		view.setUint32(20, height);
+		return header;
+	};
+
+	doc.createTexture('a').setMimeType('image/png').setImage(createHeader(16, 16));
+	doc.createTexture('b').setMimeType('image/png').setImage(createHeader(32, 16));
+	doc.createTexture('c').setMimeType('image/png').setImage(createHeader(16, 32));
+
+	await doc.transform(dedup({ propertyTypes: [PropertyType.TEXTURE], texturePixels: true }));
+
+	t.equal(doc.getRoot().listTextures().length, 3, 'keeps textures');
+	t.deepEqual(warnings, [], 'does not decode textures of distinct sizes');
+	t.end();
+});
@@ -0,0 +1,98 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document } from '@gltf-transform/core';
+import { diff } from '../';
+
+test('@gltf-transform/functions::diff', async (t) => {
+	const docA = createDocument();
+	const docB = docA.clone();
+	const rootB = docB.getRoot();
+
+	t.deepEqual(
+		diff(docA, docB),
+		{
+			nodes: { added: [], removed: [], changed: [] },
+			meshes: { added: [], removed: [], changed: [] },
+			materials: { added: [], removed: [], changed: [] },
+			textures: { added: [], removed: [], changed: [] },
+			animations: { added: [], removed: [], changed: [] },
+		},
+		'no changes'
+	);
+
+	rootB.listNodes()[0].setTranslation([0, 1, 0]);
+	docB.createNode('NodeB');
+	rootB.listAnimations()[0].dispose();
+	rootB.listMaterials()[0].setBaseColorFactor([1, 0, 0, 1]);
+	rootB.listTextures()[0].setImage(new Uint8Array([1, 2, 3, 5]));
+
+	const report = diff(docA, docB);
+
+	t.deepEqual(report.nodes.added, ['NodeB'], 'nodes added');
+	t.deepEqual(report.nodes.changed, [{ name: 'NodeA', changes: ['translation'] }], 'nodes changed');
+	t.deepEqual(report.animations.removed, ['Anim'], 'animations removed');
+	t.deepEqual(report.materials.changed, [{ name: 'Mat', changes: ['baseColorFactor'] }], 'materials changed');
+	t.deepEqual(report.textures.changed, [{ name: 'Tex', changes: ['image'] }], 'textures changed');
+	t.deepEqual(report.meshes.changed, [], 'meshes unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::diff | tolerance', async (t) => {
+	const docA = createDocument();
+	const docB = docA.clone();
+	const position = docB.getRoot().listAccessors()[0];
+	position.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1.001, 0]));
+
+	const changes = [{ name: 'Mesh', changes: ['primitives[0].attributes.POSITION'] }];
+	t.deepEqual(diff(docA, docB).meshes.changed, changes, 'exact');
+	t.deepEqual(diff(docA, docB, { tolerance: 0.01 }).meshes.changed, [], 'within tolerance');
+	t.deepEqual(diff(docA, docB, { tolerance: 0.0001 }).meshes.changed, changes, 'outside tolerance');
+	t.end();
+});
+
+test('@gltf-transform/functions::diff | matching', async (t) => {
+	const docA = new Document();
+	docA.createNode('Node');
+	docA.createNode('Node').setScale([2, 2, 2]);
+	docA.createNode();
+
+	const docB = docA.clone();
+	docB.getRoot().listNodes()[2].setRotation([0, 0, 1, 0]);
+
+	const report = diff(docA, docB);
+	t.deepEqual(report.nodes.changed, [{ name: '#0', changes: ['rotation'] }], 'unnamed');
+	t.deepEqual(report.nodes.added, [], 'duplicate names');
+
+	docB.getRoot().listNodes()[0].dispose();
+	const { removed, changed } = diff(docA, docB).nodes;
+	t.deepEqual(removed, ['Node #1'], 'duplicate names, removed');
+	t.deepEqual(changed[0], { name: 'Node #0', changes: ['scale'] }, 'duplicate names, changed');
+	t.end();
+});
+
+function createDocument(): Document {
+	const doc = new Document();
+	const buffer = doc.createBuffer();
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const texture = doc.createTexture('Tex').setImage(new Uint8Array([1, 2, 3, 4])).setMimeType('image/png');
+	const material = doc.createMaterial('Mat').setBaseColorTexture(texture);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).setMaterial(material);
+	const mesh = doc.createMesh('Mesh').addPrimitive(prim);
+	const node = doc.createNode('NodeA').setMesh(mesh);
+	const input = doc.createAccessor().setArray(new Float32Array([0, 1])).setBuffer(buffer);
+	const output = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 0, 1, 0]))
+		.setBuffer(buffer);
+	const sampler = doc.createAnimationSampler().setInput(input).setOutput(output);
+	const channel = doc.createAnimationChannel().setTargetNode(node).setTargetPath('translation').setSampler(sampler);
+	doc.createAnimation('Anim').addSampler(sampler).addChannel(channel);
+	doc.createScene().addChild(node);
+	return doc;
+}
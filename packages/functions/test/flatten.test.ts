@@ -0,0 +1,96 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger, mat4, Node } from '@gltf-transform/core';
+import { flatten } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::flatten', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const mesh = doc.createMesh();
+	const nodeC = doc.createNode('C').setTranslation([0, 0, 1]).setScale([2, 2, 2]).setMesh(mesh);
+	const nodeB = doc.createNode('B').setTranslation([0, 1, 0]).addChild(nodeC);
+	const nodeA = doc.createNode('A').setTranslation([1, 0, 0]).addChild(nodeB);
+	const scene = doc.createScene().addChild(nodeA);
+
+	const matrixC = nodeC.getWorldMatrix();
+
+	await doc.transform(flatten());
+
+	t.deepEquals(listNames(scene.listChildren()), ['A', 'B', 'C'], 'nodes reparented to scene');
+	t.deepEquals(listNames(nodeA.listChildren()), [], 'A has no children');
+	t.deepEquals(listNames(nodeB.listChildren()), [], 'B has no children');
+	t.deepEquals(nodeB.getTranslation(), [1, 1, 0], 'B translation');
+	t.deepEquals(nodeC.getTranslation(), [1, 1, 1], 'C translation');
+	t.deepEquals(nodeC.getScale(), [2, 2, 2], 'C scale');
+	t.deepEquals(nodeC.getWorldMatrix(), matrixC, 'C world matrix unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::flatten | animation', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const nodeC = doc.createNode('C').setTranslation([0, 0, 1]);
+	const nodeB = doc.createNode('B').setTranslation([0, 1, 0]).addChild(nodeC);
+	const nodeA = doc.createNode('A').setTranslation([1, 0, 0]).addChild(nodeB);
+	const scene = doc.createScene().addChild(nodeA);
+
+	const sampler = doc.createAnimationSampler();
+	const channel = doc.createAnimationChannel().setTargetNode(nodeB).setTargetPath('rotation').setSampler(sampler);
+	doc.createAnimation().addSampler(sampler).addChannel(channel);
+
+	await doc.transform(flatten());
+
+	t.deepEquals(listNames(scene.listChildren()), ['A'], 'animated node not reparented');
+	t.deepEquals(listNames(nodeB.listChildren()), ['C'], 'animated subtree intact');
+	t.deepEquals(nodeB.getTranslation(), [0, 1, 0], 'B translation');
+	t.deepEquals(nodeC.getTranslation(), [0, 0, 1], 'C translation');
+	t.end();
+});
+
+test('@gltf-transform/functions::flatten | pointer animation', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const nodeC = doc.createNode('C').setTranslation([0, 0, 1]);
+	const nodeB = doc.createNode('B').setTranslation([0, 1, 0]).addChild(nodeC);
+	const nodeA = doc.createNode('A').setTranslation([1, 0, 0]).addChild(nodeB);
+	const scene = doc.createScene().addChild(nodeA);
+
+	const sampler = doc.createAnimationSampler();
+	const channel = doc
+		.createAnimationChannel()
+		.setTargetPath('pointer')
+		.setTargetProperty(nodeB)
+		.setTargetPointer('/translation')
+		.setSampler(sampler);
+	doc.createAnimation().addSampler(sampler).addChannel(channel);
+
+	await doc.transform(flatten());
+
+	t.deepEquals(listNames(scene.listChildren()), ['A'], 'animated node not reparented');
+	t.deepEquals(listNames(nodeB.listChildren()), ['C'], 'animated subtree intact');
+	t.end();
+});
+
+test('@gltf-transform/functions::flatten | skin', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const jointB = doc.createNode('JointB').setTranslation([0, 1, 0]);
+	const jointA = doc.createNode('JointA').addChild(jointB);
+	const skin = doc.createSkin().addJoint(jointA).addJoint(jointB);
+	const skinnedNode = doc.createNode('Skinned').setSkin(skin);
+	const group = doc.createNode('Group').setTranslation([1, 0, 0]).addChild(jointA).addChild(skinnedNode);
+	const scene = doc.createScene().addChild(group);
+
+	await doc.transform(flatten());
+
+	t.deepEquals(listNames(scene.listChildren()), ['Group'], 'joints and skinned nodes not reparented');
+	t.deepEquals(listNames(group.listChildren()), ['JointA', 'Skinned'], 'joints and skinned nodes intact');
+	t.deepEquals(listNames(jointA.listChildren()), ['JointB'], 'skeleton intact');
+	t.deepEquals(jointB.getWorldMatrix(), [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 1, 1, 0, 1] as mat4, 'world matrix');
+	t.end();
+});
+
+/* UTILITIES */
+
+function listNames(nodes: Node[]): string[] {
+	return nodes.map((node) => node.getName());
+}
@@ -2,7 +2,7 @@ require('source-map-support').install();
 
 import path from 'path';
 import test from 'tape';
-import { Logger, NodeIO } from '@gltf-transform/core';
+import { Document, Logger, NodeIO, Primitive } from '@gltf-transform/core';
 import { inspect } from '../';
 
 test('@gltf-transform/functions::inspect', async (t) => {
@@ -23,3 +23,62 @@ test('@gltf-transform/functions::inspect', async (t) => {
 	t.equal(report.textures.properties.length, 1, 'report.textures');
 	t.end();
 });
+
+test('@gltf-transform/functions::inspect | efficiency', async (t) => {
+	const doc = new Document();
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]));
+	const indices = doc.createAccessor().setArray(new Uint16Array([0, 1, 2, 0, 2, 3]));
+	const quad = doc.createPrimitive().setAttribute('POSITION', position).setIndices(indices);
+	const points = doc.createPrimitive().setAttribute('POSITION', position).setMode(Primitive.Mode.POINTS);
+	doc.createMesh().addPrimitive(quad).addPrimitive(points);
+
+	t.equal(inspect(doc).meshes.properties[0].acmr, undefined, 'disabled by default');
+
+	const report = inspect(doc, { efficiency: true }).meshes.properties[0];
+	t.deepEqual(report.acmr, [2, null], 'acmr');
+	t.deepEqual(report.atvr, [1, null], 'atvr');
+	t.deepEqual(report.overdraw, [1, null], 'overdraw');
+	t.deepEqual(report.overfetch, [1.333, null], 'overfetch');
+	t.end();
+});
+
+test('@gltf-transform/functions::inspect | lazy', async (t) => {
+	const io = new NodeIO().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const uri = path.join(__dirname, 'in/TwoCubes.glb');
+	const doc = await io.read(uri);
+	const lazyDoc = await io.readLazy(uri);
+
+	t.deepEquals(inspect(lazyDoc), inspect(doc), 'report');
+	t.end();
+});
+
+test('@gltf-transform/functions::inspect | lazy, bytes read', async (t) => {
+	const io = new NodeIO().setLogger(new Logger(Logger.Verbosity.SILENT));
+	const doc = await io.read(path.join(__dirname, 'in/TwoCubes.glb'));
+
+	// PNG signature and IHDR header, sufficient to report resolution, followed by 1 MB of data.
+	const image = new Uint8Array(1024 * 1024);
+	image.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+	new DataView(image.buffer).setUint32(16, 256);
+	new DataView(image.buffer).setUint32(20, 128);
+	doc.getRoot().listMaterials()[0].setBaseColorTexture(doc.createTexture().setImage(image).setMimeType('image/png'));
+
+	const glb = await io.writeBinary(doc);
+	let bytesRead = 0;
+	const lazyDoc = await io.readBinaryLazy((byteOffset, byteLength) => {
+		bytesRead += byteLength;
+		return glb.slice(byteOffset, byteOffset + byteLength);
+	});
+
+	bytesRead = 0;
+	const report = inspect(lazyDoc);
+
+	t.deepEquals(report, inspect(doc), 'report');
+	t.equals(report.textures.properties[0].resolution, '256x128', 'texture resolution');
+	t.equals(report.textures.properties[0].size, image.byteLength, 'texture size');
+	t.ok(bytesRead < image.byteLength, 'reads only image headers, for resolution and GPU size');
+	t.end();
+});
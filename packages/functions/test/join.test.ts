@@ -0,0 +1,184 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger, Primitive } from '@gltf-transform/core';
+import { join } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::join', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const material = doc.createMaterial();
+	const meshA = doc.createMesh().addPrimitive(createTriangle(doc).setMaterial(material));
+	const meshB = doc.createMesh().addPrimitive(createTriangle(doc).setMaterial(material));
+	const nodeA = doc.createNode().setMesh(meshA).setTranslation([10, 0, 0]);
+	const nodeB = doc.createNode().setMesh(meshB).setScale([2, 2, 2]);
+	const parent = doc.createNode().setTranslation([0, 5, 0]).addChild(nodeB);
+	const scene = doc.createScene().addChild(nodeA).addChild(parent);
+
+	await doc.transform(join());
+
+	t.equals(nodeA.getMesh(), null, 'node A mesh removed');
+	t.equals(nodeB.getMesh(), null, 'node B mesh removed');
+	t.ok(meshA.isDisposed() && meshB.isDisposed(), 'original meshes disposed');
+
+	const joinedNode = scene.listChildren()[2];
+	const joinedPrim = joinedNode.getMesh().listPrimitives()[0];
+	t.equals(joinedNode.getMesh().listPrimitives().length, 1, 'joined into one primitive');
+	t.equals(joinedPrim.getMaterial(), material, 'material retained');
+	t.deepEquals(
+		Array.from(joinedPrim.getAttribute('POSITION').getArray()),
+		[10, 0, 0, 11, 0, 0, 10, 1, 0, 0, 5, 0, 2, 5, 0, 0, 7, 0],
+		'positions in world space'
+	);
+	t.deepEquals(
+		Array.from(joinedPrim.getAttribute('NORMAL').getArray()),
+		[0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1],
+		'normals in world space'
+	);
+	t.deepEquals(Array.from(joinedPrim.getIndices().getArray()), [0, 1, 2, 3, 4, 5], 'indices');
+	t.ok(joinedPrim.getIndices().getArray() instanceof Uint16Array, 'uint16 indices');
+	t.end();
+});
+
+test('@gltf-transform/functions::join | incompatible primitives', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const materialA = doc.createMaterial();
+	const materialB = doc.createMaterial();
+	const meshA = doc.createMesh().addPrimitive(createTriangle(doc).setMaterial(materialA));
+	const meshB = doc.createMesh().addPrimitive(createTriangle(doc).setMaterial(materialB));
+	const primC = createTriangle(doc).setMaterial(materialA).setMode(Primitive.Mode.LINES);
+	const meshC = doc.createMesh().addPrimitive(primC);
+	const nodeA = doc.createNode().setMesh(meshA);
+	const nodeB = doc.createNode().setMesh(meshB);
+	const nodeC = doc.createNode().setMesh(meshC);
+	doc.createScene().addChild(nodeA).addChild(nodeB).addChild(nodeC);
+
+	await doc.transform(join());
+
+	t.equals(nodeA.getMesh(), meshA, 'node A unchanged');
+	t.equals(nodeB.getMesh(), meshB, 'node B unchanged');
+	t.equals(nodeC.getMesh(), meshC, 'node C unchanged');
+	t.equals(doc.getRoot().listMeshes().length, 3, 'no meshes added');
+	t.end();
+});
+
+test('@gltf-transform/functions::join | options', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const scene = doc.createScene();
+	const named = doc.createNode('Named').setMesh(doc.createMesh().addPrimitive(createTriangle(doc)));
+	scene.addChild(named);
+	for (let i = 0; i < 4; i++) {
+		scene.addChild(doc.createNode().setMesh(doc.createMesh().addPrimitive(createTriangle(doc))));
+	}
+
+	await doc.transform(join({ keepNamed: true, vertexLimit: 6 }));
+
+	const joinedPrims = doc
+		.getRoot()
+		.listMeshes()
+		.filter((mesh) => mesh !== named.getMesh())
+		.flatMap((mesh) => mesh.listPrimitives());
+
+	t.ok(named.getMesh(), 'named node unchanged');
+	t.equals(joinedPrims.length, 2, 'split by vertex limit');
+	t.deepEquals(
+		joinedPrims.map((prim) => prim.getAttribute('POSITION').getCount()),
+		[6, 6],
+		'vertex counts within limit'
+	);
+	t.end();
+});
+
+test('@gltf-transform/functions::join | animation and shared meshes', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createTriangle(doc);
+	const points = createTriangle(doc).setMode(Primitive.Mode.POINTS);
+	const sharedMesh = doc.createMesh().addPrimitive(prim).addPrimitive(points);
+	const nodeA = doc.createNode().setMesh(sharedMesh);
+	const nodeB = doc.createNode().setMesh(doc.createMesh().addPrimitive(createTriangle(doc)));
+	const animated = doc.createNode().setMesh(sharedMesh);
+	doc.createScene().addChild(nodeA).addChild(nodeB).addChild(animated);
+
+	const sampler = doc.createAnimationSampler();
+	const channel = doc
+		.createAnimationChannel()
+		.setTargetNode(animated)
+		.setTargetPath('translation')
+		.setSampler(sampler);
+	doc.createAnimation().addSampler(sampler).addChannel(channel);
+
+	await doc.transform(join());
+
+	t.equals(animated.getMesh(), sharedMesh, 'animated node unchanged');
+	t.deepEquals(sharedMesh.listPrimitives().length, 2, 'shared mesh unchanged');
+	t.ok(nodeA.getMesh() !== sharedMesh, 'joined node mesh cloned');
+	t.equals(nodeA.getMesh().listPrimitives().length, 1, 'unjoined primitives retained');
+	t.equals(nodeB.getMesh(), null, 'fully joined node mesh removed');
+	t.end();
+});
+
+test('@gltf-transform/functions::join | pointer animation', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const meshA = doc.createMesh().addPrimitive(createTriangle(doc));
+	const meshB = doc.createMesh().addPrimitive(createTriangle(doc));
+	const nodeA = doc.createNode().setMesh(meshA);
+	const animated = doc.createNode().setMesh(meshB);
+	doc.createScene().addChild(nodeA).addChild(animated);
+
+	const sampler = doc.createAnimationSampler();
+	const channel = doc
+		.createAnimationChannel()
+		.setTargetPath('pointer')
+		.setTargetProperty(animated)
+		.setTargetPointer('/rotation')
+		.setSampler(sampler);
+	doc.createAnimation().addSampler(sampler).addChannel(channel);
+
+	await doc.transform(join());
+
+	t.equals(animated.getMesh(), meshB, 'animated node unchanged');
+	t.equals(nodeA.getMesh(), meshA, 'unpaired node unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::join | mirrored', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const primA = createTriangle(doc);
+	const primB = createTriangle(doc);
+	for (const prim of [primA, primB]) {
+		const tangent = doc
+			.createAccessor()
+			.setType(Accessor.Type.VEC4)
+			.setArray(new Float32Array([1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1]));
+		prim.setAttribute('TANGENT', tangent);
+	}
+	const nodeA = doc.createNode().setMesh(doc.createMesh().addPrimitive(primA));
+	const nodeB = doc.createNode().setMesh(doc.createMesh().addPrimitive(primB)).setScale([-1, 1, 1]);
+	const scene = doc.createScene().addChild(nodeA).addChild(nodeB);
+
+	await doc.transform(join());
+
+	const joinedPrim = scene.listChildren()[2].getMesh().listPrimitives()[0];
+	t.deepEquals(
+		Array.from(joinedPrim.getAttribute('TANGENT').getArray()),
+		[1, 0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 1, -1, 0, 0, -1, -1, 0, 0, -1, -1, 0, 0, -1],
+		'tangent handedness flipped'
+	);
+	t.deepEquals(Array.from(joinedPrim.getIndices().getArray()), [0, 1, 2, 3, 5, 4], 'winding flipped');
+	t.end();
+});
+
+/* UTILITIES */
+
+function createTriangle(doc: Document): Primitive {
+	const position = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+	const normal = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]));
+	return doc.createPrimitive().setAttribute('POSITION', position).setAttribute('NORMAL', normal);
+}
@@ -0,0 +1,103 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger } from '@gltf-transform/core';
+import { limitJointInfluences } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::limitJointInfluences', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createSkinnedPrimitive(doc);
+
+	await doc.transform(limitJointInfluences({ max: 4 }));
+
+	t.deepEquals(
+		prim.listSemantics().filter((semantic) => /^(JOINTS|WEIGHTS)_/.test(semantic)),
+		['JOINTS_0', 'WEIGHTS_0'],
+		'removes excess sets'
+	);
+	t.deepEquals(prim.getAttribute('JOINTS_0')!.getElement(0, []), [6, 7, 4, 5], 'vertex 0 joints');
+	t.deepEquals(
+		roundAll(prim.getAttribute('WEIGHTS_0')!.getElement(0, [])),
+		[0.375, 0.375, 0.125, 0.125],
+		'vertex 0 weights'
+	);
+	t.deepEquals(prim.getAttribute('JOINTS_0')!.getElement(1, []), [1, 2, 0, 0], 'vertex 1 joints');
+	t.deepEquals(roundAll(prim.getAttribute('WEIGHTS_0')!.getElement(1, [])), [0.75, 0.25, 0, 0], 'vertex 1 weights');
+	t.equals(doc.getRoot().listAccessors().length, 3, 'prunes accessors');
+	t.end();
+});
+
+test('@gltf-transform/functions::limitJointInfluences | max', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createSkinnedPrimitive(doc);
+
+	await doc.transform(limitJointInfluences({ max: 2 }));
+
+	t.deepEquals(prim.getAttribute('JOINTS_0')!.getElement(0, []), [6, 7, 0, 0], 'vertex 0 joints');
+	t.deepEquals(roundAll(prim.getAttribute('WEIGHTS_0')!.getElement(0, [])), [0.5, 0.5, 0, 0], 'vertex 0 weights');
+	t.deepEquals(prim.getAttribute('JOINTS_0')!.getElement(1, []), [1, 2, 0, 0], 'vertex 1 joints');
+	t.deepEquals(roundAll(prim.getAttribute('WEIGHTS_0')!.getElement(1, [])), [0.75, 0.25, 0, 0], 'vertex 1 weights');
+	t.throws(() => limitJointInfluences({ max: 0 }), /max/, 'invalid max');
+	t.end();
+});
+
+test('@gltf-transform/functions::limitJointInfluences | mixed component types', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createSkinnedPrimitive(doc);
+	const joints1 = prim.getAttribute('JOINTS_1')!;
+	joints1.setArray(new Uint16Array([4, 5, 300, 301, 0, 0, 0, 0]));
+
+	await doc.transform(limitJointInfluences({ max: 4 }));
+
+	const joints0 = prim.getAttribute('JOINTS_0')!;
+	t.equals(joints0.getComponentType(), Accessor.ComponentType.UNSIGNED_SHORT, 'component type');
+	t.deepEquals(joints0.getElement(0, []), [300, 301, 4, 5], 'vertex 0 joints');
+	t.deepEquals(joints0.getElement(1, []), [1, 2, 0, 0], 'vertex 1 joints');
+	t.end();
+});
+
+/* UTILITIES */
+
+function createSkinnedPrimitive(doc: Document) {
+	const buffer = doc.createBuffer();
+	const position = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0]))
+		.setBuffer(buffer);
+	const joints0 = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([0, 1, 2, 3, 1, 2, 0, 0]))
+		.setBuffer(buffer);
+	const weights0 = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([0.05, 0.05, 0.05, 0.05, 0.6, 0.2, 0, 0]))
+		.setBuffer(buffer);
+	const joints1 = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([4, 5, 6, 7, 0, 0, 0, 0]))
+		.setBuffer(buffer);
+	const weights1 = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([0.1, 0.1, 0.3, 0.3, 0, 0, 0, 0]))
+		.setBuffer(buffer);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('JOINTS_0', joints0)
+		.setAttribute('WEIGHTS_0', weights0)
+		.setAttribute('JOINTS_1', joints1)
+		.setAttribute('WEIGHTS_1', weights1);
+	doc.createMesh().addPrimitive(prim);
+	return prim;
+}
+
+function roundAll(values: number[]): number[] {
+	return values.map((value) => Math.round(value * 1000) / 1000);
+}
@@ -3,7 +3,7 @@ require('source-map-support').install();
 import test from 'tape';
 import { Document, TextureChannel } from '@gltf-transform/core';
 import { listTextureChannels, getTextureChannelMask } from '@gltf-transform/functions';
-import { MaterialsSheen } from '@gltf-transform/extensions';
+import { MaterialsAnisotropy, MaterialsSheen } from '@gltf-transform/extensions';
 
 const { R, G, B, A } = TextureChannel;
 
@@ -52,3 +52,15 @@ test('@gltf-transform/functions::getTextureChannelMask', (t) => {
 	t.equals(getTextureChannelMask(document, textureB), R | G | B | A, 'sheenColorTexture RGBA');
 	t.end();
 });
+
+test('@gltf-transform/functions::listTextureChannels | anisotropy', (t) => {
+	const document = new Document();
+	const texture = document.createTexture();
+	const anisotropyExtension = document.createExtension(MaterialsAnisotropy);
+	const anisotropy = anisotropyExtension.createAnisotropy().setAnisotropyTexture(texture);
+	document.createMaterial().setExtension('KHR_materials_anisotropy', anisotropy);
+
+	t.deepEquals(listTextureChannels(document, texture), [R, G, B], 'anisotropyTexture RGB');
+	t.equals(getTextureChannelMask(document, texture), R | G | B, 'anisotropyTexture RGB');
+	t.end();
+});
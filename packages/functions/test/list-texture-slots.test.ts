@@ -3,7 +3,7 @@ require('source-map-support').install();
 import test from 'tape';
 import { Document } from '@gltf-transform/core';
 import { listTextureSlots } from '@gltf-transform/functions';
-import { MaterialsSheen } from '@gltf-transform/extensions';
+import { MaterialsAnisotropy, MaterialsSheen } from '@gltf-transform/extensions';
 
 test('@gltf-transform/functions::listTextureSlots', (t) => {
 	const document = new Document();
@@ -16,3 +16,13 @@ test('@gltf-transform/functions::listTextureSlots', (t) => {
 	t.deepEquals(listTextureSlots(document, textureB), ['sheenColorTexture'], 'sheenColorTexture');
 	t.end();
 });
+
+test('@gltf-transform/functions::listTextureSlots | anisotropy', (t) => {
+	const document = new Document();
+	const texture = document.createTexture();
+	const anisotropyExtension = document.createExtension(MaterialsAnisotropy);
+	const anisotropy = anisotropyExtension.createAnisotropy().setAnisotropyTexture(texture);
+	document.createMaterial().setExtension('KHR_materials_anisotropy', anisotropy);
+	t.deepEquals(listTextureSlots(document, texture), ['anisotropyTexture'], 'anisotropyTexture');
+	t.end();
+});
@@ -0,0 +1,97 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger, Primitive } from '@gltf-transform/core';
+import { LOD } from '@gltf-transform/extensions';
+import { inspect, lod } from '../';
+import { MeshoptSimplifier } from 'meshoptimizer';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::lod', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createGrid(doc, 16);
+	const mesh = doc.createMesh('Grid').addPrimitive(prim);
+	const nodeA = doc.createNode('GridA').setMesh(mesh).setTranslation([1, 0, 0]);
+	const nodeB = doc.createNode('GridB').setMesh(mesh);
+	doc.createScene().addChild(nodeA).addChild(nodeB);
+
+	await doc.transform(lod({ simplifier: MeshoptSimplifier, ratios: [0.5, 0.25], coverages: [0.5, 0.2, 0.05] }));
+
+	const lodA = nodeA.getExtension<LOD>('MSFT_lod');
+	const lodB = nodeB.getExtension<LOD>('MSFT_lod');
+	t.ok(lodA, 'creates LOD');
+	t.deepEqual(
+		lodA.listLevels().map((level) => level.getName()),
+		['GridA_LOD1', 'GridA_LOD2'],
+		'creates LOD nodes'
+	);
+	t.deepEqual(nodeA.getExtras(), { MSFT_screencoverage: [0.5, 0.2, 0.05] }, 'sets screen coverage');
+	t.deepEqual((lodA.listLevels()[0] as typeof nodeA).getTranslation(), [1, 0, 0], 'copies transform');
+
+	const [meshLOD1, meshLOD2] = lodA.listLevels().map((level) => (level as typeof nodeA).getMesh());
+	t.deepEqual(
+		lodB.listLevels().map((level) => (level as typeof nodeA).getMesh()),
+		[meshLOD1, meshLOD2],
+		'shares LOD meshes'
+	);
+	t.deepEqual(
+		doc.getRoot().listMeshes().map((mesh) => mesh.getName()),
+		['Grid', 'Grid_LOD1', 'Grid_LOD2'],
+		'creates LOD meshes'
+	);
+
+	const triangles = [mesh, meshLOD1, meshLOD2].map((mesh) => mesh.listPrimitives()[0].getIndices().getCount() / 3);
+	t.equals(triangles[0], 512, 'original mesh unchanged');
+	t.ok(triangles[1] <= 256, `LOD1: ${triangles[1]} triangles`);
+	t.ok(triangles[2] <= 128, `LOD2: ${triangles[2]} triangles`);
+	t.equals(doc.getRoot().listScenes()[0].listChildren().length, 2, 'LOD nodes not in scene');
+
+	const report = inspect(doc).lods.properties;
+	t.deepEqual(
+		report[0],
+		{ name: 'GridA', levels: 3, glPrimitives: triangles, coverages: [0.5, 0.2, 0.05] },
+		'inspect'
+	);
+
+	await doc.transform(lod({ simplifier: MeshoptSimplifier }));
+	t.equals(doc.getRoot().listMeshes().length, 3, 'skips nodes with LODs');
+	t.end();
+});
+
+test('@gltf-transform/functions::lod | options', async (t) => {
+	t.throws(() => lod({ simplifier: null }), /dependency required/, 'missing dependency');
+	t.throws(
+		() => lod({ simplifier: MeshoptSimplifier, ratios: [0.5], coverages: [0.5] }),
+		/coverages/,
+		'invalid coverages'
+	);
+	t.ok(lod({ simplifier: MeshoptSimplifier, ratios: [0.5], coverages: [0.5, 0.1, 0.01] }), 'culling coverage');
+	t.end();
+});
+
+/** Creates a planar, unit-sized grid of (size + 1)² vertices on the XZ plane. */
+function createGrid(doc: Document, size: number): Primitive {
+	const positionArray: number[] = [];
+	const indicesArray: number[] = [];
+
+	for (let i = 0; i <= size; i++) {
+		for (let j = 0; j <= size; j++) {
+			positionArray.push(i / size, 0, j / size);
+		}
+	}
+
+	for (let i = 0; i < size; i++) {
+		for (let j = 0; j < size; j++) {
+			const a = i * (size + 1) + j;
+			const b = a + 1;
+			const c = a + size + 1;
+			const d = c + 1;
+			indicesArray.push(a, b, c, c, b, d);
+		}
+	}
+
+	const position = doc.createAccessor().setType('VEC3').setArray(new Float32Array(positionArray));
+	const indices = doc.createAccessor().setType('SCALAR').setArray(new Uint32Array(indicesArray));
+	return doc.createPrimitive().setIndices(indices).setAttribute('POSITION', position);
+}
@@ -0,0 +1,100 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import ndarray from 'ndarray';
+import { getPixels, savePixels } from 'ndarray-pixels';
+import { Document, Logger, Texture } from '@gltf-transform/core';
+import { TextureTransform } from '@gltf-transform/extensions';
+import { ormPack } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::ormPack', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const occlusionTexture = await createTexture(doc, 'occlusion', [4, 4], [100, 100, 100, 255]);
+	const metalRoughTexture = await createTexture(doc, 'metalRough', [4, 4], [0, 50, 200, 255]);
+	const materialA = doc
+		.createMaterial('A')
+		.setOcclusionTexture(occlusionTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+	const materialB = doc
+		.createMaterial('B')
+		.setOcclusionTexture(occlusionTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+
+	await doc.transform(ormPack());
+
+	const textures = doc.getRoot().listTextures();
+	const ormTexture = materialA.getOcclusionTexture();
+	t.equals(textures.length, 1, 'disposes unused textures');
+	t.equals(ormTexture, textures[0], 'occlusion uses ORM texture');
+	t.equals(materialA.getMetallicRoughnessTexture(), ormTexture, 'metal/rough uses ORM texture');
+	t.equals(materialB.getOcclusionTexture(), ormTexture, 'shares ORM texture');
+	t.equals(ormTexture.getName(), 'metalRough_orm', 'name');
+	t.equals(ormTexture.getMimeType(), 'image/png', 'mime type');
+
+	const pixels = await getPixels(ormTexture.getImage(), 'image/png');
+	t.deepEquals(pixels.shape, [4, 4, 4], 'size');
+	t.deepEquals([0, 1, 2, 3].map((k) => pixels.get(1, 2, k)), [100, 50, 200, 255], 'packs channels');
+	t.end();
+});
+
+test('@gltf-transform/functions::ormPack | resize', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const occlusionTexture = await createTexture(doc, 'occlusion', [2, 2], [100, 100, 100, 255]);
+	const metalRoughTexture = await createTexture(doc, 'metalRough', [4, 8], [0, 50, 200, 255]);
+	const material = doc
+		.createMaterial()
+		.setOcclusionTexture(occlusionTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+
+	await doc.transform(ormPack());
+
+	const ormTexture = material.getOcclusionTexture();
+	t.deepEquals(ormTexture.getSize(), [4, 8], 'resizes to larger texture');
+	t.equals(material.getMetallicRoughnessTexture(), ormTexture, 'packs');
+	t.end();
+});
+
+test('@gltf-transform/functions::ormPack | skip', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const transformExtension = doc.createExtension(TextureTransform);
+	const occlusionTexture = await createTexture(doc, 'occlusion', [4, 4], [100, 100, 100, 255]);
+	const metalRoughTexture = await createTexture(doc, 'metalRough', [4, 4], [0, 50, 200, 255]);
+	const materialA = doc
+		.createMaterial('A')
+		.setOcclusionTexture(occlusionTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+	materialA.getOcclusionTextureInfo().setTexCoord(1);
+	const materialB = doc
+		.createMaterial('B')
+		.setOcclusionTexture(occlusionTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+	materialB
+		.getOcclusionTextureInfo()
+		.setExtension('KHR_texture_transform', transformExtension.createTransform().setScale([2, 2]));
+	const materialC = doc.createMaterial('C').setMetallicRoughnessTexture(metalRoughTexture);
+
+	await doc.transform(ormPack());
+
+	t.equals(materialA.getOcclusionTexture(), occlusionTexture, 'skips different texcoords');
+	t.equals(materialB.getOcclusionTexture(), occlusionTexture, 'skips different texture transforms');
+	t.equals(materialC.getMetallicRoughnessTexture(), metalRoughTexture, 'skips missing occlusion');
+	t.equals(doc.getRoot().listTextures().length, 2, 'no ORM textures');
+	t.end();
+});
+
+/* UTILITIES */
+
+/** Creates a PNG texture of the given size, filled with the given color. */
+async function createTexture(doc: Document, name: string, size: number[], color: number[]): Promise<Texture> {
+	const [width, height] = size;
+	const pixels = ndarray(new Uint8Array(width * height * 4), [width, height, 4]);
+	for (let i = 0; i < width; i++) {
+		for (let j = 0; j < height; j++) {
+			for (let k = 0; k < 4; k++) pixels.set(i, j, k, color[k]);
+		}
+	}
+	const image = await savePixels(pixels, 'image/png');
+	return doc.createTexture(name).setMimeType('image/png').setImage(image);
+}
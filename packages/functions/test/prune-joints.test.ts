@@ -0,0 +1,98 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger } from '@gltf-transform/core';
+import { pruneJoints } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::pruneJoints', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const buffer = doc.createBuffer();
+	const jointA = doc.createNode('A');
+	const jointB = doc.createNode('B');
+	const jointC = doc.createNode('C');
+	const jointD = doc.createNode('D');
+	const inverseBindMatrices = doc
+		.createAccessor()
+		.setType(Accessor.Type.MAT4)
+		.setArray(new Float32Array(Array.from({ length: 64 }, (_, i) => Math.floor(i / 16))))
+		.setBuffer(buffer);
+	const skin = doc
+		.createSkin()
+		.addJoint(jointA)
+		.addJoint(jointB)
+		.addJoint(jointC)
+		.addJoint(jointD)
+		.setInverseBindMatrices(inverseBindMatrices);
+	const position = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC3)
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0]))
+		.setBuffer(buffer);
+	const joints = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([1, 0, 0, 0, 3, 1, 2, 0]))
+		.setBuffer(buffer);
+	const weights = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([1, 0, 0, 0, 0.5, 0.5, 0, 0]))
+		.setBuffer(buffer);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.setAttribute('JOINTS_0', joints)
+		.setAttribute('WEIGHTS_0', weights);
+	const mesh = doc.createMesh().addPrimitive(prim);
+	const node = doc.createNode('Skinned').setMesh(mesh).setSkin(skin);
+	doc.createScene().addChild(jointA.addChild(jointB).addChild(jointC).addChild(jointD)).addChild(node);
+
+	await doc.transform(pruneJoints());
+
+	t.deepEquals(
+		skin.listJoints().map((joint) => joint.getName()),
+		['B', 'D'],
+		'prunes joints'
+	);
+	t.deepEquals(
+		Array.from(skin.getInverseBindMatrices()!.getArray()!),
+		[...new Array(16).fill(1), ...new Array(16).fill(3)],
+		'prunes inverse bind matrices'
+	);
+	t.deepEquals(Array.from(prim.getAttribute('JOINTS_0')!.getArray()!), [0, 0, 0, 0, 1, 0, 0, 0], 'remaps joints');
+	t.ok(prim.getAttribute('WEIGHTS_0') === weights, 'keeps weights');
+	t.ok(inverseBindMatrices.isDisposed() && joints.isDisposed(), 'prunes accessors');
+	t.deepEquals(
+		jointA.listChildren().map((joint) => joint.getName()),
+		['B', 'C', 'D'],
+		'keeps joint nodes'
+	);
+	t.end();
+});
+
+test('@gltf-transform/functions::pruneJoints | shared mesh', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const joints = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Uint8Array([1, 0, 0, 0]));
+	const weights = doc
+		.createAccessor()
+		.setType(Accessor.Type.VEC4)
+		.setArray(new Float32Array([1, 0, 0, 0]));
+	const prim = doc.createPrimitive().setAttribute('JOINTS_0', joints).setAttribute('WEIGHTS_0', weights);
+	const mesh = doc.createMesh().addPrimitive(prim);
+	const skinA = doc.createSkin().addJoint(doc.createNode('A1')).addJoint(doc.createNode('A2'));
+	const skinB = doc.createSkin().addJoint(doc.createNode('B1')).addJoint(doc.createNode('B2'));
+	doc.createNode().setMesh(mesh).setSkin(skinA);
+	doc.createNode().setMesh(mesh).setSkin(skinB);
+
+	await doc.transform(pruneJoints());
+
+	t.equals(skinA.listJoints().length, 2, 'skips skin A');
+	t.equals(skinB.listJoints().length, 2, 'skips skin B');
+	t.equals(prim.getAttribute('JOINTS_0'), joints, 'keeps joints');
+	t.end();
+});
@@ -39,3 +39,30 @@ test('@gltf-transform/functions::prune', async (t) => {
 
 	t.end();
 });
+
+test('@gltf-transform/functions::prune | animation pointer', async (t) => {
+	const doc = new Document();
+	const material = doc.createMaterial();
+	const prim = doc.createPrimitive().setMaterial(material);
+	doc.createScene().addChild(doc.createNode().setMesh(doc.createMesh().addPrimitive(prim)));
+	const material2 = doc.createMaterial();
+
+	const samp = doc.createAnimationSampler();
+	const chan = doc.createAnimationChannel().setTargetPath('pointer').setTargetProperty(material).setSampler(samp);
+	const anim = doc.createAnimation().addChannel(chan).addSampler(samp);
+	const samp2 = doc.createAnimationSampler();
+	const chan2 = doc.createAnimationChannel().setTargetPath('pointer').setTargetProperty(material2).setSampler(samp2);
+	const anim2 = doc.createAnimation().addChannel(chan2).addSampler(samp2);
+
+	await doc.transform(prune());
+
+	t.notOk(material.isDisposed(), 'referenced material');
+	t.notOk(anim.isDisposed(), 'referenced animation');
+	t.notOk(chan.isDisposed(), 'referenced channel');
+	t.equals(chan.getTargetProperty(), material, 'referenced channel target');
+
+	t.ok(material2.isDisposed(), 'unreferenced material');
+	t.ok(anim2.isDisposed(), 'unreferenced animation');
+	t.ok(chan2.isDisposed(), 'unreferenced channel');
+	t.end();
+});
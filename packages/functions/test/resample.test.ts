@@ -36,8 +36,71 @@ test('@gltf-transform/functions::resample', async (t) => {
 	t.deepEquals(samplerB.getInput().getArray(), new Uint8Array([0, 2, 6]), 'LINEAR input');
 	t.deepEquals(samplerB.getOutput().getArray(), new Uint8Array([1, 1, 1, 1, 1, 5]), 'LINEAR output');
 
-	// No change.
-	t.deepEquals(samplerC.getInput().getArray(), inputArray, 'CUBICSPLINE input (unchanged)');
-	t.deepEquals(samplerC.getOutput().getArray(), outputSplineArray, 'CUBICSPLINE output (unchanged)');
+	// Merge keyframes on a single cubic segment.
+	t.deepEquals(samplerC.getInput().getArray(), new Uint8Array([0, 2, 3, 4, 5, 6]), 'CUBICSPLINE input');
+	t.deepEquals(
+		samplerC.getOutput().getArray(),
+		new Uint8Array([
+			0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 0, 0, 1, 2, 0, 0, 0, 0, 1, 3, 0, 0, 0, 0, 1, 4, 0, 0, 0, 0, 1, 5, 0, 0,
+		]),
+		'CUBICSPLINE output'
+	);
+	t.end();
+});
+
+test('@gltf-transform/functions::resample | morph targets', async (t) => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+
+	const inputArray = new Float32Array([0, 1, 2, 3, 4]);
+	const outputArray = new Float32Array([0, 1, 0.5, 1, 1, 1, 1, 0.5, 1, 0]);
+
+	const input = doc.createAccessor('input').setType(Accessor.Type.SCALAR).setArray(inputArray);
+	const output = doc.createAccessor('output').setType(Accessor.Type.SCALAR).setArray(outputArray);
+
+	const samplerA = doc.createAnimationSampler().setInterpolation('LINEAR').setInput(input).setOutput(output);
+	const samplerB = samplerA.clone().setInterpolation('STEP');
+	const node = doc.createNode().setMesh(doc.createMesh().setWeights([0, 0]));
+	const channelA = doc.createAnimationChannel().setTargetNode(node).setTargetPath('weights').setSampler(samplerA);
+	const channelB = doc.createAnimationChannel().setTargetNode(node).setTargetPath('weights').setSampler(samplerB);
+
+	doc.createAnimation().addSampler(samplerA).addSampler(samplerB).addChannel(channelA).addChannel(channelB);
+
+	await doc.transform(resample());
+
+	t.deepEquals(samplerA.getInput().getArray(), new Float32Array([0, 2, 4]), 'LINEAR input');
+	t.deepEquals(samplerA.getOutput().getArray(), new Float32Array([0, 1, 1, 1, 1, 0]), 'LINEAR output');
+	t.deepEquals(samplerB.getInput().getArray(), inputArray, 'STEP input (unchanged)');
+	t.deepEquals(samplerB.getOutput().getArray(), outputArray, 'STEP output (unchanged)');
+	t.end();
+});
+
+test('@gltf-transform/functions::resample | cubic spline', async (t) => {
+	const doc = new Document().setLogger(new Logger(Logger.Verbosity.SILENT));
+
+	// Keyframes of f(t) = t^3, with tangents f'(t) = 3t^2, as [inTangent, value, outTangent].
+	const inputArray = new Float32Array([0, 1, 2, 3, 4]);
+	const outputArray = new Float32Array([0, 0, 0, 3, 1, 3, 12, 8, 12, 27, 27, 27, 48, 64, 48]);
+	const outputKinkArray = outputArray.slice();
+	outputKinkArray[8] = 0; // Discontinuous out-tangent at t=2.
+
+	const input = doc.createAccessor('input').setType(Accessor.Type.SCALAR).setArray(inputArray);
+	const output = doc.createAccessor('output').setType(Accessor.Type.SCALAR).setArray(outputArray);
+	const outputKink = doc.createAccessor('outputKink').setType(Accessor.Type.SCALAR).setArray(outputKinkArray);
+
+	const samplerA = doc.createAnimationSampler().setInterpolation('CUBICSPLINE').setInput(input).setOutput(output);
+	const samplerB = samplerA.clone().setOutput(outputKink);
+
+	doc.createAnimation().addSampler(samplerA).addSampler(samplerB);
+
+	await doc.transform(resample());
+
+	t.deepEquals(samplerA.getInput().getArray(), new Float32Array([0, 4]), 'smooth input');
+	t.deepEquals(samplerA.getOutput().getArray(), new Float32Array([0, 0, 0, 48, 64, 48]), 'smooth output');
+	t.deepEquals(samplerB.getInput().getArray(), new Float32Array([0, 2, 3, 4]), 'discontinuous input');
+	t.deepEquals(
+		samplerB.getOutput().getArray(),
+		new Float32Array([0, 0, 0, 12, 8, 0, 27, 27, 27, 48, 64, 48]),
+		'discontinuous output'
+	);
 	t.end();
 });
@@ -0,0 +1,66 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger } from '@gltf-transform/core';
+import { MaterialsVariants } from '@gltf-transform/extensions';
+import { selectVariant } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::selectVariant', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const variantsExtension = doc.createExtension(MaterialsVariants);
+	const red = variantsExtension.createVariant('Red');
+	const blue = variantsExtension.createVariant('Blue');
+
+	const defaultMaterial = doc.createMaterial('Default');
+	const redMaterial = doc.createMaterial('Red');
+	const blueMaterial = doc.createMaterial('Blue').setBaseColorTexture(doc.createTexture('Blue'));
+
+	const primA = doc.createPrimitive().setMaterial(defaultMaterial);
+	const primB = doc.createPrimitive().setMaterial(defaultMaterial);
+	primA.setExtension(
+		'KHR_materials_variants',
+		variantsExtension
+			.createMappingList()
+			.addMapping(variantsExtension.createMapping().addVariant(red).setMaterial(redMaterial))
+			.addMapping(variantsExtension.createMapping().addVariant(blue).setMaterial(blueMaterial))
+	);
+	primB.setExtension(
+		'KHR_materials_variants',
+		variantsExtension
+			.createMappingList()
+			.addMapping(variantsExtension.createMapping().addVariant(blue).setMaterial(blueMaterial))
+	);
+	doc.createMesh().addPrimitive(primA).addPrimitive(primB);
+
+	await doc.transform(selectVariant({ variant: 'Red' }));
+
+	t.equals(primA.getMaterial(), redMaterial, 'assigns variant material');
+	t.equals(primB.getMaterial(), defaultMaterial, 'keeps default material without mapping');
+	t.equals(primA.getExtension('KHR_materials_variants'), null, 'removes mappings');
+	t.deepEquals(doc.getRoot().listExtensionsUsed(), [], 'removes extension');
+	t.deepEquals(
+		doc
+			.getRoot()
+			.listMaterials()
+			.map((material) => material.getName()),
+		['Default', 'Red'],
+		'prunes materials'
+	);
+	t.equals(doc.getRoot().listTextures().length, 0, 'prunes textures');
+	t.end();
+});
+
+test('@gltf-transform/functions::selectVariant | not found', async (t) => {
+	const doc = new Document().setLogger(logger);
+	doc.createExtension(MaterialsVariants).createVariant('Red');
+
+	try {
+		await doc.transform(selectVariant({ variant: 'Green' }));
+		t.fail('expected error');
+	} catch (e) {
+		t.match((e as Error).message, /Variant "Green" not found/, 'throws for unknown variant');
+	}
+	t.end();
+});
@@ -0,0 +1,130 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Accessor, Document, Logger, Primitive } from '@gltf-transform/core';
+import { simplify } from '../';
+import { MeshoptSimplifier } from 'meshoptimizer';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::simplify', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createGrid(doc, 16);
+	const srcVertexCount = prim.getAttribute('POSITION').getCount();
+	const srcTriangleCount = prim.getIndices().getCount() / 3;
+
+	await doc.transform(simplify({ simplifier: MeshoptSimplifier, ratio: 0.5, error: 1 }));
+
+	const dstVertexCount = prim.getAttribute('POSITION').getCount();
+	const dstTriangleCount = prim.getIndices().getCount() / 3;
+
+	t.ok(dstTriangleCount <= srcTriangleCount / 2, `triangles ${srcTriangleCount} → ${dstTriangleCount}`);
+	t.ok(dstVertexCount < srcVertexCount, `vertices ${srcVertexCount} → ${dstVertexCount}`);
+	t.equals(prim.getAttribute('TEXCOORD_0').getCount(), dstVertexCount, 'texcoords retained');
+	t.equals(prim.getAttribute('NORMAL').getCount(), dstVertexCount, 'normals retained');
+	t.equals(prim.getAttribute('JOINTS_0').getCount(), dstVertexCount, 'joints retained');
+	t.equals(prim.getAttribute('WEIGHTS_0').getCount(), dstVertexCount, 'weights retained');
+	t.equals(prim.getIndices().getComponentType(), Accessor.ComponentType.UNSIGNED_SHORT, 'uint16 indices');
+	t.equals(doc.getRoot().listAccessors().length, 6, 'prunes unused accessors');
+
+	// Each remaining vertex should retain attributes consistent with its position.
+	const position = prim.getAttribute('POSITION');
+	const texcoord = prim.getAttribute('TEXCOORD_0');
+	const weights = prim.getAttribute('WEIGHTS_0');
+	let consistent = true;
+	for (let i = 0; i < dstVertexCount; i++) {
+		const [x, , z] = position.getElement(i, []);
+		const [u, v] = texcoord.getElement(i, []);
+		const [w] = weights.getElement(i, []);
+		if (x !== u || z !== v || w !== x) consistent = false;
+	}
+	t.ok(consistent, 'vertex attributes remapped');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | error', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createGrid(doc, 16);
+
+	// A planar grid can be simplified without error, bounded only by the ratio.
+	await doc.transform(simplify({ simplifier: MeshoptSimplifier, ratio: 0, error: 0.0001 }));
+
+	t.equals(prim.getIndices().getCount() / 3, 2, 'planar grid simplified to two triangles');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | lockBorder', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createGrid(doc, 16);
+
+	await doc.transform(simplify({ simplifier: MeshoptSimplifier, ratio: 0, error: 1, lockBorder: true }));
+
+	// Vertices on the grid border (4 * 16 = 64) must be preserved.
+	t.ok(prim.getAttribute('POSITION').getCount() >= 64, 'border vertices locked');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | unsupported modes', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const prim = createGrid(doc, 4).setMode(Primitive.Mode.POINTS);
+	const position = prim.getAttribute('POSITION');
+
+	await doc.transform(simplify({ simplifier: MeshoptSimplifier, ratio: 0, error: 1 }));
+
+	t.equals(prim.getAttribute('POSITION'), position, 'skips points');
+	t.end();
+});
+
+test('@gltf-transform/functions::simplify | missing dependency', async (t) => {
+	t.throws(() => simplify({ simplifier: null }), /dependency required/, 'throws');
+	t.end();
+});
+
+/* UTILITIES */
+
+/** Creates a planar, unit-sized grid of (size + 1)² vertices on the XZ plane. */
+function createGrid(doc: Document, size: number): Primitive {
+	const positionArray: number[] = [];
+	const normalArray: number[] = [];
+	const texcoordArray: number[] = [];
+	const jointsArray: number[] = [];
+	const weightsArray: number[] = [];
+	const indicesArray: number[] = [];
+
+	for (let i = 0; i <= size; i++) {
+		for (let j = 0; j <= size; j++) {
+			positionArray.push(i / size, 0, j / size);
+			normalArray.push(0, 1, 0);
+			texcoordArray.push(i / size, j / size);
+			jointsArray.push(0, 1, 0, 0);
+			weightsArray.push(i / size, 1 - i / size, 0, 0);
+		}
+	}
+
+	for (let i = 0; i < size; i++) {
+		for (let j = 0; j < size; j++) {
+			const a = i * (size + 1) + j;
+			const b = a + 1;
+			const c = a + size + 1;
+			const d = c + 1;
+			indicesArray.push(a, b, c, c, b, d);
+		}
+	}
+
+	const position = doc.createAccessor().setType('VEC3').setArray(new Float32Array(positionArray));
+	const normal = doc.createAccessor().setType('VEC3').setArray(new Float32Array(normalArray));
+	const texcoord = doc.createAccessor().setType('VEC2').setArray(new Float32Array(texcoordArray));
+	const joints = doc.createAccessor().setType('VEC4').setArray(new Uint8Array(jointsArray));
+	const weights = doc.createAccessor().setType('VEC4').setArray(new Float32Array(weightsArray));
+	const indices = doc.createAccessor().setType('SCALAR').setArray(new Uint32Array(indicesArray));
+	const prim = doc
+		.createPrimitive()
+		.setIndices(indices)
+		.setAttribute('POSITION', position)
+		.setAttribute('NORMAL', normal)
+		.setAttribute('TEXCOORD_0', texcoord)
+		.setAttribute('JOINTS_0', joints)
+		.setAttribute('WEIGHTS_0', weights);
+	doc.createMesh().addPrimitive(prim);
+	return prim;
+}
@@ -0,0 +1,69 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import { Document, Logger } from '@gltf-transform/core';
+import { sparse } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::sparse', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const denseArray = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+	const sparseArray = [0, 0, 0, 0, 25, 0, 0, 0, 0, 0];
+	const dense = doc.createAccessor().setArray(new Float32Array(denseArray));
+	const sparseAccessor = doc.createAccessor().setArray(new Float32Array(sparseArray));
+
+	await doc.transform(sparse());
+
+	t.equals(dense.getSparse(), false, 'dense accessor unchanged');
+	t.equals(sparseAccessor.getSparse(), true, 'sparse accessor detected');
+	t.deepEquals(Array.from(sparseAccessor.getArray()), sparseArray, 'sparse data unchanged');
+
+	await doc.transform(sparse({ ratio: 0.05 }));
+
+	t.equals(dense.getSparse(), false, 'dense accessor unchanged');
+	t.equals(sparseAccessor.getSparse(), false, 'sparse accessor restored, ratio=0.05');
+	t.end();
+});
+
+test('@gltf-transform/functions::sparse | morph targets', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const position = doc.createAccessor().setType('VEC3').setArray(new Float32Array(30).fill(1));
+	const targetPosition = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array(30).fill(0).fill(0.5, 3, 6));
+	const target = doc.createPrimitiveTarget().setAttribute('POSITION', targetPosition);
+	const prim = doc.createPrimitive().setAttribute('POSITION', position).addTarget(target);
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(sparse());
+
+	t.equals(position.getSparse(), false, 'base position dense');
+	t.equals(targetPosition.getSparse(), true, 'target position sparse');
+	t.end();
+});
+
+test('@gltf-transform/functions::sparse | base accessors', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const targetArrayB = new Float32Array(30).fill(0.5);
+	const targetArrayA = targetArrayB.slice().fill(1, 0, 3);
+	const position = doc.createAccessor().setType('VEC3').setArray(new Float32Array(30).fill(1));
+	const targetPositionA = doc.createAccessor().setType('VEC3').setArray(targetArrayA);
+	const targetPositionB = doc.createAccessor().setType('VEC3').setArray(targetArrayB);
+	const prim = doc
+		.createPrimitive()
+		.setAttribute('POSITION', position)
+		.addTarget(doc.createPrimitiveTarget().setAttribute('POSITION', targetPositionA))
+		.addTarget(doc.createPrimitiveTarget().setAttribute('POSITION', targetPositionB));
+	doc.createMesh().addPrimitive(prim);
+
+	await doc.transform(sparse());
+
+	t.equals(position.getSparse(), false, 'base position dense');
+	t.equals(targetPositionA.getSparse(), true, 'target A sparse');
+	t.equals(targetPositionA.getSparseBase(), targetPositionB, 'target A stored against target B');
+	t.equals(targetPositionB.getSparse(), false, 'target B dense, used as base');
+	t.deepEquals(Array.from(targetPositionA.getArray()), Array.from(targetArrayA), 'target A data unchanged');
+	t.end();
+});
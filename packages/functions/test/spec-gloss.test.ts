@@ -0,0 +1,93 @@
+require('source-map-support').install();
+
+import ndarray from 'ndarray';
+import { getPixels, savePixels } from 'ndarray-pixels';
+import test from 'tape';
+import { Document, Logger } from '@gltf-transform/core';
+import { MaterialsUnlit } from '@gltf-transform/extensions';
+import type { PBRSpecularGlossiness } from '@gltf-transform/extensions';
+import { specGloss } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+// Metallic orange (left), and dielectric orange with full roughness (right).
+const BASE_COLOR = ndarray(new Uint8Array([255, 128, 0, 255, 255, 128, 0, 128]), [2, 1, 4]);
+const METAL_ROUGH = ndarray(new Uint8Array([0, 64, 255, 255, 0, 255, 0, 255]), [2, 1, 4]);
+
+test('@gltf-transform/functions::specGloss | factors', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const metal = doc.createMaterial().setBaseColorFactor([1, 0.5, 0, 1]).setMetallicFactor(1).setRoughnessFactor(0.25);
+	const dielectric = doc.createMaterial().setBaseColorFactor([1, 0.5, 0, 0.5]).setMetallicFactor(0);
+	const unlitExtension = doc.createExtension(MaterialsUnlit);
+	const unlit = doc.createMaterial().setExtension('KHR_materials_unlit', unlitExtension.createUnlit());
+
+	await doc.transform(specGloss());
+
+	const metalSG = metal.getExtension<PBRSpecularGlossiness>('KHR_materials_pbrSpecularGlossiness');
+	const dielectricSG = dielectric.getExtension<PBRSpecularGlossiness>('KHR_materials_pbrSpecularGlossiness');
+
+	t.deepEquals(metalSG.getDiffuseFactor(), [0, 0, 0, 1], 'metal diffuse');
+	t.deepEquals(metalSG.getSpecularFactor(), [1, 0.5, 0], 'metal specular');
+	t.equals(metalSG.getGlossinessFactor(), 0.75, 'metal glossiness');
+	t.deepEquals(round(dielectricSG.getDiffuseFactor()), [0.96, 0.48, 0, 0.5], 'dielectric diffuse');
+	t.deepEquals(round(dielectricSG.getSpecularFactor()), [0.04, 0.04, 0.04], 'dielectric specular');
+	t.equals(dielectricSG.getGlossinessFactor(), 0, 'dielectric glossiness');
+	t.equals(unlit.getExtension('KHR_materials_pbrSpecularGlossiness'), null, 'skips unlit');
+	t.equals(metal.getMetallicFactor(), 1, 'keeps metal/rough fallback');
+	t.equals(doc.getRoot().listTextures().length, 0, 'no textures');
+	t.end();
+});
+
+test('@gltf-transform/functions::specGloss | textures', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const baseColorTexture = doc
+		.createTexture()
+		.setImage(await savePixels(BASE_COLOR, 'image/png'))
+		.setMimeType('image/png');
+	const metalRoughTexture = doc
+		.createTexture()
+		.setImage(await savePixels(METAL_ROUGH, 'image/png'))
+		.setMimeType('image/png');
+	const material = doc
+		.createMaterial('Mat')
+		.setBaseColorTexture(baseColorTexture)
+		.setMetallicRoughnessTexture(metalRoughTexture);
+
+	await doc.transform(specGloss());
+
+	const sg = material.getExtension<PBRSpecularGlossiness>('KHR_materials_pbrSpecularGlossiness');
+	const diffuse = await getPixels(sg.getDiffuseTexture().getImage(), 'image/png');
+	const specGlossPixels = await getPixels(sg.getSpecularGlossinessTexture().getImage(), 'image/png');
+
+	t.equals(sg.getDiffuseTexture().getName(), 'Mat_diffuse', 'diffuse texture name');
+	t.deepEquals(readPixel(diffuse, 0), [0, 0, 0, 255], 'metal diffuse');
+	t.deepEquals(readPixel(specGlossPixels, 0), [255, 128, 0, 191], 'metal specular/glossiness');
+	t.deepEquals(readPixel(diffuse, 1), [250, 126, 0, 128], 'dielectric diffuse');
+	t.deepEquals(readPixel(specGlossPixels, 1), [56, 56, 56, 0], 'dielectric specular/glossiness');
+	t.deepEquals(sg.getSpecularFactor(), [1, 1, 1], 'specular factor');
+	t.equals(sg.getGlossinessFactor(), 1, 'glossiness factor');
+	t.equals(material.getBaseColorTexture(), baseColorTexture, 'keeps metal/rough fallback');
+	t.end();
+});
+
+test('@gltf-transform/functions::specGloss | unsupported textures', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const metalRoughTexture = doc.createTexture().setImage(new Uint8Array(8)).setMimeType('image/ktx2');
+	const material = doc.createMaterial('Mat').setMetallicRoughnessTexture(metalRoughTexture);
+	const other = doc.createMaterial('Other').setMetallicFactor(0);
+
+	await doc.transform(specGloss());
+
+	t.equals(material.getExtension('KHR_materials_pbrSpecularGlossiness'), null, 'skips unsupported texture');
+	t.ok(other.getExtension('KHR_materials_pbrSpecularGlossiness'), 'converts other materials');
+	t.equals(doc.getRoot().listTextures().length, 1, 'no textures created');
+	t.end();
+});
+
+function readPixel(pixels: ndarray.NdArray, i: number): number[] {
+	return [0, 1, 2, 3].map((k) => pixels.get(i, 0, k));
+}
+
+function round(values: number[]): number[] {
+	return values.map((v) => Math.round(v * 1e6) / 1e6);
+}
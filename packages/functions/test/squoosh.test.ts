@@ -2,7 +2,7 @@ require('source-map-support').install();
 
 import test from 'tape';
 import { Document, Logger } from '@gltf-transform/core';
-import { mozjpeg, oxipng, webp } from '../';
+import { avif, mozjpeg, oxipng, webp } from '../';
 import type * as SquooshLib from '@squoosh/lib';
 
 const ORIGINAL_JPEG = new Uint8Array([101]);
@@ -12,17 +12,18 @@ const ORIGINAL_OTHER = new Uint8Array([103]);
 const EXPECTED_JPEG = new Uint8Array([201]);
 const EXPECTED_PNG = new Uint8Array([202]);
 const EXPECTED_WEBP = new Uint8Array([203]);
+const EXPECTED_AVIF = new Uint8Array([204]);
 
 const LOGGER = new Logger(Logger.Verbosity.SILENT);
 
-let encodeCalls = { mozjpeg: 0, oxipng: 0, webp: 0 };
+let encodeCalls = { avif: 0, mozjpeg: 0, oxipng: 0, webp: 0 };
 
 test('@gltf-transform/functions::squoosh | unknown format', async (t) => {
 	const squoosh = createMockSquoosh();
 	const document = new Document().setLogger(LOGGER);
 	const texture = document.createTexture('Other').setImage(ORIGINAL_OTHER).setMimeType('image/other');
 	await document.transform(mozjpeg({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 0, oxipng: 0, webp: 0 }, '0 encode calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 0, oxipng: 0, webp: 0 }, '0 encode calls');
 	t.equals(texture.getMimeType(), 'image/other', 'unknown mime type unchanged');
 	t.equals(texture.getImage(), ORIGINAL_OTHER, 'unknown image unchanged');
 	t.end();
@@ -35,12 +36,12 @@ test('@gltf-transform/functions::squoosh | incompatible format', async (t) => {
 	document.createMaterial().setBaseColorTexture(texture).setAlphaMode('BLEND');
 
 	await document.transform(mozjpeg({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 0, oxipng: 0, webp: 0 }, '0 mozjpeg calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 0, oxipng: 0, webp: 0 }, '0 mozjpeg calls');
 	t.equals(texture.getMimeType(), 'image/png', 'texture with alpha unchanged');
 	t.equals(texture.getImage(), ORIGINAL_PNG, 'texture with alpha unchanged');
 
 	await document.transform(oxipng({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 0, oxipng: 1, webp: 0 }, '1 oxipng calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 0, oxipng: 1, webp: 0 }, '1 oxipng calls');
 	t.equals(texture.getMimeType(), 'image/png', 'texture with alpha optimized');
 	t.equals(texture.getImage(), EXPECTED_PNG, 'texture with alpha optimized');
 	t.end();
@@ -53,14 +54,14 @@ test('@gltf-transform/functions::squoosh | excluded formats', async (t) => {
 	const texturePNG = document.createTexture('PNG').setImage(ORIGINAL_PNG).setMimeType('image/png');
 
 	await document.transform(mozjpeg({ squoosh }));
-	t.deepEquals(encodeCalls, { mozjpeg: 1, oxipng: 0, webp: 0 }, '1 mozjpeg call');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 1, oxipng: 0, webp: 0 }, '1 mozjpeg call');
 	t.equals(textureJPEG.getMimeType(), 'image/jpeg', 'jpeg mime type unchanged');
 	t.equals(texturePNG.getMimeType(), 'image/png', 'png mime type unchanged');
 	t.equals(textureJPEG.getImage(), EXPECTED_JPEG, 'jpeg optimized');
 	t.equals(texturePNG.getImage(), ORIGINAL_PNG, 'png unchanged');
 
 	await document.transform(oxipng({ squoosh }));
-	t.deepEquals(encodeCalls, { mozjpeg: 1, oxipng: 1, webp: 0 }, '1 mozjpeg call, 1 oxipng call');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 1, oxipng: 1, webp: 0 }, '1 mozjpeg call, 1 oxipng call');
 	t.equals(textureJPEG.getMimeType(), 'image/jpeg', 'jpeg mime type unchanged');
 	t.equals(texturePNG.getMimeType(), 'image/png', 'png mime type unchanged');
 	t.equals(textureJPEG.getImage(), EXPECTED_JPEG, 'jpeg unchanged');
@@ -76,14 +77,14 @@ test('@gltf-transform/functions::squoosh | excluded slots', async (t) => {
 	document.createMaterial().setBaseColorTexture(textureJPEG).setNormalTexture(texturePNG);
 
 	await document.transform(mozjpeg({ squoosh, slots: /^baseColor.*/, formats: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 1, oxipng: 0, webp: 0 }, '1 mozjpeg call');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 1, oxipng: 0, webp: 0 }, '1 mozjpeg call');
 	t.equals(textureJPEG.getMimeType(), 'image/jpeg', 'jpeg mime type unchanged');
 	t.equals(texturePNG.getMimeType(), 'image/png', 'png mime type unchanged');
 	t.equals(textureJPEG.getImage(), EXPECTED_JPEG, 'jpeg optimized');
 	t.equals(texturePNG.getImage(), ORIGINAL_PNG, 'png unchanged');
 
 	await document.transform(oxipng({ squoosh, slots: /^normal.*/, formats: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 1, oxipng: 1, webp: 0 }, '1 mozjpeg call, 1 oxipng call');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 1, oxipng: 1, webp: 0 }, '1 mozjpeg call, 1 oxipng call');
 	t.equals(textureJPEG.getMimeType(), 'image/jpeg', 'jpeg mime type unchanged');
 	t.equals(texturePNG.getMimeType(), 'image/png', 'png mime type unchanged');
 	t.equals(textureJPEG.getImage(), EXPECTED_JPEG, 'jpeg unchanged');
@@ -97,7 +98,7 @@ test('@gltf-transform/functions::squoosh | mozjpeg', async (t) => {
 	const textureJPEG = document.createTexture('JPEG').setImage(ORIGINAL_JPEG).setMimeType('image/jpeg');
 	const texturePNG = document.createTexture('PNG').setImage(ORIGINAL_PNG).setMimeType('image/png');
 	await document.transform(mozjpeg({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 2, oxipng: 0, webp: 0 }, '2 mozjpeg calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 2, oxipng: 0, webp: 0 }, '2 mozjpeg calls');
 	t.equals(textureJPEG.getMimeType(), 'image/jpeg', 'jpeg → image/jpeg');
 	t.equals(texturePNG.getMimeType(), 'image/jpeg', 'png → image/jpeg');
 	t.equals(textureJPEG.getImage(), EXPECTED_JPEG, 'jpeg optimized');
@@ -111,7 +112,7 @@ test('@gltf-transform/functions::squoosh | oxipng', async (t) => {
 	const textureJPEG = document.createTexture('JPEG').setImage(ORIGINAL_JPEG).setMimeType('image/jpeg');
 	const texturePNG = document.createTexture('PNG').setImage(ORIGINAL_PNG).setMimeType('image/png');
 	await document.transform(oxipng({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 0, oxipng: 2, webp: 0 }, '2 oxipng calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 0, oxipng: 2, webp: 0 }, '2 oxipng calls');
 	t.equals(textureJPEG.getMimeType(), 'image/png', 'jpeg → image/png');
 	t.equals(texturePNG.getMimeType(), 'image/png', 'png → image/png');
 	t.equals(textureJPEG.getImage(), EXPECTED_PNG, 'jpeg optimized');
@@ -125,7 +126,7 @@ test('@gltf-transform/functions::squoosh | webp', async (t) => {
 	const textureJPEG = document.createTexture('JPEG').setImage(ORIGINAL_JPEG).setMimeType('image/jpeg');
 	const texturePNG = document.createTexture('PNG').setImage(ORIGINAL_PNG).setMimeType('image/png');
 	await document.transform(webp({ squoosh, formats: /.*/i, slots: /.*/i }));
-	t.deepEquals(encodeCalls, { mozjpeg: 0, oxipng: 0, webp: 2 }, '2 webp calls');
+	t.deepEquals(encodeCalls, { avif: 0, mozjpeg: 0, oxipng: 0, webp: 2 }, '2 webp calls');
 	t.equals(textureJPEG.getMimeType(), 'image/webp', 'jpeg → image/webp');
 	t.equals(texturePNG.getMimeType(), 'image/webp', 'png → image/webp');
 	t.equals(textureJPEG.getImage(), EXPECTED_WEBP, 'jpeg optimized');
@@ -133,6 +134,28 @@ test('@gltf-transform/functions::squoosh | webp', async (t) => {
 	t.end();
 });
 
+test('@gltf-transform/functions::squoosh | avif', async (t) => {
+	const squoosh = createMockSquoosh();
+	const document = new Document().setLogger(LOGGER);
+	const textureJPEG = document.createTexture('JPEG').setImage(ORIGINAL_JPEG).setMimeType('image/jpeg');
+	const texturePNG = document.createTexture('PNG').setImage(ORIGINAL_PNG).setMimeType('image/png');
+	await document.transform(avif({ squoosh, formats: /.*/i, slots: /.*/i }));
+	t.deepEquals(encodeCalls, { avif: 2, mozjpeg: 0, oxipng: 0, webp: 0 }, '2 avif calls');
+	t.equals(textureJPEG.getMimeType(), 'image/avif', 'jpeg → image/avif');
+	t.equals(texturePNG.getMimeType(), 'image/avif', 'png → image/avif');
+	t.equals(textureJPEG.getImage(), EXPECTED_AVIF, 'jpeg optimized');
+	t.equals(texturePNG.getImage(), EXPECTED_AVIF, 'png optimized');
+	t.deepEquals(
+		document
+			.getRoot()
+			.listExtensionsUsed()
+			.map((ext) => ext.extensionName),
+		['EXT_texture_avif'],
+		'adds EXT_texture_avif'
+	);
+	t.end();
+});
+
 function createMockSquoosh() {
 	class MockImagePool {
 		ingestImage(image: Uint8Array) {
@@ -148,6 +171,7 @@ function createMockSquoosh() {
 		_preprocessSettings: unknown;
 		_encodeSettings: unknown;
 		encodedWith: Record<string, Promise<SquooshLib.EncodedImage>> = {
+			avif: Promise.resolve({ binary: EXPECTED_AVIF, optionsUsed: {} }),
 			mozjpeg: Promise.resolve({ binary: EXPECTED_JPEG, optionsUsed: {} }),
 			oxipng: Promise.resolve({ binary: EXPECTED_PNG, optionsUsed: {} }),
 			webp: Promise.resolve({ binary: EXPECTED_WEBP, optionsUsed: {} }),
@@ -161,6 +185,7 @@ function createMockSquoosh() {
 		}
 		encode(settings: Record<string, unknown>) {
 			this._encodeSettings = settings;
+			if (settings.avif) encodeCalls.avif++;
 			if (settings.mozjpeg) encodeCalls.mozjpeg++;
 			if (settings.oxipng) encodeCalls.oxipng++;
 			if (settings.webp) encodeCalls.webp++;
@@ -168,7 +193,7 @@ function createMockSquoosh() {
 		}
 	}
 
-	encodeCalls = { mozjpeg: 0, oxipng: 0, webp: 0 };
+	encodeCalls = { avif: 0, mozjpeg: 0, oxipng: 0, webp: 0 };
 
 	return { ImagePool: MockImagePool };
 }
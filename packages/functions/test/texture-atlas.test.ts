@@ -0,0 +1,123 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import ndarray from 'ndarray';
+import { getPixels, savePixels } from 'ndarray-pixels';
+import { Document, Logger, Material, Primitive, TextureInfo } from '@gltf-transform/core';
+import type { Transform as TextureTransform } from '@gltf-transform/extensions';
+import { textureAtlas } from '../';
+
+const logger = new Logger(Logger.Verbosity.SILENT);
+
+test('@gltf-transform/functions::textureAtlas', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const materialA = doc.createMaterial('A').setBaseColorTexture(await createTexture(doc, 'A', [255, 0, 0, 255]));
+	const materialB = doc.createMaterial('B').setBaseColorTexture(await createTexture(doc, 'B', [0, 0, 255, 255]));
+	const primA = createQuad(doc, materialA);
+	const primB = createQuad(doc, materialB);
+
+	await doc.transform(textureAtlas({ padding: 2 }));
+
+	const textures = doc.getRoot().listTextures();
+	t.equals(textures.length, 1, 'packs textures into one atlas');
+	t.equals(materialA.getBaseColorTexture(), textures[0], 'material A uses atlas');
+	t.equals(materialB.getBaseColorTexture(), textures[0], 'material B uses atlas');
+	t.deepEquals(textures[0].getSize(), [16, 8], 'atlas size');
+	t.equals(materialA.getBaseColorTextureInfo().getWrapS(), TextureInfo.WrapMode.CLAMP_TO_EDGE, 'wrapS');
+	t.equals(materialA.getBaseColorTextureInfo().getWrapT(), TextureInfo.WrapMode.CLAMP_TO_EDGE, 'wrapT');
+	t.equals(doc.getRoot().listExtensionsUsed().length, 0, 'no KHR_texture_transform');
+
+	// Each material's texcoords should sample its own region of the atlas.
+	const pixels = await getPixels(textures[0].getImage(), 'image/png');
+	t.deepEquals(sampleAtlas(pixels, primA, 0.5, 0.5), [255, 0, 0, 255], 'material A samples red');
+	t.deepEquals(sampleAtlas(pixels, primB, 0.5, 0.5), [0, 0, 255, 255], 'material B samples blue');
+	t.deepEquals(sampleAtlas(pixels, primA, 0, 0), [255, 0, 0, 255], 'material A samples red at edge');
+	t.deepEquals(sampleAtlas(pixels, primB, 1, 1), [0, 0, 255, 255], 'material B samples blue at edge');
+	t.end();
+});
+
+test('@gltf-transform/functions::textureAtlas | texture transform', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const emissive = await createTexture(doc, 'E', [255, 255, 255, 255]);
+	const materialA = doc
+		.createMaterial('A')
+		.setBaseColorTexture(await createTexture(doc, 'A', [255, 0, 0, 255]))
+		.setEmissiveTexture(emissive);
+	doc.createMaterial('B').setBaseColorTexture(await createTexture(doc, 'B', [0, 0, 255, 255]));
+	const primA = createQuad(doc, materialA);
+	const texcoordA = primA.getAttribute('TEXCOORD_0');
+
+	await doc.transform(textureAtlas({ slots: /^baseColor/ }));
+
+	const transform = materialA.getBaseColorTextureInfo().getExtension<TextureTransform>('KHR_texture_transform');
+	t.equals(primA.getAttribute('TEXCOORD_0'), texcoordA, 'shared texcoords unchanged');
+	t.ok(transform, 'adds KHR_texture_transform');
+	t.deepEquals(transform.getScale(), [0.25, 0.5], 'transform scale');
+	t.equals(materialA.getEmissiveTexture(), emissive, 'emissive texture unchanged');
+	t.end();
+});
+
+test('@gltf-transform/functions::textureAtlas | skip', async (t) => {
+	const doc = new Document().setLogger(logger);
+	const textureA = await createTexture(doc, 'A', [255, 0, 0, 255]);
+	const textureB = await createTexture(doc, 'B', [0, 0, 255, 255]);
+	const textureC = await createTexture(doc, 'C', [0, 255, 0, 255]);
+	const materialA = doc.createMaterial('A').setBaseColorTexture(textureA);
+	const materialB = doc.createMaterial('B').setBaseColorTexture(textureB);
+	const materialC = doc.createMaterial('C').setOcclusionTexture(textureC);
+	createQuad(doc, materialA);
+	createQuad(doc, materialB, 2);
+	createQuad(doc, materialC);
+
+	await doc.transform(textureAtlas());
+
+	t.equals(materialA.getBaseColorTexture(), textureA, 'skips single texture in slot');
+	t.equals(materialB.getBaseColorTexture(), textureB, 'skips repeating texcoords');
+	t.equals(materialC.getOcclusionTexture(), textureC, 'skips single texture in other slot');
+	t.equals(doc.getRoot().listTextures().length, 3, 'no atlas');
+	t.end();
+});
+
+/* UTILITIES */
+
+/** Creates a 4x4 PNG texture, filled with the given color. */
+async function createTexture(doc: Document, name: string, color: number[]) {
+	const pixels = ndarray(new Uint8Array(4 * 4 * 4), [4, 4, 4]);
+	for (let i = 0; i < 4; i++) {
+		for (let j = 0; j < 4; j++) {
+			for (let k = 0; k < 4; k++) pixels.set(i, j, k, color[k]);
+		}
+	}
+	const image = await savePixels(pixels, 'image/png');
+	return doc.createTexture(name).setMimeType('image/png').setImage(image);
+}
+
+/** Creates a quad with texture coordinates in the [0, uvScale] range. */
+function createQuad(doc: Document, material: Material, uvScale = 1): Primitive {
+	const position = doc
+		.createAccessor()
+		.setType('VEC3')
+		.setArray(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]));
+	const texcoord = doc
+		.createAccessor()
+		.setType('VEC2')
+		.setArray(new Float32Array([0, 0, 1, 0, 0, 1, 1, 1].map((v) => v * uvScale)));
+	const prim = doc
+		.createPrimitive()
+		.setMaterial(material)
+		.setAttribute('POSITION', position)
+		.setAttribute('TEXCOORD_0', texcoord);
+	doc.createMesh().addPrimitive(prim);
+	return prim;
+}
+
+/** Samples the atlas at the given UV coordinates of the primitive's quad, with nearest filtering. */
+function sampleAtlas(pixels: ndarray.NdArray, prim: Primitive, u: number, v: number): number[] {
+	const texcoord = prim.getAttribute('TEXCOORD_0');
+	const [u0, v0] = texcoord.getElement(0, []);
+	const [u1, v1] = texcoord.getElement(3, []);
+	const [width, height] = pixels.shape;
+	const x = Math.min(Math.floor((u0 + (u1 - u0) * u) * width), width - 1);
+	const y = Math.min(Math.floor((v0 + (v1 - v0) * v) * height), height - 1);
+	return [0, 1, 2, 3].map((k) => pixels.get(x, y, k));
+}
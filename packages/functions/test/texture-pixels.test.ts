@@ -0,0 +1,76 @@
+require('source-map-support').install();
+
+import test from 'tape';
+import ndarray from 'ndarray';
+import { Document, ImageUtils, ImageUtilsCodec, Pixels } from '@gltf-transform/core';
+import { getTexturePixels, setTexturePixels } from '../';
+
+test('@gltf-transform/functions::texturePixels', async (t) => {
+	const doc = new Document();
+	const texture = doc.createTexture().setMimeType('image/jpeg');
+	const pixels = ndarray(new Uint8Array(4 * 2 * 4), [4, 2, 4]);
+	for (let i = 0; i < 4; i++) {
+		for (let j = 0; j < 2; j++) {
+			pixels.set(i, j, 0, 255);
+			pixels.set(i, j, 3, 255);
+		}
+	}
+
+	await setTexturePixels(texture, pixels, 'image/png');
+
+	t.equals(texture.getMimeType(), 'image/png', 'sets mime type');
+	t.equals(ImageUtils.getMimeType(texture.getImage()), 'image/png', 'encodes png');
+	t.deepEquals(texture.getSize(), [4, 2], 'encodes size');
+
+	const result = await getTexturePixels(texture);
+
+	t.deepEquals(result.shape, [4, 2, 4], 'decodes shape');
+	t.deepEquals([0, 1, 2, 3].map((k) => result.get(3, 1, k)), [255, 0, 0, 255], 'decodes pixels');
+	t.end();
+});
+
+test('@gltf-transform/functions::texturePixels | custom codec', async (t) => {
+	const encoded = new Uint8Array([1, 2, 3]);
+	const decoded = ndarray(new Uint8Array(4), [1, 1, 4]);
+	const calls: string[] = [];
+	const codec: ImageUtilsCodec = {
+		decode: async (_buffer: Uint8Array, mimeType: string) => (calls.push(`decode:${mimeType}`), decoded),
+		encode: async (_pixels: Pixels, mimeType: string) => (calls.push(`encode:${mimeType}`), encoded),
+	};
+	ImageUtils.registerCodec('image/x-custom', codec);
+
+	const texture = new Document().createTexture().setMimeType('image/x-custom');
+	await setTexturePixels(texture, decoded);
+
+	t.equals(texture.getImage(), encoded, 'encodes with custom codec');
+	t.equals(await getTexturePixels(texture), decoded, 'decodes with custom codec');
+	t.deepEquals(calls, ['encode:image/x-custom', 'decode:image/x-custom'], 'codec calls');
+	t.end();
+});
+
+test('@gltf-transform/functions::texturePixels | rgb', async (t) => {
+	const decoded = ndarray(new Uint8Array([10, 20, 30, 40, 50, 60]), [2, 1, 3]);
+	const codec: ImageUtilsCodec = {
+		decode: async () => decoded,
+		encode: async () => new Uint8Array(0),
+	};
+	ImageUtils.registerCodec('image/x-rgb', codec);
+
+	const texture = new Document().createTexture().setMimeType('image/x-rgb').setImage(new Uint8Array(4));
+	const result = await getTexturePixels(texture);
+
+	t.deepEquals(result.shape, [2, 1, 4], 'decodes shape');
+	t.deepEquals([0, 1, 2, 3].map((k) => result.get(1, 0, k)), [40, 50, 60, 255], 'decodes opaque pixels');
+	t.end();
+});
+
+test('@gltf-transform/functions::texturePixels | unsupported', async (t) => {
+	const texture = new Document().createTexture().setMimeType('image/x-unknown').setImage(new Uint8Array(4));
+	try {
+		await getTexturePixels(texture);
+		t.fail('decodes');
+	} catch (e) {
+		t.ok(/No codec registered/.test((e as Error).message), 'throws');
+	}
+	t.end();
+});